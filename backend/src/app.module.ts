@@ -4,6 +4,7 @@ import { ConfigModule } from '@nestjs/config';
 import { FileUploadController } from './controllers/file-upload.controller';
 import { HealthController } from './controllers/health.controller';
 import { BillDataController } from './controllers/bill-data.controller';
+import { DocumentController } from './controllers/document.controller';
 import { MedicalBillController } from './controllers/medical-bill.controller';
 import { FileProcessingService } from './services/file-processing.service';
 import { DatabaseSetupService } from './services/database-setup.service';
@@ -12,12 +13,32 @@ import { ImagePreprocessingService } from './services/image-preprocessing.servic
 import { BillExtractionService } from './services/bill-extraction.service';
 import { MedicalBillExtractionService } from './services/medical-bill-extraction.service';
 import { MedicalBillService } from './services/medical-bill.service';
-import { ParsedFile } from './entities/parsed-file.entity';
-import { OcrResult } from './entities/ocr-result.entity';
-import { FileMetadata } from './entities/file-metadata.entity';
-import { TableExtraction } from './entities/table-extraction.entity';
-import { BillData } from './entities/bill-data.entity';
-import { MedicalBill } from './entities/medical-bill.entity';
+import { UploadPipelineService } from './services/upload-pipeline.service';
+import { ProcessingQueueService } from './services/processing-queue.service';
+import { BatchUploadService } from './services/batch-upload.service';
+import { PdfRasterizerService } from './services/pdf-rasterizer.service';
+import { FileMetadataService } from './services/file-metadata.service';
+import { DuplicateDetectionService } from './services/duplicate-detection.service';
+import { MedicalBillValidationService } from './services/medical-bill-validation.service';
+import { BillReconciliationService } from './services/bill-reconciliation.service';
+import { OCR_ENGINES } from './services/ocr-engine.interface';
+import { OcrEngineRegistryService } from './services/ocr-engine-registry.service';
+import { TesseractOcrEngine } from './services/tesseract-ocr-engine.service';
+import { GoogleVisionOcrEngine } from './services/google-vision-ocr-engine.service';
+import { CommandLineOcrEngine } from './services/command-line-ocr-engine.service';
+import { OcrEnsembleService } from './services/ocr-ensemble.service';
+import { TableLayoutAnalyzerService } from './services/table-layout-analyzer.service';
+import { ImageQualityService } from './services/image-quality.service';
+import { ThumbnailService } from './services/thumbnail.service';
+import { ReprocessingService } from './services/reprocessing.service';
+import { MedicalBillReviewService } from './services/medical-bill-review.service';
+import { BillStatusWorkflowService } from './services/bill-status-workflow.service';
+import { DocumentService } from './services/document.service';
+import { FILE_STORAGE_DRIVERS } from './services/file-storage.interface';
+import { FileStorageService } from './services/file-storage.service';
+import { LocalFileStorage } from './services/local-file-storage.service';
+import { S3FileStorage } from './services/s3-file-storage.service';
+import { buildDataSourceOptions, ENTITIES } from './database.config';
 import { DataSource } from 'typeorm';
 
 @Module({
@@ -26,91 +47,34 @@ import { DataSource } from 'typeorm';
       isGlobal: true,
     }),
     TypeOrmModule.forRootAsync({
-      useFactory: () => {
-
-        
-        // Base configuration with only valid MySQL2 options
-        const config = {
-          type: 'mysql' as const,
-          entities: [ParsedFile, OcrResult, FileMetadata, TableExtraction, BillData, MedicalBill],
-          synchronize: false, // Disable automatic table deletion/recreation
-          logging: false, // Disable logging to reduce noise
-          charset: 'utf8mb4',
-          timezone: '+00:00',
-          // Only use valid MySQL2 connection options
-          connectTimeout: 30000,
-          timeout: 30000,
-          retryAttempts: 5,
-          retryDelay: 3000,
-          maxQueryExecutionTime: 30000,
-          // Additional options for better connection
-          keepConnectionAlive: true,
-          autoLoadEntities: true,
-        };
-
-        // Priority 1: Use DATABASE_URL if provided (Railway style)
-        if (process.env.DATABASE_URL) {
-          return {
-            ...config,
-            url: process.env.DATABASE_URL,
-          };
-        }
-        
-        // Priority 2: Use MYSQL_URL if provided (Railway MySQL)
-        if (process.env.MYSQL_URL) {
-          return {
-            ...config,
-            url: process.env.MYSQL_URL,
-          };
-        }
-        
-        // Priority 3: Use Railway MySQL environment variables
-        if (process.env.MYSQLHOST && process.env.MYSQLUSER && process.env.MYSQLDATABASE) {
-          return {
-            ...config,
-            host: process.env.MYSQLHOST,
-            port: parseInt(process.env.MYSQLPORT) || 3306,
-            username: process.env.MYSQLUSER,
-            password: process.env.MYSQLPASSWORD || process.env.MYSQL_ROOT_PASSWORD || '',
-            database: process.env.MYSQLDATABASE,
-          };
-        }
-        
-        // Priority 4: Use MYSQL_PUBLIC_URL if provided
-        if (process.env.MYSQL_PUBLIC_URL) {
-          return {
-            ...config,
-            url: process.env.MYSQL_PUBLIC_URL,
-          };
-        }
-        
-        // Priority 5: Use Railway TCP Proxy (for external connections)
-        if (process.env.RAILWAY_TCP_PROXY_DOMAIN && process.env.RAILWAY_TCP_PROXY_PORT) {
-          return {
-            ...config,
-            host: process.env.RAILWAY_TCP_PROXY_DOMAIN,
-            port: parseInt(process.env.RAILWAY_TCP_PROXY_PORT),
-            username: process.env.MYSQLUSER || 'root',
-            password: process.env.MYSQLPASSWORD || process.env.MYSQL_ROOT_PASSWORD || '',
-            database: process.env.MYSQLDATABASE || 'railway',
-          };
-        }
-        
-        // Fallback to individual environment variables (local development)
-        return {
-          ...config,
-          host: process.env.DB_HOST || 'localhost',
-          port: parseInt(process.env.DB_PORT) || 3306,
-          username: process.env.DB_USERNAME || 'root',
-          password: process.env.DB_PASSWORD || '',
-          database: process.env.DB_NAME || 'ai_crm_demo',
-        };
-      },
+      useFactory: () => ({
+        ...buildDataSourceOptions(),
+        retryAttempts: 5,
+        retryDelay: 3000,
+        keepConnectionAlive: true,
+        autoLoadEntities: true,
+      }),
     }),
-    TypeOrmModule.forFeature([ParsedFile, OcrResult, FileMetadata, TableExtraction, BillData, MedicalBill]),
+    TypeOrmModule.forFeature(ENTITIES),
+  ],
+  controllers: [FileUploadController, HealthController, BillDataController, MedicalBillController, DocumentController],
+  providers: [
+    FileProcessingService, DatabaseSetupService, GoogleVisionService, ImagePreprocessingService, BillExtractionService, MedicalBillExtractionService, MedicalBillService, UploadPipelineService, ProcessingQueueService, BatchUploadService, PdfRasterizerService, FileMetadataService, DuplicateDetectionService, MedicalBillValidationService, BillReconciliationService,
+    TesseractOcrEngine, GoogleVisionOcrEngine, CommandLineOcrEngine, OcrEngineRegistryService, OcrEnsembleService, TableLayoutAnalyzerService, ImageQualityService, ThumbnailService, ReprocessingService, MedicalBillReviewService, BillStatusWorkflowService, DocumentService,
+    LocalFileStorage, S3FileStorage, FileStorageService,
+    // OCR engines selectable with the `engine` upload parameter - add new engines here
+    {
+      provide: OCR_ENGINES,
+      useFactory: (...engines) => engines,
+      inject: [TesseractOcrEngine, GoogleVisionOcrEngine, CommandLineOcrEngine],
+    },
+    // Storage drivers selectable with STORAGE_DRIVER - add new drivers here
+    {
+      provide: FILE_STORAGE_DRIVERS,
+      useFactory: (...drivers) => drivers,
+      inject: [LocalFileStorage, S3FileStorage],
+    },
   ],
-  controllers: [FileUploadController, HealthController, BillDataController, MedicalBillController],
-  providers: [FileProcessingService, DatabaseSetupService, GoogleVisionService, ImagePreprocessingService, BillExtractionService, MedicalBillExtractionService, MedicalBillService],
 })
 export class AppModule implements OnModuleInit {
   constructor(private dataSource: DataSource) {}
@@ -122,12 +86,18 @@ export class AppModule implements OnModuleInit {
       
       if (this.dataSource.isInitialized) {
         // Just verify tables exist without forcing synchronization
-        const tables = await this.dataSource.query('SHOW TABLES');
-        const tableNames = tables.map(t => Object.values(t)[0]);
-        
-        // Check if our required tables exist
-        const requiredTables = ['parsed_files', 'file_metadata', 'ocr_results', 'table_extractions', 'bill_data', 'medical_bill'];
-        const missingTables = requiredTables.filter(table => !tableNames.includes(table));
+        // (QueryRunner.hasTable works on every supported database, unlike SHOW TABLES)
+        const queryRunner = this.dataSource.createQueryRunner();
+        const missingTables: string[] = [];
+        try {
+          for (const { tableName } of this.dataSource.entityMetadatas) {
+            if (!(await queryRunner.hasTable(tableName))) {
+              missingTables.push(tableName);
+            }
+          }
+        } finally {
+          await queryRunner.release();
+        }
         
         if (missingTables.length > 0) {
           // Some tables are missing - they will be created when first accessed
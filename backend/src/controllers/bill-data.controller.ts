@@ -9,14 +9,17 @@ import {
   HttpStatus,
   HttpCode,
   Query,
+  Headers,
 } from '@nestjs/common';
 import { BillExtractionService } from '../services/bill-extraction.service';
+import { BillStatusWorkflowService, BillStatusTransitionError } from '../services/bill-status-workflow.service';
 import { BillData, BillType, BillStatus } from '../entities/bill-data.entity';
 
 @Controller('api/bills')
 export class BillDataController {
   constructor(
     private readonly billExtractionService: BillExtractionService,
+    private readonly billStatusWorkflowService: BillStatusWorkflowService,
   ) {}
 
   @Get()
@@ -88,7 +91,8 @@ export class BillDataController {
       data: Object.values(BillStatus).map(status => ({
         value: status,
         label: status.charAt(0).toUpperCase() + status.slice(1),
-        description: this.getBillStatusDescription(status)
+        description: this.getBillStatusDescription(status),
+        transitions: this.billStatusWorkflowService.allowedTransitions(status)
       }))
     };
   }
@@ -182,7 +186,8 @@ export class BillDataController {
   @HttpCode(HttpStatus.OK)
   async updateBillStatus(
     @Param('id', ParseIntPipe) id: number,
-    @Body() body: { status: BillStatus; notes?: string }
+    @Body() body: { status: BillStatus; notes?: string },
+    @Headers('x-user') actor?: string,
   ) {
     try {
       if (!body.status || !Object.values(BillStatus).includes(body.status)) {
@@ -193,12 +198,21 @@ export class BillDataController {
         };
       }
 
-      const updatedBill = await this.billExtractionService.updateBillStatus(
+      const updatedBill = await this.billStatusWorkflowService.transition(
         id,
         body.status,
+        actor,
         body.notes
       );
 
+      if (!updatedBill) {
+        return {
+          success: false,
+          message: 'Bill not found',
+          error: `No bill found with ID ${id}`
+        };
+      }
+
       return {
         success: true,
         message: 'Bill status updated successfully',
@@ -207,7 +221,40 @@ export class BillDataController {
     } catch (error) {
       return {
         success: false,
-        message: 'Failed to update bill status',
+        message: error instanceof BillStatusTransitionError ? 'Status change not allowed' : 'Failed to update bill status',
+        error: error.message
+      };
+    }
+  }
+
+  @Get(':id/history')
+  @HttpCode(HttpStatus.OK)
+  async getBillStatusHistory(@Param('id', ParseIntPipe) id: number) {
+    try {
+      const bill = await this.billExtractionService.getBillDataById(id);
+
+      if (!bill) {
+        return {
+          success: false,
+          message: 'Bill not found',
+          error: `No bill found with ID ${id}`
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Bill status history retrieved successfully',
+        data: {
+          billId: id,
+          currentStatus: bill.billStatus,
+          allowedTransitions: this.billStatusWorkflowService.allowedTransitions(bill.billStatus),
+          history: await this.billStatusWorkflowService.getHistory(id)
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Failed to retrieve bill status history',
         error: error.message
       };
     }
@@ -0,0 +1,172 @@
+import { Controller, Get, Param, Query, ParseIntPipe, BadRequestException, NotFoundException, HttpStatus, HttpCode } from '@nestjs/common';
+import { DocumentService, DocumentListQuery, DocumentSortField, DOCUMENT_SORT_FIELDS } from '../services/document.service';
+import { Document, DocumentType } from '../entities/document.entity';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * One query API over every extracted document - payslips, invoices, medical bills, ... -
+ * in the common Document shape. Type-specific actions stay on /api/bills and /api/medical-bills.
+ */
+@Controller('api/documents')
+export class DocumentController {
+  constructor(
+    private readonly documentService: DocumentService,
+  ) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async getDocuments(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('type') type?: string,
+    @Query('status') status?: string,
+    @Query('q') search?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('minAmount') minAmount?: string,
+    @Query('maxAmount') maxAmount?: string,
+    @Query('fileId') fileId?: string,
+    @Query('sort') sort?: string,
+    @Query('order') order?: string,
+  ) {
+    const query = this.parseListQuery({ page, limit, type, status, search, from, to, minAmount, maxAmount, fileId, sort, order });
+
+    try {
+      const { documents, total } = await this.documentService.listDocuments(query);
+      return {
+        success: true,
+        message: 'Documents retrieved successfully',
+        data: documents.map(document => this.toResponse(document)),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        }
+      };
+    } catch (error) {
+      throw new BadRequestException(`Failed to retrieve documents: ${error.message}`);
+    }
+  }
+
+  @Get('types')
+  @HttpCode(HttpStatus.OK)
+  async getDocumentTypes() {
+    const counts = await this.documentService.countByType();
+    return {
+      success: true,
+      message: 'Document types retrieved successfully',
+      data: Object.values(DocumentType).map(type => ({ value: type, count: counts[type] || 0 }))
+    };
+  }
+
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getDocumentById(@Param('id', ParseIntPipe) id: number) {
+    const document = await this.documentService.getDocumentById(id);
+    if (!document) {
+      throw new NotFoundException(`Document with ID ${id} not found`);
+    }
+    return {
+      success: true,
+      message: 'Document retrieved successfully',
+      data: this.toResponse(document)
+    };
+  }
+
+  private toResponse(document: Document) {
+    return {
+      ...document,
+      subtotal: this.toNumber(document.subtotal),
+      taxAmount: this.toNumber(document.taxAmount),
+      discountAmount: this.toNumber(document.discountAmount),
+      totalAmount: this.toNumber(document.totalAmount),
+      confidence: this.toNumber(document.confidence),
+      source: {
+        table: document.sourceTable,
+        id: document.sourceId,
+        url: this.documentService.sourcePath(document),
+      },
+    };
+  }
+
+  // Decimal columns come back from MySQL as strings
+  private toNumber(value: any): number | null {
+    return value === null || value === undefined ? null : Number(value);
+  }
+
+  private parseListQuery(query: Record<string, string | undefined>): DocumentListQuery {
+    const page = query.page === undefined ? 1 : parseInt(query.page, 10);
+    const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(query.limit, 10);
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException(`Invalid page "${query.page}". Expected a positive integer`);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new BadRequestException(`Invalid limit "${query.limit}". Expected 1 to ${MAX_PAGE_SIZE}`);
+    }
+
+    // `type` takes one type or a comma-separated list
+    const types = Object.values(DocumentType) as string[];
+    const documentTypes = query.type ? query.type.split(',').map(type => type.trim()).filter(Boolean) : [];
+    const invalidType = documentTypes.find(type => !types.includes(type));
+    if (invalidType) {
+      throw new BadRequestException(`Invalid type "${invalidType}". Expected one of: ${types.join(', ')}`);
+    }
+    if (query.sort && !DOCUMENT_SORT_FIELDS.includes(query.sort as DocumentSortField)) {
+      throw new BadRequestException(`Invalid sort "${query.sort}". Expected one of: ${DOCUMENT_SORT_FIELDS.join(', ')}`);
+    }
+    const order = query.order?.toUpperCase();
+    if (order && order !== 'ASC' && order !== 'DESC') {
+      throw new BadRequestException(`Invalid order "${query.order}". Expected asc or desc`);
+    }
+
+    return {
+      page,
+      limit,
+      documentTypes: documentTypes as DocumentType[],
+      status: query.status || undefined,
+      search: query.search?.trim() || undefined,
+      dateFrom: this.parseDate('from', query.from),
+      dateTo: this.parseDate('to', query.to),
+      minAmount: this.parseAmount('minAmount', query.minAmount),
+      maxAmount: this.parseAmount('maxAmount', query.maxAmount),
+      parsedFileId: this.parseId('fileId', query.fileId),
+      sort: query.sort as DocumentSortField,
+      order: order as 'ASC' | 'DESC',
+    };
+  }
+
+  /**
+   * Document dates are calendar dates, so only YYYY-MM-DD is accepted
+   */
+  private parseDate(name: string, value?: string): string | undefined {
+    if (!value) return undefined;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) {
+      throw new BadRequestException(`Invalid ${name} "${value}". Expected a date such as 2024-01-31`);
+    }
+    return value;
+  }
+
+  private parseAmount(name: string, value?: string): number | undefined {
+    if (value === undefined || value === '') return undefined;
+
+    const amount = Number(value);
+    if (isNaN(amount)) {
+      throw new BadRequestException(`Invalid ${name} "${value}". Expected a number`);
+    }
+    return amount;
+  }
+
+  private parseId(name: string, value?: string): number | undefined {
+    if (value === undefined || value === '') return undefined;
+
+    const id = parseInt(value, 10);
+    if (!Number.isInteger(id) || id < 1 || String(id) !== value) {
+      throw new BadRequestException(`Invalid ${name} "${value}". Expected a positive integer`);
+    }
+    return id;
+  }
+}
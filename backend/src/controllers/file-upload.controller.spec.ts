@@ -0,0 +1,35 @@
+import { FileUploadController } from './file-upload.controller';
+
+describe('FileUploadController Range parsing', () => {
+  const parseRange = (header: string | undefined, size: number) =>
+    FileUploadController.prototype['parseRange'].call(null, header, size);
+
+  it('serves the whole file without a usable Range header', () => {
+    expect(parseRange(undefined, 1000)).toBeNull();
+    expect(parseRange('', 1000)).toBeNull();
+    expect(parseRange('bytes=-', 1000)).toBeNull();
+    expect(parseRange('bytes=0-99,200-299', 1000)).toBeNull(); // Multiple ranges
+    expect(parseRange('items=0-99', 1000)).toBeNull();
+  });
+
+  it('parses bounded and open-ended ranges', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRange(' bytes=500- ', 1000)).toEqual({ start: 500, end: 999 });
+  });
+
+  it('clamps the end to the last byte', () => {
+    expect(parseRange('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('parses suffix ranges', () => {
+    expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('reports ranges outside the file as unsatisfiable', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=500-100', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=0-', 0)).toBe('unsatisfiable');
+  });
+});
@@ -5,20 +5,38 @@ import {
   Param,
   UseInterceptors,
   UploadedFile,
+  UploadedFiles,
   BadRequestException,
+  NotFoundException,
+  ConflictException,
+  UnprocessableEntityException,
   HttpStatus,
   HttpCode,
   ParseIntPipe,
   Req,
+  Res,
+  Query,
   Headers,
+  StreamableFile,
+  Body,
 } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { memoryStorage } from 'multer';
-import { FileProcessingService } from '../services/file-processing.service';
+import { FileProcessingService, PDF_OCR_MODES, PdfOcrMode, PARSED_FILE_SORT_FIELDS, ParsedFileSortField, ParsedFileListQuery } from '../services/file-processing.service';
 import { GoogleVisionService } from '../services/google-vision.service';
 import { MedicalBillExtractionService } from '../services/medical-bill-extraction.service';
 import { MedicalBillService } from '../services/medical-bill.service';
-import { Request } from 'express';
+import { UploadPipelineService, DuplicateBillError, ImageQualityError } from '../services/upload-pipeline.service';
+import { ProcessingQueueService } from '../services/processing-queue.service';
+import { BatchUploadService, batchUploadMulterConfig } from '../services/batch-upload.service';
+import { FileMetadataService } from '../services/file-metadata.service';
+import { DUPLICATE_POLICIES, DuplicatePolicy } from '../services/duplicate-detection.service';
+import { OcrEngineRegistryService } from '../services/ocr-engine-registry.service';
+import { IMAGE_QUALITY_POLICIES, ImageQualityPolicy } from '../services/image-quality.service';
+import { RenderedImage } from '../services/thumbnail.service';
+import { ReprocessingService, ReprocessOptions, MAX_REPROCESS_FILES } from '../services/reprocessing.service';
+import { FileType, ProcessingStatus } from '../entities/parsed-file.entity';
+import { Request, Response } from 'express';
 
 // Configure multer for file storage (using memory storage to preserve file.buffer)
 const multerConfig = {
@@ -48,6 +66,9 @@ const multerConfig = {
   },
 };
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
 @Controller('api/files')
 export class FileUploadController {
   constructor(
@@ -55,19 +76,14 @@ export class FileUploadController {
     private readonly googleVisionService: GoogleVisionService,
     private readonly medicalBillExtractionService: MedicalBillExtractionService,
     private readonly medicalBillService: MedicalBillService,
+    private readonly uploadPipelineService: UploadPipelineService,
+    private readonly processingQueueService: ProcessingQueueService,
+    private readonly batchUploadService: BatchUploadService,
+    private readonly fileMetadataService: FileMetadataService,
+    private readonly ocrEngineRegistryService: OcrEngineRegistryService,
+    private readonly reprocessingService: ReprocessingService,
   ) {}
 
-  /**
-   * Clean up failed upload by removing the parsed file record
-   */
-  private async cleanupFailedUpload(parsedFileId: number): Promise<void> {
-    try {
-      await this.fileProcessingService.deleteParsedFile(parsedFileId);
-    } catch (error) {
-      // Failed to cleanup parsed file
-    }
-  }
-
   /**
    * Clean up orphaned records endpoint
    */
@@ -90,14 +106,21 @@ export class FileUploadController {
   async uploadFile(
     @UploadedFile() file: Express.Multer.File,
     @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
     @Headers('user-agent') userAgent?: string,
+    @Query('async') asyncMode?: string,
+    @Query('duplicatePolicy') duplicatePolicy?: DuplicatePolicy,
+    @Query('engine') engine?: string,
+    @Query('ensemble') ensemble?: string,
+    @Query('qualityPolicy') qualityPolicy?: ImageQualityPolicy,
   ) {
-    let result: any = null;
-    
     try {
       if (!file) {
         throw new BadRequestException('No file uploaded');
       }
+      this.assertDuplicatePolicy(duplicatePolicy);
+      this.assertOcrEngine(engine);
+      this.assertQualityPolicy(qualityPolicy);
       // Extract request information
       const requestInfo = {
         userAgent: userAgent || request.headers['user-agent'],
@@ -105,135 +128,357 @@ export class FileUploadController {
         sessionId: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       };
 
-  
-
-      // Starting file processing
-      result = await this.fileProcessingService.processFile(file, requestInfo);
-     
-      // Check if this is a medical bill and extract structured data
-      const isMedicalBill = result.extractedText ? this.medicalBillExtractionService.isMedicalBill(result.extractedText) : false;
-      
-      if (result.extractedText && isMedicalBill) {
-        try {
-          const medicalBillData = this.medicalBillExtractionService.extractMedicalBillData(result.extractedText);
-          const validation = this.medicalBillExtractionService.validateMedicalBill(medicalBillData);
-          
-          if (validation.isValid) {
-            // Calculate confidence score
-            const confidence = this.medicalBillExtractionService.calculateConfidence(medicalBillData);
-            
-            // Save medical bill data to database with file information
-            await this.medicalBillService.saveMedicalBill(result.id, medicalBillData, confidence, {
-              fileName: result.originalName,
-              fileSize: result.fileSize,
-              processedStatus: result.processingStatus
-            });
-            
-            // Return the medical bill data in the requested format with message and data
-            return {
-              status: true,
-              message: "Medical bill data extracted and saved successfully",
-              data: {
-                id: result.id,
-                fileName: result.originalName,
-                fileSize: result.fileSize,
-                processedStatus: result.processingStatus,
-                processedDate: new Date().toISOString(),
-                ...medicalBillData
-              }
-            };
-          } else {
-            // Clean up the parsed file record if medical bill validation fails
-            await this.cleanupFailedUpload(result.id);
-            throw new BadRequestException(`Medical bill validation failed: ${validation.errors.join(', ')}`);
-          }
-        } catch (error) {
-          // Clean up the parsed file record if medical bill extraction fails
-          if (result && result.id) {
-            await this.cleanupFailedUpload(result.id);
+      // Async mode: queue the file and let the client poll the job
+      if (asyncMode === 'true' || asyncMode === '1') {
+        const job = await this.processingQueueService.enqueue(file, requestInfo, { duplicatePolicy, ocrEngine: engine, ensemble: this.parseFlag(ensemble), qualityPolicy });
+        response.status(HttpStatus.ACCEPTED);
+        return {
+          status: true,
+          message: "File accepted for processing",
+          data: {
+            jobId: job.id,
+            status: job.status,
+            statusUrl: `/api/files/jobs/${job.id}`
           }
-          throw new BadRequestException(`Medical bill extraction failed: ${error.message}`);
-        }
+        };
       }
 
-      // If not a medical bill, clean up and return error
-      if (result && result.id) {
-        await this.cleanupFailedUpload(result.id);
-      }
-      // Provide more detailed error information for debugging
-      const debugInfo = result.extractedText ? {
-        textLength: result.extractedText.length,
-        textPreview: result.extractedText.substring(0, 200) + '...',
-        isMedicalBill: isMedicalBill
-      } : { textLength: 0, textPreview: 'No text extracted', isMedicalBill: false };
-      
-      throw new BadRequestException(`Uploaded file does not appear to be a medical bill. Debug info: ${JSON.stringify(debugInfo)}`);
+      // Starting file processing
+      const result = await this.uploadPipelineService.processMedicalBillUpload(file, requestInfo, { duplicatePolicy, ocrEngine: engine, ensemble: this.parseFlag(ensemble), qualityPolicy });
+
+      // Return the medical bill data in the requested format with message and data
+      return {
+        status: true,
+        message: "Medical bill data extracted and saved successfully",
+        data: this.uploadPipelineService.toResponseData(result)
+      };
     } catch (error) {
-      // Clean up any partially created records
-      if (result && result.id) {
-        await this.cleanupFailedUpload(result.id);
+      if (error instanceof DuplicateBillError) {
+        throw new ConflictException({
+          status: false,
+          message: `File processing failed: ${error.message}`,
+          duplicateOf: error.duplicateOf.medicalBillId,
+          duplicateMatchType: error.duplicateOf.matchType,
+        });
+      }
+      if (error instanceof ImageQualityError) {
+        throw new UnprocessableEntityException({
+          status: false,
+          message: `File processing failed: ${error.message}`,
+          imageQuality: error.imageQuality,
+        });
       }
       throw new BadRequestException(`File processing failed: ${error.message}`);
     }
   }
 
+  /**
+   * Batch upload: many files and/or ZIP archives, one result per file
+   */
+  @Post('upload/batch')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FilesInterceptor('files', undefined, batchUploadMulterConfig))
+  async uploadBatch(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Req() request: Request,
+    @Headers('user-agent') userAgent?: string,
+    @Query('duplicatePolicy') duplicatePolicy?: DuplicatePolicy,
+    @Query('engine') engine?: string,
+    @Query('ensemble') ensemble?: string,
+    @Query('qualityPolicy') qualityPolicy?: ImageQualityPolicy,
+  ) {
+    if (!files || files.length === 0) {
+      throw new BadRequestException('No files uploaded');
+    }
+    this.assertDuplicatePolicy(duplicatePolicy);
+    this.assertOcrEngine(engine);
+    this.assertQualityPolicy(qualityPolicy);
+
+    const requestInfo = {
+      userAgent: userAgent || request.headers['user-agent'],
+      ip: request.ip || request.connection.remoteAddress || request.socket.remoteAddress || 'unknown',
+      sessionId: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    };
+
+    const report = await this.batchUploadService.processBatch(files, requestInfo, { duplicatePolicy, ocrEngine: engine, ensemble: this.parseFlag(ensemble), qualityPolicy });
+
+    return {
+      status: true,
+      message: `Batch processed: ${report.succeeded} succeeded, ${report.failed} failed`,
+      data: report
+    };
+  }
+
+  /**
+   * Rerun OCR and/or medical bill extraction on several stored files, one result per file
+   */
+  @Post('reprocess')
+  @HttpCode(HttpStatus.OK)
+  async reprocessFiles(
+    @Body('ids') ids: number[],
+    @Headers('x-user') requestedBy?: string,
+    @Query('ocr') ocr?: string,
+    @Query('extraction') extraction?: string,
+    @Query('engine') engine?: string,
+    @Query('ensemble') ensemble?: string,
+    @Query('pdfOcrMode') pdfOcrMode?: PdfOcrMode,
+    @Query('keepCorrections') keepCorrections?: string,
+  ) {
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => Number.isInteger(id) && id > 0)) {
+      throw new BadRequestException('Body must contain "ids": a non-empty array of file IDs');
+    }
+    if (ids.length > MAX_REPROCESS_FILES) {
+      throw new BadRequestException(`At most ${MAX_REPROCESS_FILES} files can be reprocessed per request`);
+    }
+    const options = this.parseReprocessOptions({ ocr, extraction, engine, ensemble, pdfOcrMode, keepCorrections }, requestedBy);
+
+    const report = await this.reprocessingService.reprocessMany(ids, options);
+
+    return {
+      status: true,
+      message: `Reprocessed: ${report.succeeded} succeeded, ${report.failed} failed`,
+      data: report
+    };
+  }
+
+  /**
+   * Rerun OCR and/or medical bill extraction on a stored file and report what changed
+   */
+  @Post(':id/reprocess')
+  @HttpCode(HttpStatus.OK)
+  async reprocessFile(
+    @Param('id', ParseIntPipe) id: number,
+    @Headers('x-user') requestedBy?: string,
+    @Query('ocr') ocr?: string,
+    @Query('extraction') extraction?: string,
+    @Query('engine') engine?: string,
+    @Query('ensemble') ensemble?: string,
+    @Query('pdfOcrMode') pdfOcrMode?: PdfOcrMode,
+    @Query('keepCorrections') keepCorrections?: string,
+  ) {
+    const options = this.parseReprocessOptions({ ocr, extraction, engine, ensemble, pdfOcrMode, keepCorrections }, requestedBy);
+
+    const file = await this.fileProcessingService.getParsedFileById(id);
+    if (!file) {
+      throw new NotFoundException(`File with ID ${id} not found`);
+    }
+
+    try {
+      const result = await this.reprocessingService.reprocess(file, options);
+      return {
+        status: true,
+        message: result.changes.length > 0 ? `Reprocessed: ${result.changes.length} field(s) changed` : 'Reprocessed: no changes',
+        data: result
+      };
+    } catch (error) {
+      throw new BadRequestException({
+        status: false,
+        message: `Reprocessing failed: ${error.message}`,
+        validationErrors: error.validationErrors || [],
+      });
+    }
+  }
+
+  /**
+   * Registered OCR engines and whether each can run here (for the `engine` upload parameter)
+   */
+  @Get('ocr-engines')
+  async getOcrEngines() {
+    return {
+      status: true,
+      message: "OCR engines retrieved successfully",
+      data: await this.ocrEngineRegistryService.describe()
+    };
+  }
+
+  @Get('jobs/:id')
+  async getJobStatus(@Param('id', ParseIntPipe) id: number) {
+    const job = await this.processingQueueService.getJob(id);
+    if (!job) {
+      throw new NotFoundException(`Job with ID ${id} not found`);
+    }
+
+    return {
+      status: true,
+      message: "Job status retrieved successfully",
+      data: {
+        jobId: job.id,
+        status: job.status,
+        stage: job.stage,
+        progress: job.progress,
+        fileName: job.originalName,
+        fileSize: job.fileSize,
+        attempts: job.attempts,
+        parsedFileId: job.parsedFileId,
+        medicalBillId: job.medicalBillId,
+        error: job.errorMessage,
+        result: job.result,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+      }
+    };
+  }
+
+  @Get(':id/metadata')
+  async getFileMetadata(@Param('id', ParseIntPipe) id: number) {
+    const file = await this.fileProcessingService.getParsedFileById(id);
+    if (!file) {
+      throw new NotFoundException(`File with ID ${id} not found`);
+    }
+
+    const metadata = await this.fileMetadataService.getByParsedFileId(id);
+    if (!metadata) {
+      throw new NotFoundException(`No metadata recorded for file ${id}`);
+    }
+
+    return {
+      status: true,
+      message: "File metadata retrieved successfully",
+      data: {
+        fileId: file.id,
+        fileName: file.originalName,
+        fileType: file.fileType,
+        mimeType: file.mimeType,
+        fileSize: file.fileSize,
+        ...metadata
+      }
+    };
+  }
+
+  /**
+   * The original upload, streamed; supports single `Range: bytes=` requests for large PDFs
+   */
+  @Get(':id/download')
+  async downloadFile(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<StreamableFile> {
+    const file = await this.fileProcessingService.getParsedFileById(id);
+    if (!file) {
+      throw new NotFoundException(`File with ID ${id} not found`);
+    }
+
+    const size = await this.fileProcessingService.getStoredFileSize(file.filePath);
+    if (size === null) {
+      throw new NotFoundException(`Stored copy of file ${id} not found`);
+    }
+
+    const range = this.parseRange(request.headers.range, size);
+    response.set({
+      'Content-Type': file.mimeType || 'application/octet-stream',
+      'Content-Disposition': this.contentDisposition(file.originalName),
+      'Accept-Ranges': 'bytes',
+    });
+
+    if (range === 'unsatisfiable') {
+      response.status(HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE);
+      response.set('Content-Range', `bytes */${size}`);
+      return new StreamableFile(Buffer.alloc(0));
+    }
+
+    await this.fileProcessingService.markAccessed(id);
+
+    if (range) {
+      response.status(HttpStatus.PARTIAL_CONTENT);
+      response.set({
+        'Content-Range': `bytes ${range.start}-${range.end}/${size}`,
+        'Content-Length': String(range.end - range.start + 1),
+      });
+      return new StreamableFile(await this.fileProcessingService.createStoredFileStream(file.filePath, range));
+    }
+
+    response.set('Content-Length', String(size));
+    return new StreamableFile(await this.fileProcessingService.createStoredFileStream(file.filePath));
+  }
+
+  /**
+   * Small preview of the first page (images and PDFs)
+   */
+  @Get(':id/thumbnail')
+  async getThumbnail(
+    @Param('id', ParseIntPipe) id: number,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<StreamableFile> {
+    const file = await this.fileProcessingService.getParsedFileById(id);
+    if (!file) {
+      throw new NotFoundException(`File with ID ${id} not found`);
+    }
+
+    let thumbnail: RenderedImage;
+    try {
+      thumbnail = await this.fileProcessingService.getThumbnail(file);
+    } catch (error) {
+      throw new NotFoundException(`Thumbnail for file ${id} is not available: ${error.message}`);
+    }
+    if (!thumbnail) {
+      throw new NotFoundException(`Thumbnails are not available for ${file.fileType} files`);
+    }
+
+    return this.sendImage(response, thumbnail);
+  }
+
+  /**
+   * One page rendered for display next to the extracted data (1-based page number)
+   */
+  @Get(':id/pages/:page/preview')
+  async getPagePreview(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('page', ParseIntPipe) page: number,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<StreamableFile> {
+    const file = await this.fileProcessingService.getParsedFileById(id);
+    if (!file) {
+      throw new NotFoundException(`File with ID ${id} not found`);
+    }
+
+    // Page counts are recorded for PDFs processed page by page; older PDFs are left to the renderer
+    const pageCount: number | undefined = file.fileType === FileType.PDF ? file.ocrMetadata?.pages?.length : 1;
+    if (page < 1 || (pageCount && page > pageCount)) {
+      throw new NotFoundException(`File ${id} has no page ${page}${pageCount ? ` (pages: ${pageCount})` : ''}`);
+    }
+
+    let preview: RenderedImage;
+    try {
+      preview = await this.fileProcessingService.getPagePreview(file, page);
+    } catch (error) {
+      throw new NotFoundException(`Preview of page ${page} of file ${id} is not available: ${error.message}`);
+    }
+    if (!preview) {
+      throw new NotFoundException(`Page previews are not available for ${file.fileType} files`);
+    }
+
+    return this.sendImage(response, preview);
+  }
+
+  /**
+   * Paginated, filterable file list. Read-only: files are listed with their saved medical bill, if any.
+   */
   @Get()
-  async getAllFiles() {
+  async getAllFiles(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('fileType') fileType?: string,
+    @Query('processingStatus') processingStatus?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('hasMedicalBill') hasMedicalBill?: string,
+    @Query('sort') sort?: string,
+    @Query('order') order?: string,
+  ) {
+    const query = this.parseListQuery({ page, limit, fileType, processingStatus, from, to, hasMedicalBill, sort, order });
+
     try {
-      const files = await this.fileProcessingService.getAllParsedFiles();
-      
+      const { files, total } = await this.fileProcessingService.listParsedFiles(query);
+      const medicalBills = await this.medicalBillService.getMedicalBillsByParsedFileIds(files.map(file => file.id));
+      const billsByFileId = new Map(medicalBills.map(medicalBill => [medicalBill.parsedFileId, medicalBill]));
+
       return {
         status: true,
         message: "Files retrieved successfully",
-        data: await Promise.all(files.map(async (file) => {
-          // Check if medical bill data exists in database
-          const medicalBill = await this.medicalBillService.getMedicalBillByParsedFileId(file.id);
-          if (medicalBill) {
-            // Return the saved medical bill data directly
-            return this.medicalBillService.convertToDto(medicalBill);
-          }
-          
-          // If not in database, check if this is a medical bill and extract structured data
-          if (file.extractedText && this.medicalBillExtractionService.isMedicalBill(file.extractedText)) {
-            try {
-              const medicalBillData = this.medicalBillExtractionService.extractMedicalBillData(file.extractedText);
-              const validation = this.medicalBillExtractionService.validateMedicalBill(medicalBillData);
-              
-              if (validation.isValid) {
-                // Calculate confidence and save to database
-                const confidence = this.medicalBillExtractionService.calculateConfidence(medicalBillData);
-                await this.medicalBillService.saveMedicalBill(file.id, medicalBillData, confidence, {
-                  fileName: file.originalName,
-                  fileSize: file.fileSize,
-                  processedStatus: file.processingStatus
-                });
-                
-                // Return the medical bill data directly with ID
-                return {
-                  id: file.id,
-                  fileName: file.originalName,
-                  fileSize: file.fileSize,
-                  processedStatus: file.processingStatus,
-                  processedDate: new Date().toISOString(),
-                  ...medicalBillData
-                };
-              } else {
-                // If validation fails, still return the extracted data with ID for debugging
-                return {
-                  id: file.id,
-                  fileName: file.originalName,
-                  fileSize: file.fileSize,
-                  processedStatus: file.processingStatus,
-                  processedDate: new Date().toISOString(),
-                  ...medicalBillData
-                };
-              }
-            } catch (error) {
-              // If medical bill extraction fails, continue with normal processing
-            }
-          }
-          
-          const structuredTableData = file.structuredTableData ? JSON.parse(file.structuredTableData) : null;
+        data: files.map(file => {
+          const medicalBill = billsByFileId.get(file.id);
           return {
             id: file.id,
             filename: file.filename,
@@ -249,14 +494,19 @@ export class FileUploadController {
             hasStructuredData: file.hasStructuredData,
             tableCount: file.tableCount,
             averageConfidence: file.averageConfidence,
-            parsedContent: file.parsedContent ? JSON.parse(file.parsedContent) : null,
-            structuredTableData: structuredTableData,
-            structuredDocumentData: structuredTableData?.structuredPayslipData || null, // Backward compatibility
-            extractedText: file.extractedText || '',
+            retryCount: file.retryCount,
+            hasMedicalBill: !!medicalBill,
+            medicalBill: medicalBill ? this.medicalBillService.convertToDto(medicalBill) : null,
             createdAt: file.createdAt,
             updatedAt: file.updatedAt,
           };
-        }))
+        }),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        }
       };
     } catch (error) {
       throw new BadRequestException(`Failed to retrieve files: ${error.message}`);
@@ -586,4 +836,150 @@ export class FileUploadController {
       throw new BadRequestException(`Debug failed: ${error.message}`);
     }
   }
+
+  /**
+   * Byte range from a `Range` header. Null means send the whole file (no header, or a form
+   * we don't serve such as multiple ranges); 'unsatisfiable' means the range lies outside the file.
+   */
+  private parseRange(header: string | undefined, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+    const match = /^bytes=(\d*)-(\d*)$/.exec((header || '').trim());
+    if (!match || (match[1] === '' && match[2] === '')) return null;
+
+    let start: number;
+    let end: number;
+    if (match[1] === '') {
+      // Suffix range: the last N bytes
+      const length = parseInt(match[2], 10);
+      if (length === 0) return 'unsatisfiable';
+      start = Math.max(0, size - length);
+      end = size - 1;
+    } else {
+      start = parseInt(match[1], 10);
+      end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+    }
+
+    if (start >= size || start > end) return 'unsatisfiable';
+    return { start, end };
+  }
+
+  /**
+   * attachment header with an ASCII fallback name and the original name RFC 5987-encoded
+   */
+  private contentDisposition(originalName: string): string {
+    const name = originalName || 'download';
+    const fallback = name.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+  }
+
+  private sendImage(response: Response, image: RenderedImage): StreamableFile {
+    response.set({
+      'Content-Type': image.extension === 'png' ? 'image/png' : 'image/jpeg',
+      'Cache-Control': 'private, max-age=86400', // Stored files never change in place
+    });
+    return new StreamableFile(image.buffer);
+  }
+
+  private assertDuplicatePolicy(duplicatePolicy?: string): void {
+    if (duplicatePolicy && !DUPLICATE_POLICIES.includes(duplicatePolicy as DuplicatePolicy)) {
+      throw new BadRequestException(`Invalid duplicatePolicy "${duplicatePolicy}". Expected one of: ${DUPLICATE_POLICIES.join(', ')}`);
+    }
+  }
+
+  private assertOcrEngine(engine?: string): void {
+    if (engine && !this.ocrEngineRegistryService.has(engine)) {
+      throw new BadRequestException(`Invalid engine "${engine}". Expected one of: ${this.ocrEngineRegistryService.getEngineNames().join(', ')}`);
+    }
+  }
+
+  private assertQualityPolicy(qualityPolicy?: string): void {
+    if (qualityPolicy && !IMAGE_QUALITY_POLICIES.includes(qualityPolicy as ImageQualityPolicy)) {
+      throw new BadRequestException(`Invalid qualityPolicy "${qualityPolicy}". Expected one of: ${IMAGE_QUALITY_POLICIES.join(', ')}`);
+    }
+  }
+
+  private parseListQuery(query: Record<string, string | undefined>): ParsedFileListQuery {
+    const page = query.page === undefined ? 1 : parseInt(query.page, 10);
+    const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(query.limit, 10);
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException(`Invalid page "${query.page}". Expected a positive integer`);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new BadRequestException(`Invalid limit "${query.limit}". Expected 1 to ${MAX_PAGE_SIZE}`);
+    }
+
+    const fileTypes = Object.values(FileType) as string[];
+    if (query.fileType && !fileTypes.includes(query.fileType)) {
+      throw new BadRequestException(`Invalid fileType "${query.fileType}". Expected one of: ${fileTypes.join(', ')}`);
+    }
+    const statuses = Object.values(ProcessingStatus) as string[];
+    if (query.processingStatus && !statuses.includes(query.processingStatus)) {
+      throw new BadRequestException(`Invalid processingStatus "${query.processingStatus}". Expected one of: ${statuses.join(', ')}`);
+    }
+    if (query.sort && !PARSED_FILE_SORT_FIELDS.includes(query.sort as ParsedFileSortField)) {
+      throw new BadRequestException(`Invalid sort "${query.sort}". Expected one of: ${PARSED_FILE_SORT_FIELDS.join(', ')}`);
+    }
+    const order = query.order?.toUpperCase();
+    if (order && order !== 'ASC' && order !== 'DESC') {
+      throw new BadRequestException(`Invalid order "${query.order}". Expected asc or desc`);
+    }
+
+    return {
+      page,
+      limit,
+      fileType: query.fileType as FileType,
+      processingStatus: query.processingStatus as ProcessingStatus,
+      createdFrom: this.parseDate('from', query.from),
+      createdTo: this.parseDate('to', query.to, true),
+      hasMedicalBill: this.parseFlag(query.hasMedicalBill),
+      sort: query.sort as ParsedFileSortField,
+      order: order as 'ASC' | 'DESC',
+    };
+  }
+
+  /**
+   * ISO date or date-time query parameter; a bare `to` date includes that whole day
+   */
+  private parseDate(name: string, value?: string, endOfDay = false): Date | undefined {
+    if (!value) return undefined;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid ${name} "${value}". Expected an ISO date such as 2024-01-31`);
+    }
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  }
+
+  private parseReprocessOptions(
+    query: { ocr?: string; extraction?: string; engine?: string; ensemble?: string; pdfOcrMode?: string; keepCorrections?: string },
+    requestedBy?: string,
+  ): ReprocessOptions {
+    this.assertOcrEngine(query.engine);
+    if (query.pdfOcrMode && !PDF_OCR_MODES.includes(query.pdfOcrMode as PdfOcrMode)) {
+      throw new BadRequestException(`Invalid pdfOcrMode "${query.pdfOcrMode}". Expected one of: ${PDF_OCR_MODES.join(', ')}`);
+    }
+
+    const options: ReprocessOptions = {
+      ocr: this.parseFlag(query.ocr),
+      extraction: this.parseFlag(query.extraction),
+      ocrEngine: query.engine,
+      ensemble: this.parseFlag(query.ensemble),
+      pdfOcrMode: query.pdfOcrMode as PdfOcrMode,
+      keepCorrections: this.parseFlag(query.keepCorrections),
+      requestedBy,
+    };
+    if (options.ocr === false && options.extraction === false) {
+      throw new BadRequestException('Nothing to reprocess: set ocr and/or extraction to true');
+    }
+    return options;
+  }
+
+  /**
+   * Boolean query flag; undefined when absent so the env default applies
+   */
+  private parseFlag(value?: string): boolean | undefined {
+    return value === undefined ? undefined : value === 'true' || value === '1';
+  }
 }
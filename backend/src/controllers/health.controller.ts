@@ -45,8 +45,13 @@ export class HealthController {
       if (isConnected) {
         // Test database tables
         try {
-          const tables = await this.dataSource.query('SHOW TABLES');
-          const tableNames = tables.map(t => Object.values(t)[0]);
+          const queryRunner = this.dataSource.createQueryRunner();
+          let tableNames: string[];
+          try {
+            tableNames = (await queryRunner.getTables()).map(table => table.name);
+          } finally {
+            await queryRunner.release();
+          }
           
           res.status(200).json({
             status: 'healthy',
@@ -1,11 +1,22 @@
-import { Controller, Post, Body, BadRequestException, HttpStatus, HttpCode, UseInterceptors, UploadedFile } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { Controller, Get, Post, Patch, Delete, Body, Param, Query, Headers, ParseIntPipe, BadRequestException, NotFoundException, ConflictException, HttpStatus, HttpCode, UseInterceptors, UploadedFile, UploadedFiles } from '@nestjs/common';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { memoryStorage } from 'multer';
 import { MedicalBillExtractionService } from '../services/medical-bill-extraction.service';
 import { FileProcessingService } from '../services/file-processing.service';
-import { MedicalBillDto } from '../dto/medical-bill.dto';
+import { BatchUploadService, batchUploadMulterConfig } from '../services/batch-upload.service';
+import { DUPLICATE_POLICIES, DuplicatePolicy } from '../services/duplicate-detection.service';
+import { MedicalBillService } from '../services/medical-bill.service';
+import { MedicalBillValidationService } from '../services/medical-bill-validation.service';
+import { OcrEngineRegistryService } from '../services/ocr-engine-registry.service';
+import { IMAGE_QUALITY_POLICIES, ImageQualityPolicy } from '../services/image-quality.service';
+import { MedicalBillReviewService, ReviewConflictError } from '../services/medical-bill-review.service';
+import { MedicalBillDto, UpdateMedicalBillDto, ApproveReviewDto, RejectReviewDto } from '../dto/medical-bill.dto';
+import { MedicalBill } from '../entities/medical-bill.entity';
 import { Express } from 'express';
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
 // Configure multer for medical bill uploads
 const medicalBillMulterConfig = {
   storage: memoryStorage(),
@@ -36,15 +47,267 @@ export class MedicalBillController {
   constructor(
     private readonly medicalBillExtractionService: MedicalBillExtractionService,
     private readonly fileProcessingService: FileProcessingService,
+    private readonly batchUploadService: BatchUploadService,
+    private readonly medicalBillService: MedicalBillService,
+    private readonly medicalBillValidationService: MedicalBillValidationService,
+    private readonly ocrEngineRegistryService: OcrEngineRegistryService,
+    private readonly medicalBillReviewService: MedicalBillReviewService,
   ) {}
 
+  @Get()
+  async getAllMedicalBills(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const { pageNumber, pageSize } = this.parsePagination(page, limit);
+    const { medicalBills, total } = await this.medicalBillService.getAllMedicalBills(pageNumber, pageSize);
+
+    return {
+      success: true,
+      message: 'Medical bills retrieved successfully',
+      data: medicalBills.map(medicalBill => this.medicalBillService.convertToDetailedDto(medicalBill)),
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      }
+    };
+  }
+
+  /**
+   * Bills waiting for a human to check them, least confident and oldest first
+   */
+  @Get('review-queue')
+  async getReviewQueue(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const { pageNumber, pageSize } = this.parsePagination(page, limit);
+    const { medicalBills, total } = await this.medicalBillReviewService.getQueue(pageNumber, pageSize);
+
+    return {
+      success: true,
+      message: 'Review queue retrieved successfully',
+      data: medicalBills.map(medicalBill => this.toReviewDto(medicalBill)),
+      pagination: {
+        page: pageNumber,
+        limit: pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      }
+    };
+  }
+
+  @Get(':id')
+  async getMedicalBill(@Param('id', ParseIntPipe) id: number) {
+    const medicalBill = await this.medicalBillService.getMedicalBillById(id);
+    if (!medicalBill) {
+      throw new NotFoundException(`Medical bill with ID ${id} not found`);
+    }
+
+    return {
+      success: true,
+      message: 'Medical bill retrieved successfully',
+      data: {
+        ...this.medicalBillService.convertToDetailedDto(medicalBill),
+        corrections: await this.medicalBillService.getCorrections(id)
+      }
+    };
+  }
+
+  /**
+   * Manual correction; each changed field is logged against the x-user header
+   */
+  @Patch(':id')
+  async updateMedicalBill(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() update: UpdateMedicalBillDto,
+    @Headers('x-user') correctedBy?: string,
+  ) {
+    const result = await this.medicalBillService.updateMedicalBill(id, update, correctedBy);
+    if (!result) {
+      throw new NotFoundException(`Medical bill with ID ${id} not found`);
+    }
+
+    return {
+      success: true,
+      message: result.corrections.length > 0
+        ? `Medical bill updated (${result.corrections.length} field(s) corrected)`
+        : 'No changes to apply',
+      data: {
+        ...this.medicalBillService.convertToDetailedDto(result.medicalBill),
+        corrections: result.corrections
+      }
+    };
+  }
+
+  /**
+   * Every stored version of a bill (extraction runs, manual edits, restores), oldest first
+   */
+  @Get(':id/versions')
+  async getVersions(@Param('id', ParseIntPipe) id: number) {
+    await this.findMedicalBillOrFail(id);
+    const versions = await this.medicalBillService.getVersions(id);
+
+    return {
+      success: true,
+      message: 'Medical bill versions retrieved successfully',
+      data: versions.map(version => this.medicalBillService.convertVersionToDto(version))
+    };
+  }
+
+  /**
+   * Field changes between two versions; `to` defaults to the latest version
+   */
+  @Get(':id/versions/diff')
+  async diffVersions(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('from', ParseIntPipe) from: number,
+    @Query('to') to?: string,
+  ) {
+    await this.findMedicalBillOrFail(id);
+    const versions = await this.medicalBillService.getVersions(id);
+    const toVersion = to === undefined ? versions[versions.length - 1]?.versionNumber : parseInt(to, 10);
+
+    const changes = toVersion ? await this.medicalBillService.diffVersions(id, from, toVersion) : null;
+    if (!changes) {
+      throw new NotFoundException(`Versions ${from} and ${to ?? 'latest'} of medical bill ${id} not found`);
+    }
+
+    return {
+      success: true,
+      message: `${changes.length} field(s) changed from version ${from} to version ${toVersion}`,
+      data: { from, to: toVersion, changes }
+    };
+  }
+
+  @Get(':id/versions/:version')
+  async getVersion(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('version', ParseIntPipe) versionNumber: number,
+  ) {
+    const version = await this.medicalBillService.getVersion(id, versionNumber);
+    if (!version) {
+      throw new NotFoundException(`Version ${versionNumber} of medical bill ${id} not found`);
+    }
+
+    return {
+      success: true,
+      message: 'Medical bill version retrieved successfully',
+      data: this.medicalBillService.convertVersionToDto(version)
+    };
+  }
+
+  /**
+   * Make an earlier version current again; recorded as a new version against the x-user header
+   */
+  @Post(':id/versions/:version/restore')
+  @HttpCode(HttpStatus.OK)
+  async restoreVersion(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('version', ParseIntPipe) versionNumber: number,
+    @Headers('x-user') restoredBy?: string,
+  ) {
+    const result = await this.medicalBillService.restoreVersion(id, versionNumber, restoredBy);
+    if (!result) {
+      throw new NotFoundException(`Version ${versionNumber} of medical bill ${id} not found`);
+    }
+
+    return {
+      success: true,
+      message: `Restored version ${versionNumber} as version ${result.version}`,
+      data: {
+        ...this.medicalBillService.convertToDetailedDto(result.medicalBill),
+        version: result.version,
+        changes: result.changes
+      }
+    };
+  }
+
+  /**
+   * Claim a bill for review (x-user). Other reviewers get 409 until it is released, finished or the lock times out.
+   */
+  @Post(':id/review/claim')
+  @HttpCode(HttpStatus.OK)
+  async claimReview(@Param('id', ParseIntPipe) id: number, @Headers('x-user') reviewer?: string) {
+    const medicalBill = await this.runReviewAction(id, () => this.medicalBillReviewService.claim(id, this.requireReviewer(reviewer)));
+    return {
+      success: true,
+      message: `Medical bill ${id} claimed by ${reviewer}`,
+      data: this.toReviewDto(medicalBill)
+    };
+  }
+
+  @Post(':id/review/release')
+  @HttpCode(HttpStatus.OK)
+  async releaseReview(@Param('id', ParseIntPipe) id: number, @Headers('x-user') reviewer?: string) {
+    const medicalBill = await this.runReviewAction(id, () => this.medicalBillReviewService.release(id, this.requireReviewer(reviewer)));
+    return {
+      success: true,
+      message: `Medical bill ${id} returned to the review queue`,
+      data: this.toReviewDto(medicalBill)
+    };
+  }
+
+  /**
+   * Approve a bill, applying `corrections` first (logged and versioned like PATCH)
+   */
+  @Post(':id/review/approve')
+  @HttpCode(HttpStatus.OK)
+  async approveReview(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() approval: ApproveReviewDto,
+    @Headers('x-user') reviewer?: string,
+  ) {
+    const medicalBill = await this.runReviewAction(id, () => this.medicalBillReviewService.approve(id, this.requireReviewer(reviewer), approval.corrections, approval.notes));
+    return {
+      success: true,
+      message: `Medical bill ${id} approved`,
+      data: this.medicalBillService.convertToDetailedDto(medicalBill)
+    };
+  }
+
+  @Post(':id/review/reject')
+  @HttpCode(HttpStatus.OK)
+  async rejectReview(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() rejection: RejectReviewDto,
+    @Headers('x-user') reviewer?: string,
+  ) {
+    const medicalBill = await this.runReviewAction(id, () => this.medicalBillReviewService.reject(id, this.requireReviewer(reviewer), rejection.notes));
+    return {
+      success: true,
+      message: `Medical bill ${id} rejected`,
+      data: this.medicalBillService.convertToDetailedDto(medicalBill)
+    };
+  }
+
+  @Delete(':id')
+  async deleteMedicalBill(@Param('id', ParseIntPipe) id: number) {
+    const deleted = await this.medicalBillService.deleteMedicalBill(id);
+    if (!deleted) {
+      throw new NotFoundException(`Medical bill with ID ${id} not found`);
+    }
+
+    return {
+      success: true,
+      message: `Medical bill ${id} deleted successfully`
+    };
+  }
+
   @Post('upload')
   @HttpCode(HttpStatus.OK)
   @UseInterceptors(FileInterceptor('file', medicalBillMulterConfig))
-  async uploadMedicalBill(@UploadedFile() file: Express.Multer.File): Promise<MedicalBillDto> {
+  async uploadMedicalBill(
+    @UploadedFile() file: Express.Multer.File,
+    @Query('engine') engine?: string,
+    @Query('ensemble') ensemble?: string,
+  ): Promise<MedicalBillDto> {
     if (!file) {
       throw new BadRequestException('No file uploaded.');
     }
+    this.assertOcrEngine(engine);
 
     try {
       // Process the file to get OCR text
@@ -54,7 +317,7 @@ export class MedicalBillController {
         sessionId: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       };
 
-      const result = await this.fileProcessingService.processFile(file, requestInfo);
+      const result = await this.fileProcessingService.processFile(file, requestInfo, { ocrEngine: engine, ensemble: this.parseFlag(ensemble) });
 
       if (!result.extractedText) {
         throw new BadRequestException('Could not extract text from the uploaded file.');
@@ -80,6 +343,42 @@ export class MedicalBillController {
     }
   }
 
+  @Post('upload/batch')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FilesInterceptor('files', undefined, batchUploadMulterConfig))
+  async uploadMedicalBillBatch(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Query('duplicatePolicy') duplicatePolicy?: DuplicatePolicy,
+    @Query('engine') engine?: string,
+    @Query('ensemble') ensemble?: string,
+    @Query('qualityPolicy') qualityPolicy?: ImageQualityPolicy,
+  ) {
+    if (!files || files.length === 0) {
+      throw new BadRequestException('No files uploaded.');
+    }
+    if (duplicatePolicy && !DUPLICATE_POLICIES.includes(duplicatePolicy)) {
+      throw new BadRequestException(`Invalid duplicatePolicy "${duplicatePolicy}". Expected one of: ${DUPLICATE_POLICIES.join(', ')}`);
+    }
+    if (qualityPolicy && !IMAGE_QUALITY_POLICIES.includes(qualityPolicy)) {
+      throw new BadRequestException(`Invalid qualityPolicy "${qualityPolicy}". Expected one of: ${IMAGE_QUALITY_POLICIES.join(', ')}`);
+    }
+    this.assertOcrEngine(engine);
+
+    const requestInfo = {
+      ip: 'N/A',
+      userAgent: 'N/A',
+      sessionId: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    };
+
+    const report = await this.batchUploadService.processBatch(files, requestInfo, { duplicatePolicy, ocrEngine: engine, ensemble: this.parseFlag(ensemble), qualityPolicy });
+
+    return {
+      success: true,
+      message: `Batch processed: ${report.succeeded} succeeded, ${report.failed} failed`,
+      data: report
+    };
+  }
+
   @Post('extract-from-text')
   @HttpCode(HttpStatus.OK)
   async extractMedicalBillFromText(@Body('text') text: string): Promise<{ success: boolean; data: MedicalBillDto; message: string }> {
@@ -98,7 +397,7 @@ export class MedicalBillController {
       }
 
       // Extract medical bill data
-      const medicalBillData = this.medicalBillExtractionService.extractMedicalBillData(text);
+      const { data: medicalBillData, provenance } = this.medicalBillExtractionService.extractMedicalBillDataWithProvenance(text);
       
       // Validate the extracted data
       const validation = this.medicalBillExtractionService.validateMedicalBill(medicalBillData);
@@ -112,7 +411,9 @@ export class MedicalBillController {
           confidence: confidence,
           processingTime: Date.now(),
           documentType: 'medical_invoice',
-          validation: validation
+          validation: validation,
+          consistency: this.medicalBillValidationService.validate(medicalBillData),
+          provenance: provenance
         }
       };
 
@@ -128,18 +429,89 @@ export class MedicalBillController {
 
   @Post('validate')
   @HttpCode(HttpStatus.OK)
-  async validateMedicalBill(@Body() billData: MedicalBillDto): Promise<{ success: boolean; validation: any; confidence: number }> {
+  async validateMedicalBill(@Body() billData: MedicalBillDto): Promise<{ success: boolean; validation: any; consistency: any; confidence: number }> {
     try {
       const validation = this.medicalBillExtractionService.validateMedicalBill(billData);
+      const consistency = this.medicalBillValidationService.validate(billData);
       const confidence = this.medicalBillExtractionService.calculateConfidence(billData);
       
       return {
         success: true,
         validation: validation,
+        consistency: consistency,
         confidence: confidence
       };
     } catch (error) {
       throw new BadRequestException(`Failed to validate medical bill data: ${error.message}`);
     }
   }
+
+  private async runReviewAction(id: number, action: () => Promise<MedicalBill | null>): Promise<MedicalBill> {
+    let medicalBill: MedicalBill | null;
+    try {
+      medicalBill = await action();
+    } catch (error) {
+      if (error instanceof ReviewConflictError) {
+        throw new ConflictException(error.message);
+      }
+      throw error;
+    }
+    if (!medicalBill) {
+      throw new NotFoundException(`Medical bill with ID ${id} not found`);
+    }
+    return medicalBill;
+  }
+
+  private requireReviewer(reviewer?: string): string {
+    if (!reviewer?.trim()) {
+      throw new BadRequestException('The x-user header is required to review bills');
+    }
+    return reviewer.trim();
+  }
+
+  private toReviewDto(medicalBill: MedicalBill): any {
+    return {
+      id: medicalBill.id,
+      parsedFileId: medicalBill.parsedFileId,
+      fileName: medicalBill.fileName,
+      invoiceNo: medicalBill.invoiceNo,
+      shopName: medicalBill.shopName,
+      grandTotal: medicalBill.grandTotal !== null ? Number(medicalBill.grandTotal) : null,
+      extractionConfidence: medicalBill.extractionConfidence !== null ? Number(medicalBill.extractionConfidence) : null,
+      reviewState: medicalBill.reviewState,
+      lockedBy: medicalBill.reviewLockedBy || null,
+      lockExpiresAt: this.medicalBillReviewService.lockExpiresAt(medicalBill),
+      createdAt: medicalBill.createdAt,
+    };
+  }
+
+  private async findMedicalBillOrFail(id: number) {
+    const medicalBill = await this.medicalBillService.getMedicalBillById(id);
+    if (!medicalBill) {
+      throw new NotFoundException(`Medical bill with ID ${id} not found`);
+    }
+    return medicalBill;
+  }
+
+  private assertOcrEngine(engine?: string): void {
+    if (engine && !this.ocrEngineRegistryService.has(engine)) {
+      throw new BadRequestException(`Invalid engine "${engine}". Expected one of: ${this.ocrEngineRegistryService.getEngineNames().join(', ')}`);
+    }
+  }
+
+  private parseFlag(value?: string): boolean | undefined {
+    return value === undefined ? undefined : value === 'true' || value === '1';
+  }
+
+  private parsePagination(page?: string, limit?: string): { pageNumber: number; pageSize: number } {
+    const pageNumber = page === undefined ? 1 : parseInt(page, 10);
+    const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(limit, 10);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      throw new BadRequestException(`Invalid page "${page}". Expected a positive integer`);
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new BadRequestException(`Invalid limit "${limit}". Expected 1 to ${MAX_PAGE_SIZE}`);
+    }
+    return { pageNumber, pageSize };
+  }
 }
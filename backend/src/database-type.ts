@@ -0,0 +1,25 @@
+import { existsSync, readFileSync } from 'fs';
+import * as dotenv from 'dotenv';
+
+export type DatabaseType = 'mysql' | 'postgres' | 'sqlite';
+
+export const DATABASE_TYPES: DatabaseType[] = ['mysql', 'postgres', 'sqlite'];
+
+/**
+ * DB_TYPE from the environment, else from .env. Entities pick their column types with it
+ * as soon as they are imported - before ConfigModule has loaded .env - so .env is read here.
+ */
+function resolveDatabaseType(): DatabaseType {
+  let value = process.env.DB_TYPE;
+  if (!value && existsSync('.env')) {
+    value = dotenv.parse(readFileSync('.env')).DB_TYPE; // Same parser as ConfigModule
+  }
+
+  const type = (value || 'mysql').trim().toLowerCase() as DatabaseType;
+  if (!DATABASE_TYPES.includes(type)) {
+    throw new Error(`Invalid DB_TYPE "${value}". Expected one of: ${DATABASE_TYPES.join(', ')}`);
+  }
+  return type;
+}
+
+export const DATABASE_TYPE = resolveDatabaseType();
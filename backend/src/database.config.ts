@@ -0,0 +1,154 @@
+import { DataSourceOptions } from 'typeorm';
+import { DATABASE_TYPE } from './database-type';
+import { ParsedFile } from './entities/parsed-file.entity';
+import { OcrResult } from './entities/ocr-result.entity';
+import { FileMetadata } from './entities/file-metadata.entity';
+import { TableExtraction } from './entities/table-extraction.entity';
+import { BillData } from './entities/bill-data.entity';
+import { MedicalBill } from './entities/medical-bill.entity';
+import { ProcessingJob } from './entities/processing-job.entity';
+import { MedicalBillCorrection } from './entities/medical-bill-correction.entity';
+import { MedicalBillVersion } from './entities/medical-bill-version.entity';
+import { BillStatusChange } from './entities/bill-status-change.entity';
+import { Document } from './entities/document.entity';
+import { MIGRATIONS } from './migrations';
+
+export const ENTITIES = [ParsedFile, OcrResult, FileMetadata, TableExtraction, BillData, MedicalBill, ProcessingJob, MedicalBillCorrection, MedicalBillVersion, BillStatusChange, Document];
+
+// Options that don't depend on the database type
+const COMMON_OPTIONS = {
+  entities: ENTITIES,
+  migrations: MIGRATIONS,
+  migrationsTableName: 'migrations',
+  synchronize: false, // Schema changes go through migrations (src/migrations)
+  logging: false, // Disable logging to reduce noise
+};
+
+/**
+ * Connection options shared by the app (AppModule) and the migration CLI (src/migrate.ts).
+ * DB_TYPE selects the database: mysql (default), postgres or sqlite.
+ */
+export function buildDataSourceOptions(): DataSourceOptions {
+  if (DATABASE_TYPE === 'sqlite') {
+    return {
+      ...COMMON_OPTIONS,
+      type: 'better-sqlite3',
+      database: process.env.DB_SQLITE_PATH || 'ai_crm_demo.sqlite', // ':memory:' for a throwaway database
+    };
+  }
+  if (DATABASE_TYPE === 'postgres') {
+    return buildPostgresOptions();
+  }
+  return buildMysqlOptions();
+}
+
+function buildPostgresOptions(): DataSourceOptions {
+  const config = {
+    ...COMMON_OPTIONS,
+    type: 'postgres' as const,
+    connectTimeoutMS: 30000,
+    maxQueryExecutionTime: 30000,
+  };
+
+  // Priority 1: Use DATABASE_URL if provided (Railway style)
+  if (process.env.DATABASE_URL) {
+    return {
+      ...config,
+      url: process.env.DATABASE_URL,
+    };
+  }
+
+  // Priority 2: Use Railway Postgres environment variables
+  if (process.env.PGHOST && process.env.PGUSER && process.env.PGDATABASE) {
+    return {
+      ...config,
+      host: process.env.PGHOST,
+      port: parseInt(process.env.PGPORT) || 5432,
+      username: process.env.PGUSER,
+      password: process.env.PGPASSWORD || '',
+      database: process.env.PGDATABASE,
+    };
+  }
+
+  // Fallback to individual environment variables (local development)
+  return {
+    ...config,
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT) || 5432,
+    username: process.env.DB_USERNAME || 'postgres',
+    password: process.env.DB_PASSWORD || '',
+    database: process.env.DB_NAME || 'ai_crm_demo',
+  };
+}
+
+function buildMysqlOptions(): DataSourceOptions {
+  // Base configuration with only valid MySQL2 options
+  const config = {
+    ...COMMON_OPTIONS,
+    type: 'mysql' as const,
+    charset: 'utf8mb4',
+    timezone: '+00:00',
+    // Only use valid MySQL2 connection options
+    connectTimeout: 30000,
+    timeout: 30000,
+    maxQueryExecutionTime: 30000,
+  };
+
+  // Priority 1: Use DATABASE_URL if provided (Railway style)
+  if (process.env.DATABASE_URL) {
+    return {
+      ...config,
+      url: process.env.DATABASE_URL,
+    };
+  }
+  
+  // Priority 2: Use MYSQL_URL if provided (Railway MySQL)
+  if (process.env.MYSQL_URL) {
+    return {
+      ...config,
+      url: process.env.MYSQL_URL,
+    };
+  }
+  
+  // Priority 3: Use Railway MySQL environment variables
+  if (process.env.MYSQLHOST && process.env.MYSQLUSER && process.env.MYSQLDATABASE) {
+    return {
+      ...config,
+      host: process.env.MYSQLHOST,
+      port: parseInt(process.env.MYSQLPORT) || 3306,
+      username: process.env.MYSQLUSER,
+      password: process.env.MYSQLPASSWORD || process.env.MYSQL_ROOT_PASSWORD || '',
+      database: process.env.MYSQLDATABASE,
+    };
+  }
+  
+  // Priority 4: Use MYSQL_PUBLIC_URL if provided
+  if (process.env.MYSQL_PUBLIC_URL) {
+    return {
+      ...config,
+      url: process.env.MYSQL_PUBLIC_URL,
+    };
+  }
+  
+  // Priority 5: Use Railway TCP Proxy (for external connections)
+  if (process.env.RAILWAY_TCP_PROXY_DOMAIN && process.env.RAILWAY_TCP_PROXY_PORT) {
+    return {
+      ...config,
+      host: process.env.RAILWAY_TCP_PROXY_DOMAIN,
+      port: parseInt(process.env.RAILWAY_TCP_PROXY_PORT),
+      username: process.env.MYSQLUSER || 'root',
+      password: process.env.MYSQLPASSWORD || process.env.MYSQL_ROOT_PASSWORD || '',
+      database: process.env.MYSQLDATABASE || 'railway',
+    };
+  }
+  
+  // Fallback to individual environment variables (local development)
+  return {
+    ...config,
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT) || 3306,
+    username: process.env.DB_USERNAME || 'root',
+    password: process.env.DB_PASSWORD || '',
+    database: process.env.DB_NAME || 'ai_crm_demo',
+  };
+}
@@ -1,4 +1,4 @@
-import { IsString, IsNumber, IsArray, IsOptional, ValidateNested, IsDateString } from 'class-validator';
+import { IsString, IsNumber, IsArray, IsOptional, ValidateNested, IsDateString, IsNotEmpty } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class MedicalBillItemDto {
@@ -126,6 +126,123 @@ export class MedicalBillDto {
   termsAndConditions?: string[];
 }
 
+/**
+ * Partial update of a saved bill. `items`, when given, replaces the whole item list.
+ */
+export class UpdateMedicalBillDto {
+  @IsOptional()
+  @IsString()
+  invoiceNo?: string;
+
+  @IsOptional()
+  @IsString()
+  date?: string;
+
+  @IsOptional()
+  @IsString()
+  shopName?: string;
+
+  @IsOptional()
+  @IsString()
+  shopAddress?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  phone?: string[];
+
+  @IsOptional()
+  @IsString()
+  patientName?: string;
+
+  @IsOptional()
+  @IsString()
+  patientPhone?: string;
+
+  @IsOptional()
+  @IsString()
+  prescribedBy?: string;
+
+  @IsOptional()
+  @IsString()
+  doctorName?: string;
+
+  @IsOptional()
+  @IsString()
+  doctorSpecialization?: string;
+
+  @IsOptional()
+  @IsString()
+  doctorPhone?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => MedicalBillItemDto)
+  items?: MedicalBillItemDto[];
+
+  @IsOptional()
+  @IsNumber()
+  totalQty?: number;
+
+  @IsOptional()
+  @IsNumber()
+  subTotal?: number;
+
+  @IsOptional()
+  @IsNumber()
+  lessDiscount?: number;
+
+  @IsOptional()
+  @IsNumber()
+  otherAdj?: number;
+
+  @IsOptional()
+  @IsNumber()
+  roundOff?: number;
+
+  @IsOptional()
+  @IsNumber()
+  grandTotal?: number;
+
+  @IsOptional()
+  @IsString()
+  amountInWords?: string;
+
+  @IsOptional()
+  @IsString()
+  message?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  termsAndConditions?: string[];
+
+  @IsOptional()
+  @IsString()
+  correctionReason?: string; // Stored with every correction made by this update
+}
+
+/**
+ * Approve a bill from the review queue, optionally correcting it first
+ */
+export class ApproveReviewDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateMedicalBillDto)
+  corrections?: UpdateMedicalBillDto;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class RejectReviewDto {
+  @IsString()
+  @IsNotEmpty()
+  notes: string; // Why the extraction was rejected
+}
+
 export class MedicalBillResponseDto {
   success: boolean;
   message: string;
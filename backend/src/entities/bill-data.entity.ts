@@ -1,5 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, ManyToOne, JoinColumn } from 'typeorm';
 import { ParsedFile } from './parsed-file.entity';
+import { TIMESTAMP } from './column-types';
 
 export enum BillType {
   PAYSLIP = 'payslip',
@@ -36,14 +37,14 @@ export class BillData {
 
   // Bill Classification
   @Column({
-    type: 'enum',
+    type: 'simple-enum',
     enum: BillType,
     default: BillType.OTHER
   })
   billType: BillType;
 
   @Column({
-    type: 'enum',
+    type: 'simple-enum',
     enum: BillStatus,
     default: BillStatus.PENDING
   })
@@ -149,7 +150,7 @@ export class BillData {
   @UpdateDateColumn()
   updatedAt: Date;
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   processedAt: Date;
 
   // Helper Methods
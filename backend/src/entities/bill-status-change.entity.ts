@@ -0,0 +1,35 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BillData, BillStatus } from './bill-data.entity';
+
+/**
+ * One status change of a bill. The first entry (fromStatus null) is the status the bill
+ * was created with.
+ */
+@Entity('bill_status_changes')
+@Index(['billDataId', 'createdAt'])
+export class BillStatusChange {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'bill_data_id' })
+  billDataId: number;
+
+  @ManyToOne(() => BillData, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bill_data_id' })
+  billData: BillData;
+
+  @Column({ name: 'from_status', type: 'simple-enum', enum: BillStatus, nullable: true })
+  fromStatus: BillStatus;
+
+  @Column({ name: 'to_status', type: 'simple-enum', enum: BillStatus })
+  toStatus: BillStatus;
+
+  @Column({ name: 'actor', length: 100, nullable: true })
+  actor: string; // From the x-user request header; 'system' for automatic changes
+
+  @Column({ name: 'notes', type: 'text', nullable: true })
+  notes: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,17 @@
+import { ColumnType } from 'typeorm';
+import { DATABASE_TYPE } from '../database-type';
+
+/**
+ * Column types that differ between MySQL, Postgres and SQLite. MySQL keeps the types its
+ * schema was created with; the other databases get the closest type they support.
+ * Enums use 'simple-enum', which TypeORM maps on every database.
+ */
+
+// Unbounded text: LONGTEXT on MySQL, TEXT elsewhere
+export const LONG_TEXT: ColumnType = DATABASE_TYPE === 'mysql' ? 'longtext' : 'text';
+
+// Date and time without time zone: Postgres has no DATETIME
+export const DATE_TIME: ColumnType = DATABASE_TYPE === 'postgres' ? 'timestamp' : 'datetime';
+
+// Timestamp: SQLite has no TIMESTAMP
+export const TIMESTAMP: ColumnType = DATABASE_TYPE === 'sqlite' ? 'datetime' : 'timestamp';
@@ -0,0 +1,110 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { ParsedFile } from './parsed-file.entity';
+
+export enum DocumentType {
+  MEDICAL_BILL = 'medical_bill',
+  PAYSLIP = 'payslip',
+  INVOICE = 'invoice',
+  RECEIPT = 'receipt',
+  BILL = 'bill',
+  EXPENSE = 'expense',
+  OTHER = 'other'
+}
+
+// Table holding the type-specific record a document was built from
+export enum DocumentSource {
+  BILL_DATA = 'bill_data',
+  MEDICAL_BILL = 'medical_bill'
+}
+
+export interface DocumentLineItem {
+  description: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  amount: number | null;
+  details?: Record<string, any>; // Type-specific item fields, e.g. batchNo/exp for medical bills
+}
+
+/**
+ * Common model for every extracted document: header, totals and line items under the
+ * same names whatever the document type, with type-specific fields in `extensions`.
+ * The full record (corrections, versions, review state, ...) stays in the source table.
+ */
+@Entity('documents')
+@Index(['sourceTable', 'sourceId'], { unique: true })
+@Index(['documentType', 'status'])
+@Index(['documentDate'])
+@Index(['createdAt'])
+export class Document {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'document_type', type: 'simple-enum', enum: DocumentType })
+  documentType: DocumentType;
+
+  @Column({ name: 'source_table', type: 'simple-enum', enum: DocumentSource })
+  sourceTable: DocumentSource;
+
+  @Column({ name: 'source_id' })
+  sourceId: number;
+
+  @Column({ name: 'parsed_file_id' })
+  parsedFileId: number;
+
+  @ManyToOne(() => ParsedFile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parsed_file_id' })
+  parsedFile: ParsedFile;
+
+  @Column({ name: 'status', length: 30, nullable: true })
+  status: string; // BillStatus for bill_data documents, review state for medical bills
+
+  // Header
+  @Column({ name: 'document_number', length: 200, nullable: true })
+  documentNumber: string; // Invoice number, receipt number, ...
+
+  @Column({ name: 'document_date', type: 'date', nullable: true })
+  documentDate: string; // YYYY-MM-DD; null when the printed date could not be read
+
+  @Column({ name: 'issuer_name', length: 255, nullable: true })
+  issuerName: string; // Vendor, shop or employer
+
+  @Column({ name: 'issuer_address', type: 'text', nullable: true })
+  issuerAddress: string;
+
+  @Column({ name: 'issuer_phone', length: 100, nullable: true })
+  issuerPhone: string;
+
+  @Column({ name: 'recipient_name', length: 255, nullable: true })
+  recipientName: string; // Customer, patient or employee
+
+  // Totals
+  @Column({ name: 'subtotal', type: 'decimal', precision: 15, scale: 2, nullable: true })
+  subtotal: number;
+
+  @Column({ name: 'tax_amount', type: 'decimal', precision: 15, scale: 2, nullable: true })
+  taxAmount: number;
+
+  @Column({ name: 'discount_amount', type: 'decimal', precision: 15, scale: 2, nullable: true })
+  discountAmount: number;
+
+  @Column({ name: 'total_amount', type: 'decimal', precision: 15, scale: 2, nullable: true })
+  totalAmount: number;
+
+  @Column({ name: 'currency', length: 10, nullable: true })
+  currency: string;
+
+  @Column({ name: 'line_items', type: 'json', nullable: true })
+  lineItems: DocumentLineItem[];
+
+  @Column({ name: 'extensions', type: 'json', nullable: true })
+  extensions: Record<string, any>; // Type-specific fields, e.g. salary components or doctor details
+
+  @Column({ name: 'confidence', type: 'decimal', precision: 5, scale: 2, nullable: true })
+  confidence: number; // Extraction confidence, 0-100
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
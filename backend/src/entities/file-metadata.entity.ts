@@ -1,5 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, OneToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
 import { ParsedFile } from './parsed-file.entity';
+import { TIMESTAMP } from './column-types';
 
 @Entity('file_metadata')
 export class FileMetadata {
@@ -42,7 +43,7 @@ export class FileMetadata {
   @Column({ type: 'varchar', length: 100, nullable: true })
   cameraModel: string; // From EXIF
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   imageDateTaken: Date; // From EXIF
 
   @Column({ type: 'json', nullable: true })
@@ -70,10 +71,10 @@ export class FileMetadata {
   @Column({ type: 'text', nullable: true })
   pdfProducer: string; // Software that produced the PDF
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   pdfCreationDate: Date;
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   pdfModificationDate: Date;
 
   @Column({ type: 'boolean', default: false })
@@ -113,10 +114,10 @@ export class FileMetadata {
   @Column({ type: 'text', nullable: true })
   excelApplication: string; // Excel version
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   excelCreationDate: Date;
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   excelModificationDate: Date;
 
   @Column({ type: 'int', nullable: true })
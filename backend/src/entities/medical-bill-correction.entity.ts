@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { MedicalBill } from './medical-bill.entity';
+
+/**
+ * One manual change to a saved medical bill. Field paths use dot/bracket
+ * notation, e.g. "grandTotal" or "items[2].qty".
+ */
+@Entity('medical_bill_corrections')
+@Index(['medicalBillId', 'createdAt'])
+export class MedicalBillCorrection {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'medical_bill_id' })
+  medicalBillId: number;
+
+  @ManyToOne(() => MedicalBill, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'medical_bill_id' })
+  medicalBill: MedicalBill;
+
+  @Column({ name: 'field_path', length: 100 })
+  fieldPath: string;
+
+  @Column({ name: 'previous_value', type: 'json', nullable: true })
+  previousValue: any; // Value before the correction (OCR-extracted or an earlier correction)
+
+  @Column({ name: 'new_value', type: 'json', nullable: true })
+  newValue: any;
+
+  @Column({ name: 'corrected_by', length: 100, nullable: true })
+  correctedBy: string; // From the x-user request header
+
+  @Column({ name: 'reason', type: 'text', nullable: true })
+  reason: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
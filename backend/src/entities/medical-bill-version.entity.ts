@@ -0,0 +1,60 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { MedicalBill } from './medical-bill.entity';
+
+/**
+ * Immutable snapshot of a medical bill, written by every extraction run, manual edit and
+ * restore. Version 1 is the first extraction (or, for bills saved before versioning,
+ * the bill as it was when it first changed).
+ */
+@Entity('medical_bill_versions')
+@Index(['medicalBillId', 'versionNumber'], { unique: true })
+export class MedicalBillVersion {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'medical_bill_id' })
+  medicalBillId: number;
+
+  @ManyToOne(() => MedicalBill, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'medical_bill_id' })
+  medicalBill: MedicalBill;
+
+  @Column({ name: 'version_number', type: 'int' })
+  versionNumber: number;
+
+  @Column({ name: 'data', type: 'json' })
+  data: any; // Bill content (header fields, items, totals) as in MedicalBillDto
+
+  @Column({ name: 'extraction_confidence', type: 'decimal', precision: 5, scale: 2, nullable: true })
+  extractionConfidence: number;
+
+  @Column({ name: 'extraction_method', length: 100, nullable: true })
+  extractionMethod: string;
+
+  @Column({ name: 'extractor_version', length: 50, nullable: true })
+  extractorVersion: string; // MEDICAL_BILL_EXTRACTOR_VERSION of the run that produced the data
+
+  @Column({ name: 'ocr_engine', length: 100, nullable: true })
+  ocrEngine: string; // Engine(s) of the OCR results the data was extracted from
+
+  @Column({ name: 'field_provenance', type: 'json', nullable: true })
+  fieldProvenance: any;
+
+  @Column({ name: 'ocr_corrections', type: 'json', nullable: true })
+  ocrCorrections: any;
+
+  @Column({ name: 'corrected_fields', type: 'json', nullable: true })
+  correctedFields: string[]; // Manual corrections the snapshot includes
+
+  @Column({ name: 'source', length: 30 })
+  source: string; // 'extraction', 'reprocess', 'manual-edit' or 'restore'
+
+  @Column({ name: 'restored_from_version', type: 'int', nullable: true })
+  restoredFromVersion: number;
+
+  @Column({ name: 'created_by', length: 100, nullable: true })
+  createdBy: string; // From the x-user request header
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -1,7 +1,16 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
 import { ParsedFile } from './parsed-file.entity';
+import { DATE_TIME } from './column-types';
+
+export enum ReviewState {
+  NEEDS_REVIEW = 'needs_review',
+  IN_REVIEW = 'in_review',
+  APPROVED = 'approved',
+  REJECTED = 'rejected'
+}
 
 @Entity('medical_bills')
+@Index(['reviewState', 'extractionConfidence'])
 export class MedicalBill {
   @PrimaryGeneratedColumn()
   id: number;
@@ -22,7 +31,7 @@ export class MedicalBill {
   @Column({ name: 'processed_status', length: 50, default: 'completed' })
   processedStatus: string;
 
-  @Column({ name: 'processed_date', type: 'datetime', nullable: true })
+  @Column({ name: 'processed_date', type: DATE_TIME, nullable: true })
   processedDate: Date;
 
   @Column({ name: 'invoice_no', length: 100 })
@@ -94,6 +103,58 @@ export class MedicalBill {
   @Column({ name: 'extraction_method', length: 100, nullable: true })
   extractionMethod: string;
 
+  @Column({ name: 'extractor_version', length: 50, nullable: true })
+  extractorVersion: string; // MEDICAL_BILL_EXTRACTOR_VERSION of the last extraction run
+
+  @Column({ name: 'ocr_engine', length: 100, nullable: true })
+  ocrEngine: string; // Engine(s) of the OCR results the bill was extracted from
+
+  @Index()
+  @Column({ name: 'content_fingerprint', length: 64, nullable: true })
+  contentFingerprint: string; // SHA-256 of normalized shop name, invoice no, date and grand total
+
+  @Column({ name: 'duplicate_of_id', nullable: true })
+  duplicateOfId: number; // Original bill when this upload was linked as a duplicate
+
+  @Column({ name: 'duplicate_match_type', length: 20, nullable: true })
+  duplicateMatchType: string; // 'exact' (same file bytes) or 'semantic' (same bill content)
+
+  @Column({ name: 'field_provenance', type: 'json', nullable: true })
+  fieldProvenance: any; // MedicalBillProvenance: source line, heuristic and OCR confidence per field and item
+
+  @Column({ name: 'validation_report', type: 'json', nullable: true })
+  validationReport: any; // BillValidationReport: arithmetic errors and warnings
+
+  @Column({ name: 'ocr_corrections', type: 'json', nullable: true })
+  ocrCorrections: any; // OcrCorrection[]: digit misreads fixed ('applied') or proposed ('suggested') from the bill arithmetic
+
+  @Column({ name: 'corrected_fields', type: 'json', nullable: true })
+  correctedFields: string[]; // Field paths changed by hand; everything else is as extracted
+
+  // Human review of low-confidence extractions
+  @Column({
+    name: 'review_state',
+    type: 'simple-enum',
+    enum: ReviewState,
+    nullable: true
+  })
+  reviewState: ReviewState; // null when the extraction was confident enough to skip review
+
+  @Column({ name: 'review_locked_by', length: 100, nullable: true })
+  reviewLockedBy: string; // Reviewer who claimed the bill
+
+  @Column({ name: 'review_locked_at', type: DATE_TIME, nullable: true })
+  reviewLockedAt: Date; // Claims expire after REVIEW_LOCK_TIMEOUT_MINUTES
+
+  @Column({ name: 'reviewed_by', length: 100, nullable: true })
+  reviewedBy: string;
+
+  @Column({ name: 'reviewed_at', type: DATE_TIME, nullable: true })
+  reviewedAt: Date;
+
+  @Column({ name: 'review_notes', type: 'text', nullable: true })
+  reviewNotes: string;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
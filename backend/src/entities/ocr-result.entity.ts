@@ -1,5 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
 import { ParsedFile } from './parsed-file.entity';
+import { LONG_TEXT } from './column-types';
 
 @Entity('ocr_results')
 @Index(['parsedFileId'])
@@ -32,8 +33,12 @@ export class OcrResult {
   @Column({ type: 'int', nullable: true })
   regionId: number; // For multi-region processing
 
+  // Several runs can exist per page (ensemble OCR); the one used for extraction is selected
+  @Column({ type: 'boolean', default: false })
+  isSelected: boolean;
+
   // Raw OCR Results
-  @Column({ type: 'longtext' })
+  @Column({ type: LONG_TEXT })
   rawText: string; // Complete extracted text
 
   @Column({ type: 'json', nullable: true })
@@ -111,7 +116,7 @@ export class OcrResult {
   imageQuality: string; // 'high', 'medium', 'low', 'poor'
 
   @Column({ type: 'varchar', length: 50, nullable: true })
-  textOrientation: string; // 'normal', 'rotated', 'skewed'
+  textOrientation: string; // 'normal', 'skewed', 'rotated-90', 'rotated-180', 'rotated-270'
 
   @Column({ type: 'boolean', default: false })
   hasNoise: boolean;
@@ -120,7 +125,10 @@ export class OcrResult {
   hasBlur: boolean;
 
   @Column({ type: 'float', nullable: true })
-  skewAngle: number; // Detected skew angle in degrees
+  skewAngle: number; // Detected skew angle in degrees (counter-clockwise positive)
+
+  @Column({ type: 'json', nullable: true })
+  qualityMetrics: any; // Blur, exposure, noise and text size measured before OCR
 
   // Error Information
   @Column({ type: 'text', nullable: true })
@@ -1,4 +1,5 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { LONG_TEXT, TIMESTAMP } from './column-types';
 
 export enum FileType {
   IMAGE = 'image',
@@ -28,7 +29,7 @@ export class ParsedFile {
   originalName: string; // Original uploaded filename
 
   @Column({
-    type: 'enum',
+    type: 'simple-enum',
     enum: FileType
   })
   fileType: FileType;
@@ -44,42 +45,42 @@ export class ParsedFile {
 
   // File Path and Storage
   @Column({ length: 300 })
-  filePath: string; // Relative path to stored file
+  filePath: string; // Storage URI of the stored file (local://..., s3://...; older rows hold uploads/... paths)
 
-  @Column({ length: 200, nullable: true })
-  thumbnailPath: string; // Path to thumbnail (for images)
+  @Column({ length: 300, nullable: true })
+  thumbnailPath: string; // Storage URI of the thumbnail (images and PDFs)
 
   // Processing Information
   @Column({
-    type: 'enum',
+    type: 'simple-enum',
     enum: ProcessingStatus,
     default: ProcessingStatus.PENDING
   })
   processingStatus: ProcessingStatus;
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   processingStartedAt: Date;
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   processingCompletedAt: Date;
 
   @Column({ type: 'int', nullable: true })
   processingDurationMs: number;
 
   // OCR and Content Data
-  @Column({ type: 'longtext', nullable: true })
+  @Column({ type: LONG_TEXT, nullable: true })
   extractedText: string; // Raw extracted text
 
-  @Column({ type: 'longtext', nullable: true })
+  @Column({ type: LONG_TEXT, nullable: true })
   ocrData: string; // Complete OCR JSON data with confidence scores, bounding boxes, etc.
 
   @Column({ type: 'json', nullable: true })
   ocrMetadata: any; // OCR processing metadata (language, confidence, etc.)
 
-  @Column({ type: 'longtext', nullable: true })
+  @Column({ type: LONG_TEXT, nullable: true })
   parsedContent: string; // Structured parsed content JSON
 
-  @Column({ type: 'longtext', nullable: true })
+  @Column({ type: LONG_TEXT, nullable: true })
   structuredTableData: string; // Structured table data for easy table display
 
   @Column({ type: 'json', nullable: true })
@@ -144,7 +145,7 @@ export class ParsedFile {
   @UpdateDateColumn()
   updatedAt: Date;
 
-  @Column({ type: 'timestamp', nullable: true })
+  @Column({ type: TIMESTAMP, nullable: true })
   lastAccessedAt: Date;
 
   // Computed Properties
@@ -0,0 +1,100 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { ProcessingStatus } from './parsed-file.entity';
+import { TIMESTAMP } from './column-types';
+
+export enum ProcessingStage {
+  PREPROCESSING = 'preprocessing',
+  OCR = 'ocr',
+  EXTRACTION = 'extraction',
+  PERSISTENCE = 'persistence'
+}
+
+@Entity('processing_jobs')
+@Index(['status', 'createdAt'])
+export class ProcessingJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Job State
+  @Column({
+    type: 'simple-enum',
+    enum: ProcessingStatus,
+    default: ProcessingStatus.PENDING
+  })
+  status: ProcessingStatus;
+
+  @Column({
+    type: 'simple-enum',
+    enum: ProcessingStage,
+    nullable: true
+  })
+  stage: ProcessingStage; // Current (or last reached) pipeline stage
+
+  @Column({ type: 'int', default: 0 })
+  progress: number; // Percentage (0-100)
+
+  // Uploaded File (kept on disk until the worker picks the job up)
+  @Column({ length: 200 })
+  originalName: string;
+
+  @Column({ length: 100 })
+  mimeType: string;
+
+  @Column({ type: 'bigint' })
+  fileSize: number;
+
+  @Column({ length: 64, nullable: true })
+  fileHash: string;
+
+  @Column({ length: 300 })
+  filePath: string; // Storage URI of the stored upload
+
+  @Column({ type: 'json', nullable: true })
+  requestInfo: any; // User agent, IP and session of the original request
+
+  @Column({ type: 'json', nullable: true })
+  options: any; // Pipeline options chosen at upload time (duplicatePolicy, ocrEngine, ensemble)
+
+  // Results
+  @Column({ type: 'int', nullable: true })
+  parsedFileId: number;
+
+  @Column({ type: 'int', nullable: true })
+  medicalBillId: number;
+
+  @Column({ type: 'json', nullable: true })
+  result: any; // Same payload the synchronous upload returns
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string;
+
+  // Worker Bookkeeping
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'int', default: 3 })
+  maxAttempts: number;
+
+  @Column({ length: 100, nullable: true })
+  lockedBy: string; // Worker that claimed the job
+
+  @Column({ type: TIMESTAMP, nullable: true })
+  lockedAt: Date; // Refreshed on every stage change
+
+  @Column({ type: TIMESTAMP, nullable: true })
+  startedAt: Date;
+
+  @Column({ type: TIMESTAMP, nullable: true })
+  completedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Helper Methods
+  isFinished(): boolean {
+    return this.status === ProcessingStatus.COMPLETED || this.status === ProcessingStatus.FAILED;
+  }
+}
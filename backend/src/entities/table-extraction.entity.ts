@@ -1,5 +1,6 @@
 import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
 import { ParsedFile } from './parsed-file.entity';
+import { LONG_TEXT } from './column-types';
 
 @Entity('table_extractions')
 @Index(['parsedFileId'])
@@ -35,7 +36,7 @@ export class TableExtraction {
   @Column({ type: 'json' })
   headers: any; // Array of column headers
 
-  @Column({ type: 'longtext' })
+  @Column({ type: LONG_TEXT })
   tableData: string; // JSON string of table data
 
   @Column({ type: 'json', nullable: true })
@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import { ConfigModule } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { buildDataSourceOptions } from './database.config';
+import { DestructiveMigrationError, MigrationPlan, MigrationRunner } from './migrations/migration-runner';
+
+const USAGE = `Usage: migrate <command> [options]
+
+Commands:
+  show      List migrations and whether they have been run
+  run       Run pending migrations
+  revert    Undo the most recently run migration
+
+Options:
+  --dry-run             Print the SQL instead of running it
+  --allow-destructive   Run migrations that drop tables/columns or delete rows`;
+
+function printPlan(plan: MigrationPlan): void {
+  console.log(`-- ${plan.name} (${plan.direction})${plan.destructive ? ' [DESTRUCTIVE]' : ''}`);
+  if (plan.sql.length === 0) {
+    console.log('-- nothing to do');
+  }
+  for (const statement of plan.sql) {
+    console.log(`${statement};`);
+  }
+  console.log('');
+}
+
+async function main(): Promise<number> {
+  const [command, ...flags] = process.argv.slice(2);
+  const unknownFlag = flags.find(flag => !['--dry-run', '--allow-destructive'].includes(flag));
+  if (!['show', 'run', 'revert'].includes(command) || unknownFlag) {
+    console.error(USAGE);
+    return 1;
+  }
+  const options = { dryRun: flags.includes('--dry-run'), allowDestructive: flags.includes('--allow-destructive') };
+
+  // Loads .env the same way the app does
+  await ConfigModule.forRoot();
+  const dataSource = await new DataSource(buildDataSourceOptions()).initialize();
+  const runner = new MigrationRunner(dataSource);
+
+  try {
+    if (command === 'show') {
+      for (const migration of await runner.getStatus()) {
+        console.log(`[${migration.executed ? 'X' : ' '}] ${migration.name}${migration.destructive ? ' [DESTRUCTIVE]' : ''}`);
+      }
+      return 0;
+    }
+
+    if (command === 'run') {
+      const plans = await runner.run(options);
+      if (plans.length === 0) {
+        console.log('No pending migrations');
+      }
+      plans.forEach(printPlan);
+      if (!options.dryRun && plans.length > 0) {
+        console.log(`Ran ${plans.length} migration(s)`);
+      }
+      return 0;
+    }
+
+    const plan = await runner.revert(options);
+    if (!plan) {
+      console.log('No migrations to revert');
+      return 0;
+    }
+    printPlan(plan);
+    if (!options.dryRun) {
+      console.log(`Reverted ${plan.name}`);
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof DestructiveMigrationError) {
+      console.error(`${error.message}. Review the SQL with --dry-run, then rerun with --allow-destructive.`);
+      return 1;
+    }
+    throw error;
+  } finally {
+    await dataSource.destroy();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,543 @@
+import { MigrationInterface, QueryRunner, Table, TableColumnOptions } from 'typeorm';
+
+/**
+ * Schema of every entity as of the switch to migrations. Databases created earlier by
+ * synchronize/DatabaseSetupService are adopted: missing tables are created and missing
+ * columns and indices added, nothing existing is changed.
+ *
+ * Frozen - later entity changes go into new migrations, never into this file.
+ * TABLES is written in MySQL types; forDatabase() translates it for Postgres and SQLite.
+ */
+const TABLES: Table[] = [
+  new Table({
+    name: 'parsed_files',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'filename', type: 'varchar', length: '200', isNullable: false },
+      { name: 'originalName', type: 'varchar', length: '200', isNullable: false },
+      { name: 'fileType', type: 'enum', enum: ['image', 'pdf', 'excel'], isNullable: false },
+      { name: 'mimeType', type: 'varchar', length: '100', isNullable: false },
+      { name: 'fileSize', type: 'bigint', isNullable: false },
+      { name: 'fileHash', type: 'varchar', length: '64', isNullable: true },
+      { name: 'filePath', type: 'varchar', length: '300', isNullable: false },
+      { name: 'thumbnailPath', type: 'varchar', length: '300', isNullable: true },
+      { name: 'processingStatus', type: 'enum', enum: ['pending', 'processing', 'completed', 'failed'], isNullable: false, default: "'pending'" },
+      { name: 'processingStartedAt', type: 'timestamp', isNullable: true },
+      { name: 'processingCompletedAt', type: 'timestamp', isNullable: true },
+      { name: 'processingDurationMs', type: 'int', isNullable: true },
+      { name: 'extractedText', type: 'longtext', isNullable: true },
+      { name: 'ocrData', type: 'longtext', isNullable: true },
+      { name: 'ocrMetadata', type: 'json', isNullable: true },
+      { name: 'parsedContent', type: 'longtext', isNullable: true },
+      { name: 'structuredTableData', type: 'longtext', isNullable: true },
+      { name: 'contentMetadata', type: 'json', isNullable: true },
+      { name: 'characterCount', type: 'int', isNullable: true },
+      { name: 'wordCount', type: 'int', isNullable: true },
+      { name: 'lineCount', type: 'int', isNullable: true },
+      { name: 'averageConfidence', type: 'float', isNullable: true },
+      { name: 'errorMessage', type: 'text', isNullable: true },
+      { name: 'errorStack', type: 'text', isNullable: true },
+      { name: 'retryCount', type: 'int', isNullable: false, default: "'0'" },
+      { name: 'imageMetadata', type: 'json', isNullable: true },
+      { name: 'pdfMetadata', type: 'json', isNullable: true },
+      { name: 'excelMetadata', type: 'json', isNullable: true },
+      { name: 'detectedLanguage', type: 'varchar', length: '50', isNullable: true },
+      { name: 'hasStructuredData', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'tableCount', type: 'int', isNullable: true },
+      { name: 'userAgent', type: 'text', isNullable: true },
+      { name: 'uploadedFromIp', type: 'varchar', length: '45', isNullable: true },
+      { name: 'sessionId', type: 'varchar', length: '100', isNullable: true },
+      { name: 'createdAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+      { name: 'updatedAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)', onUpdate: 'CURRENT_TIMESTAMP(6)' },
+      { name: 'lastAccessedAt', type: 'timestamp', isNullable: true },
+    ],
+    indices: [
+      { name: 'IDX_c119a0094ff088cce01ac064ec', columnNames: ['createdAt'] },
+      { name: 'IDX_c11fe2fb9eb375e8aeef360ab5', columnNames: ['fileType', 'processingStatus'] },
+    ],
+  }),
+  new Table({
+    name: 'ocr_results',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'parsedFileId', type: 'int', isNullable: false },
+      { name: 'ocrEngine', type: 'varchar', length: '50', isNullable: false },
+      { name: 'ocrVersion', type: 'varchar', length: '50', isNullable: false },
+      { name: 'language', type: 'varchar', length: '10', isNullable: false },
+      { name: 'pageNumber', type: 'int', isNullable: false, default: "'1'" },
+      { name: 'regionId', type: 'int', isNullable: true },
+      { name: 'isSelected', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'rawText', type: 'longtext', isNullable: false },
+      { name: 'wordLevelData', type: 'json', isNullable: true },
+      { name: 'lineLevelData', type: 'json', isNullable: true },
+      { name: 'paragraphLevelData', type: 'json', isNullable: true },
+      { name: 'blockLevelData', type: 'json', isNullable: true },
+      { name: 'overallConfidence', type: 'float', isNullable: true },
+      { name: 'averageWordConfidence', type: 'float', isNullable: true },
+      { name: 'averageLineConfidence', type: 'float', isNullable: true },
+      { name: 'lowConfidenceWordCount', type: 'int', isNullable: true },
+      { name: 'confidenceThreshold', type: 'float', isNullable: true },
+      { name: 'processingTimeMs', type: 'int', isNullable: false },
+      { name: 'processingOptions', type: 'json', isNullable: true },
+      { name: 'imagePreprocessing', type: 'json', isNullable: true },
+      { name: 'characterCount', type: 'int', isNullable: false },
+      { name: 'wordCount', type: 'int', isNullable: false },
+      { name: 'lineCount', type: 'int', isNullable: false },
+      { name: 'sentenceCount', type: 'int', isNullable: true },
+      { name: 'paragraphCount', type: 'int', isNullable: true },
+      { name: 'hasNumericData', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'hasTabularData', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'hasFormData', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'detectedTables', type: 'json', isNullable: true },
+      { name: 'detectedFields', type: 'json', isNullable: true },
+      { name: 'imageQuality', type: 'varchar', length: '50', isNullable: true },
+      { name: 'textOrientation', type: 'varchar', length: '50', isNullable: true },
+      { name: 'hasNoise', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'hasBlur', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'skewAngle', type: 'float', isNullable: true },
+      { name: 'qualityMetrics', type: 'json', isNullable: true },
+      { name: 'warnings', type: 'text', isNullable: true },
+      { name: 'errors', type: 'text', isNullable: true },
+      { name: 'createdAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'IDX_0827b84567b55da5c8950e1084', columnNames: ['parsedFileId'] },
+    ],
+    foreignKeys: [
+      { name: 'FK_0827b84567b55da5c8950e10841', columnNames: ['parsedFileId'], referencedTableName: 'parsed_files', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+    ],
+  }),
+  new Table({
+    name: 'file_metadata',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'parsedFileId', type: 'int', isNullable: false, isUnique: true },
+      { name: 'imageWidth', type: 'int', isNullable: true },
+      { name: 'imageHeight', type: 'int', isNullable: true },
+      { name: 'imageDpi', type: 'int', isNullable: true },
+      { name: 'imageColorSpace', type: 'varchar', length: '50', isNullable: true },
+      { name: 'imageBitDepth', type: 'int', isNullable: true },
+      { name: 'imageFormat', type: 'varchar', length: '50', isNullable: true },
+      { name: 'imageCompression', type: 'varchar', length: '100', isNullable: true },
+      { name: 'imageExifData', type: 'json', isNullable: true },
+      { name: 'cameraModel', type: 'varchar', length: '100', isNullable: true },
+      { name: 'imageDateTaken', type: 'timestamp', isNullable: true },
+      { name: 'imageGpsData', type: 'json', isNullable: true },
+      { name: 'pdfPageCount', type: 'int', isNullable: true },
+      { name: 'pdfVersion', type: 'varchar', length: '20', isNullable: true },
+      { name: 'pdfTitle', type: 'text', isNullable: true },
+      { name: 'pdfAuthor', type: 'text', isNullable: true },
+      { name: 'pdfSubject', type: 'text', isNullable: true },
+      { name: 'pdfCreator', type: 'text', isNullable: true },
+      { name: 'pdfProducer', type: 'text', isNullable: true },
+      { name: 'pdfCreationDate', type: 'timestamp', isNullable: true },
+      { name: 'pdfModificationDate', type: 'timestamp', isNullable: true },
+      { name: 'pdfIsEncrypted', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'pdfHasImages', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'pdfHasForms', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'pdfPageSizes', type: 'json', isNullable: true },
+      { name: 'pdfFonts', type: 'json', isNullable: true },
+      { name: 'pdfBookmarks', type: 'json', isNullable: true },
+      { name: 'excelSheetCount', type: 'int', isNullable: true },
+      { name: 'excelSheetNames', type: 'json', isNullable: true },
+      { name: 'excelTitle', type: 'text', isNullable: true },
+      { name: 'excelAuthor', type: 'text', isNullable: true },
+      { name: 'excelCompany', type: 'text', isNullable: true },
+      { name: 'excelApplication', type: 'text', isNullable: true },
+      { name: 'excelCreationDate', type: 'timestamp', isNullable: true },
+      { name: 'excelModificationDate', type: 'timestamp', isNullable: true },
+      { name: 'excelTotalCells', type: 'int', isNullable: true },
+      { name: 'excelUsedCells', type: 'int', isNullable: true },
+      { name: 'excelSheetStatistics', type: 'json', isNullable: true },
+      { name: 'excelHasFormulas', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'excelHasCharts', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'excelHasMacros', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'excelDataTypes', type: 'json', isNullable: true },
+      { name: 'fileExtension', type: 'varchar', length: '20', isNullable: true },
+      { name: 'fileMd5Hash', type: 'varchar', length: '32', isNullable: true },
+      { name: 'fileSha256Hash', type: 'varchar', length: '64', isNullable: true },
+      { name: 'fileEncoding', type: 'varchar', length: '50', isNullable: true },
+      { name: 'fileLineEndings', type: 'int', isNullable: true },
+      { name: 'fileHasBom', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'detectedLanguages', type: 'json', isNullable: true },
+      { name: 'textComplexity', type: 'float', isNullable: true },
+      { name: 'keywordDensity', type: 'json', isNullable: true },
+      { name: 'entityExtraction', type: 'json', isNullable: true },
+      { name: 'sentimentAnalysis', type: 'json', isNullable: true },
+      { name: 'processingServer', type: 'varchar', length: '100', isNullable: true },
+      { name: 'processingNodeVersion', type: 'varchar', length: '50', isNullable: true },
+      { name: 'processingLibraryVersions', type: 'json', isNullable: true },
+      { name: 'processingConfiguration', type: 'json', isNullable: true },
+      { name: 'customMetadata', type: 'json', isNullable: true },
+      { name: 'tags', type: 'json', isNullable: true },
+      { name: 'notes', type: 'text', isNullable: true },
+      { name: 'createdAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+      { name: 'updatedAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)', onUpdate: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'REL_ca3cb6fe79142818d1c3088401', columnNames: ['parsedFileId'], isUnique: true },
+    ],
+    foreignKeys: [
+      { name: 'FK_ca3cb6fe79142818d1c3088401c', columnNames: ['parsedFileId'], referencedTableName: 'parsed_files', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+    ],
+  }),
+  new Table({
+    name: 'table_extractions',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'parsedFileId', type: 'int', isNullable: false },
+      { name: 'tableIndex', type: 'int', isNullable: false },
+      { name: 'tableName', type: 'varchar', length: '255', isNullable: true },
+      { name: 'pageNumber', type: 'int', isNullable: true },
+      { name: 'rowCount', type: 'int', isNullable: false },
+      { name: 'columnCount', type: 'int', isNullable: false },
+      { name: 'headers', type: 'json', isNullable: false },
+      { name: 'tableData', type: 'longtext', isNullable: false },
+      { name: 'cellTypes', type: 'json', isNullable: true },
+      { name: 'cellStyles', type: 'json', isNullable: true },
+      { name: 'boundingBox', type: 'json', isNullable: true },
+      { name: 'tableConfidence', type: 'float', isNullable: true },
+      { name: 'emptyRows', type: 'int', isNullable: true },
+      { name: 'emptyCells', type: 'int', isNullable: true },
+      { name: 'dataCompleteness', type: 'float', isNullable: true },
+      { name: 'hasHeaderRow', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'hasFooterRow', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'hasNumericData', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'hasDateData', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'columnStatistics', type: 'json', isNullable: true },
+      { name: 'dataPatterns', type: 'json', isNullable: true },
+      { name: 'duplicateRows', type: 'json', isNullable: true },
+      { name: 'outliers', type: 'json', isNullable: true },
+      { name: 'extractionMethod', type: 'varchar', length: '100', isNullable: true },
+      { name: 'processingTimeMs', type: 'int', isNullable: true },
+      { name: 'extractionOptions', type: 'json', isNullable: true },
+      { name: 'validationErrors', type: 'json', isNullable: true },
+      { name: 'dataWarnings', type: 'json', isNullable: true },
+      { name: 'overallQuality', type: 'float', isNullable: true },
+      { name: 'excelSheetName', type: 'varchar', length: '100', isNullable: true },
+      { name: 'excelRange', type: 'varchar', length: '20', isNullable: true },
+      { name: 'excelFormulas', type: 'json', isNullable: true },
+      { name: 'hasExcelCharts', type: 'tinyint', isNullable: false, default: '0' },
+      { name: 'excelFormatting', type: 'json', isNullable: true },
+      { name: 'pdfTextBlocks', type: 'json', isNullable: true },
+      { name: 'pdfTableDetectionScore', type: 'float', isNullable: true },
+      { name: 'pdfLayoutAnalysis', type: 'json', isNullable: true },
+      { name: 'ocrTableRegions', type: 'json', isNullable: true },
+      { name: 'ocrAverageConfidence', type: 'float', isNullable: true },
+      { name: 'cellBoundingBoxes', type: 'json', isNullable: true },
+      { name: 'createdAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'IDX_14479675780eae4bb8dec0034b', columnNames: ['parsedFileId'] },
+    ],
+    foreignKeys: [
+      { name: 'FK_14479675780eae4bb8dec0034b5', columnNames: ['parsedFileId'], referencedTableName: 'parsed_files', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+    ],
+  }),
+  new Table({
+    name: 'bill_data',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'processedFileId', type: 'int', isNullable: false },
+      { name: 'billType', type: 'enum', enum: ['payslip', 'invoice', 'receipt', 'bill', 'expense', 'other'], isNullable: false, default: "'other'" },
+      { name: 'billStatus', type: 'enum', enum: ['pending', 'processed', 'verified', 'approved', 'rejected'], isNullable: false, default: "'pending'" },
+      { name: 'documentNumber', type: 'varchar', length: '200', isNullable: true },
+      { name: 'billDate', type: 'date', isNullable: true },
+      { name: 'dueDate', type: 'date', isNullable: true },
+      { name: 'vendorName', type: 'varchar', length: '200', isNullable: true },
+      { name: 'vendorAddress', type: 'varchar', length: '200', isNullable: true },
+      { name: 'vendorPhone', type: 'varchar', length: '100', isNullable: true },
+      { name: 'vendorEmail', type: 'varchar', length: '100', isNullable: true },
+      { name: 'vendorTaxId', type: 'varchar', length: '100', isNullable: true },
+      { name: 'customerName', type: 'varchar', length: '200', isNullable: true },
+      { name: 'customerId', type: 'varchar', length: '100', isNullable: true },
+      { name: 'customerDepartment', type: 'varchar', length: '100', isNullable: true },
+      { name: 'customerDesignation', type: 'varchar', length: '100', isNullable: true },
+      { name: 'subtotal', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'taxAmount', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'discountAmount', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'totalAmount', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'currency', type: 'varchar', length: '10', isNullable: true },
+      { name: 'basicSalary', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'allowances', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'deductions', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'netSalary', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'payableDays', type: 'int', isNullable: true },
+      { name: 'paidDays', type: 'int', isNullable: true },
+      { name: 'itemDescription', type: 'text', isNullable: true },
+      { name: 'lineItems', type: 'json', isNullable: true },
+      { name: 'confidence', type: 'float', isNullable: true },
+      { name: 'extractedFields', type: 'json', isNullable: true },
+      { name: 'validationErrors', type: 'json', isNullable: true },
+      { name: 'notes', type: 'text', isNullable: true },
+      { name: 'createdAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+      { name: 'updatedAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)', onUpdate: 'CURRENT_TIMESTAMP(6)' },
+      { name: 'processedAt', type: 'timestamp', isNullable: true },
+    ],
+    indices: [
+      { name: 'IDX_58686f5f5681c63132c517ce29', columnNames: ['createdAt'] },
+      { name: 'IDX_ae5b4ec9914425ffb1897f9c03', columnNames: ['processedFileId'] },
+      { name: 'IDX_37eebfd7b454d63f2930fab8c1', columnNames: ['billType', 'billStatus'] },
+    ],
+    foreignKeys: [
+      { name: 'FK_ae5b4ec9914425ffb1897f9c03c', columnNames: ['processedFileId'], referencedTableName: 'parsed_files', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+    ],
+  }),
+  new Table({
+    name: 'medical_bills',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'parsed_file_id', type: 'int', isNullable: false },
+      { name: 'file_name', type: 'varchar', length: '255', isNullable: true },
+      { name: 'file_size', type: 'bigint', isNullable: true },
+      { name: 'processed_status', type: 'varchar', length: '50', isNullable: false, default: "'completed'" },
+      { name: 'processed_date', type: 'datetime', isNullable: true },
+      { name: 'invoice_no', type: 'varchar', length: '100', isNullable: false },
+      { name: 'date', type: 'varchar', length: '50', isNullable: false },
+      { name: 'shop_name', type: 'varchar', length: '255', isNullable: false },
+      { name: 'shop_address', type: 'text', isNullable: true },
+      { name: 'phone', type: 'json', isNullable: true },
+      { name: 'patient_name', type: 'varchar', length: '255', isNullable: false },
+      { name: 'patient_phone', type: 'varchar', length: '20', isNullable: true },
+      { name: 'prescribed_by', type: 'varchar', length: '255', isNullable: true },
+      { name: 'doctor_name', type: 'varchar', length: '255', isNullable: true },
+      { name: 'doctor_specialization', type: 'varchar', length: '255', isNullable: true },
+      { name: 'doctor_phone', type: 'varchar', length: '20', isNullable: true },
+      { name: 'items', type: 'json', isNullable: false },
+      { name: 'total_qty', type: 'int', isNullable: false },
+      { name: 'sub_total', type: 'decimal', precision: 10, scale: 2, isNullable: false },
+      { name: 'less_discount', type: 'decimal', precision: 10, scale: 2, isNullable: false, default: "'0.00'" },
+      { name: 'other_adj', type: 'decimal', precision: 10, scale: 2, isNullable: false, default: "'0.00'" },
+      { name: 'round_off', type: 'decimal', precision: 10, scale: 2, isNullable: false, default: "'0.00'" },
+      { name: 'grand_total', type: 'decimal', precision: 10, scale: 2, isNullable: false },
+      { name: 'amount_in_words', type: 'text', isNullable: false },
+      { name: 'message', type: 'text', isNullable: true },
+      { name: 'terms_and_conditions', type: 'json', isNullable: true },
+      { name: 'extraction_confidence', type: 'decimal', precision: 5, scale: 2, isNullable: true },
+      { name: 'extraction_method', type: 'varchar', length: '100', isNullable: true },
+      { name: 'extractor_version', type: 'varchar', length: '50', isNullable: true },
+      { name: 'ocr_engine', type: 'varchar', length: '100', isNullable: true },
+      { name: 'content_fingerprint', type: 'varchar', length: '64', isNullable: true },
+      { name: 'duplicate_of_id', type: 'int', isNullable: true },
+      { name: 'duplicate_match_type', type: 'varchar', length: '20', isNullable: true },
+      { name: 'field_provenance', type: 'json', isNullable: true },
+      { name: 'validation_report', type: 'json', isNullable: true },
+      { name: 'ocr_corrections', type: 'json', isNullable: true },
+      { name: 'corrected_fields', type: 'json', isNullable: true },
+      { name: 'review_state', type: 'enum', enum: ['needs_review', 'in_review', 'approved', 'rejected'], isNullable: true },
+      { name: 'review_locked_by', type: 'varchar', length: '100', isNullable: true },
+      { name: 'review_locked_at', type: 'datetime', isNullable: true },
+      { name: 'reviewed_by', type: 'varchar', length: '100', isNullable: true },
+      { name: 'reviewed_at', type: 'datetime', isNullable: true },
+      { name: 'review_notes', type: 'text', isNullable: true },
+      { name: 'created_at', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+      { name: 'updated_at', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)', onUpdate: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'IDX_80fd52f75bdeb739cbed0c14e4', columnNames: ['content_fingerprint'] },
+      { name: 'IDX_8bf06fe80038c92cc04a4e97d3', columnNames: ['review_state', 'extraction_confidence'] },
+    ],
+    foreignKeys: [
+      { name: 'FK_7b8bb081a4752b945fc7f8762c7', columnNames: ['parsed_file_id'], referencedTableName: 'parsed_files', referencedColumnNames: ['id'], onDelete: 'NO ACTION' },
+    ],
+  }),
+  new Table({
+    name: 'processing_jobs',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'status', type: 'enum', enum: ['pending', 'processing', 'completed', 'failed'], isNullable: false, default: "'pending'" },
+      { name: 'stage', type: 'enum', enum: ['preprocessing', 'ocr', 'extraction', 'persistence'], isNullable: true },
+      { name: 'progress', type: 'int', isNullable: false, default: "'0'" },
+      { name: 'originalName', type: 'varchar', length: '200', isNullable: false },
+      { name: 'mimeType', type: 'varchar', length: '100', isNullable: false },
+      { name: 'fileSize', type: 'bigint', isNullable: false },
+      { name: 'fileHash', type: 'varchar', length: '64', isNullable: true },
+      { name: 'filePath', type: 'varchar', length: '300', isNullable: false },
+      { name: 'requestInfo', type: 'json', isNullable: true },
+      { name: 'options', type: 'json', isNullable: true },
+      { name: 'parsedFileId', type: 'int', isNullable: true },
+      { name: 'medicalBillId', type: 'int', isNullable: true },
+      { name: 'result', type: 'json', isNullable: true },
+      { name: 'errorMessage', type: 'text', isNullable: true },
+      { name: 'attempts', type: 'int', isNullable: false, default: "'0'" },
+      { name: 'maxAttempts', type: 'int', isNullable: false, default: "'3'" },
+      { name: 'lockedBy', type: 'varchar', length: '100', isNullable: true },
+      { name: 'lockedAt', type: 'timestamp', isNullable: true },
+      { name: 'startedAt', type: 'timestamp', isNullable: true },
+      { name: 'completedAt', type: 'timestamp', isNullable: true },
+      { name: 'createdAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+      { name: 'updatedAt', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)', onUpdate: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'IDX_ea7a295eea998736160da4cfc7', columnNames: ['status', 'createdAt'] },
+    ],
+  }),
+  new Table({
+    name: 'medical_bill_corrections',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'medical_bill_id', type: 'int', isNullable: false },
+      { name: 'field_path', type: 'varchar', length: '100', isNullable: false },
+      { name: 'previous_value', type: 'json', isNullable: true },
+      { name: 'new_value', type: 'json', isNullable: true },
+      { name: 'corrected_by', type: 'varchar', length: '100', isNullable: true },
+      { name: 'reason', type: 'text', isNullable: true },
+      { name: 'created_at', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'IDX_e9521597563efca49889e4da08', columnNames: ['medical_bill_id', 'created_at'] },
+    ],
+    foreignKeys: [
+      { name: 'FK_a8b6f70f6250f6ebb7ddaa203e9', columnNames: ['medical_bill_id'], referencedTableName: 'medical_bills', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+    ],
+  }),
+  new Table({
+    name: 'medical_bill_versions',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'medical_bill_id', type: 'int', isNullable: false },
+      { name: 'version_number', type: 'int', isNullable: false },
+      { name: 'data', type: 'json', isNullable: false },
+      { name: 'extraction_confidence', type: 'decimal', precision: 5, scale: 2, isNullable: true },
+      { name: 'extraction_method', type: 'varchar', length: '100', isNullable: true },
+      { name: 'extractor_version', type: 'varchar', length: '50', isNullable: true },
+      { name: 'ocr_engine', type: 'varchar', length: '100', isNullable: true },
+      { name: 'field_provenance', type: 'json', isNullable: true },
+      { name: 'ocr_corrections', type: 'json', isNullable: true },
+      { name: 'corrected_fields', type: 'json', isNullable: true },
+      { name: 'source', type: 'varchar', length: '30', isNullable: false },
+      { name: 'restored_from_version', type: 'int', isNullable: true },
+      { name: 'created_by', type: 'varchar', length: '100', isNullable: true },
+      { name: 'created_at', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'IDX_51f21b98a88b5c629830288743', columnNames: ['medical_bill_id', 'version_number'], isUnique: true },
+    ],
+    foreignKeys: [
+      { name: 'FK_5c026509e7c2d9dab0a9da4b511', columnNames: ['medical_bill_id'], referencedTableName: 'medical_bills', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+    ],
+  }),
+  new Table({
+    name: 'bill_status_changes',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'bill_data_id', type: 'int', isNullable: false },
+      { name: 'from_status', type: 'enum', enum: ['pending', 'processed', 'verified', 'approved', 'rejected'], isNullable: true },
+      { name: 'to_status', type: 'enum', enum: ['pending', 'processed', 'verified', 'approved', 'rejected'], isNullable: false },
+      { name: 'actor', type: 'varchar', length: '100', isNullable: true },
+      { name: 'notes', type: 'text', isNullable: true },
+      { name: 'created_at', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'IDX_a3e0356c962f9203045da5c3ce', columnNames: ['bill_data_id', 'created_at'] },
+    ],
+    foreignKeys: [
+      { name: 'FK_3b8ef630b1c7cbed3022d954ca3', columnNames: ['bill_data_id'], referencedTableName: 'bill_data', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+    ],
+  }),
+  new Table({
+    name: 'documents',
+    columns: [
+      { name: 'id', type: 'int', isPrimary: true, isGenerated: true, generationStrategy: 'increment', isNullable: false },
+      { name: 'document_type', type: 'enum', enum: ['medical_bill', 'payslip', 'invoice', 'receipt', 'bill', 'expense', 'other'], isNullable: false },
+      { name: 'source_table', type: 'enum', enum: ['bill_data', 'medical_bill'], isNullable: false },
+      { name: 'source_id', type: 'int', isNullable: false },
+      { name: 'parsed_file_id', type: 'int', isNullable: false },
+      { name: 'status', type: 'varchar', length: '30', isNullable: true },
+      { name: 'document_number', type: 'varchar', length: '200', isNullable: true },
+      { name: 'document_date', type: 'date', isNullable: true },
+      { name: 'issuer_name', type: 'varchar', length: '255', isNullable: true },
+      { name: 'issuer_address', type: 'text', isNullable: true },
+      { name: 'issuer_phone', type: 'varchar', length: '100', isNullable: true },
+      { name: 'recipient_name', type: 'varchar', length: '255', isNullable: true },
+      { name: 'subtotal', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'tax_amount', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'discount_amount', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'total_amount', type: 'decimal', precision: 15, scale: 2, isNullable: true },
+      { name: 'currency', type: 'varchar', length: '10', isNullable: true },
+      { name: 'line_items', type: 'json', isNullable: true },
+      { name: 'extensions', type: 'json', isNullable: true },
+      { name: 'confidence', type: 'decimal', precision: 5, scale: 2, isNullable: true },
+      { name: 'created_at', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)' },
+      { name: 'updated_at', type: 'datetime', precision: 6, isNullable: false, default: 'CURRENT_TIMESTAMP(6)', onUpdate: 'CURRENT_TIMESTAMP(6)' },
+    ],
+    indices: [
+      { name: 'IDX_0ac6db0be1ba323e80e653b0e6', columnNames: ['created_at'] },
+      { name: 'IDX_5204e6b9ba9b5db64cb9b294b9', columnNames: ['document_date'] },
+      { name: 'IDX_8a9280679629cbec229c4d849d', columnNames: ['document_type', 'status'] },
+      { name: 'IDX_d3c652a4a93611e6420dfcb9d0', columnNames: ['source_table', 'source_id'], isUnique: true },
+    ],
+    foreignKeys: [
+      { name: 'FK_d4f3948799e751449324dda7103', columnNames: ['parsed_file_id'], referencedTableName: 'parsed_files', referencedColumnNames: ['id'], onDelete: 'CASCADE' },
+    ],
+  }),
+];
+
+/**
+ * A TABLES entry in the types of the connected database. MySQL gets it unchanged.
+ */
+function forDatabase(table: Table, queryRunner: QueryRunner): Table {
+  const type = queryRunner.connection.options.type;
+  if (type === 'mysql') {
+    return table;
+  }
+  const sqlite = type === 'better-sqlite3';
+
+  const columns = table.columns.map((column): TableColumnOptions => {
+    const options: TableColumnOptions = { ...column, onUpdate: undefined }; // ON UPDATE is MySQL only
+    if (column.isGenerated && sqlite) {
+      options.type = 'integer'; // AUTOINCREMENT needs INTEGER PRIMARY KEY
+    } else if (column.type === 'longtext') {
+      options.type = 'text';
+    } else if (column.type === 'tinyint') {
+      options.type = 'boolean';
+      options.default = column.default === undefined ? undefined : column.default !== '0';
+    } else if (column.type === 'enum' && sqlite) {
+      options.type = 'simple-enum';
+    } else if (column.type === 'datetime' || column.type === 'timestamp') {
+      options.type = sqlite ? 'datetime' : 'timestamp';
+      if (column.default === 'CURRENT_TIMESTAMP(6)') {
+        options.default = sqlite ? "datetime('now')" : 'now()';
+      }
+      if (sqlite) {
+        options.precision = undefined;
+      }
+    }
+    return options;
+  });
+
+  return new Table({ ...table, columns });
+}
+
+export class InitialSchema1735689600000 implements MigrationInterface {
+  name = 'InitialSchema1735689600000';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    // TABLES is ordered so referenced tables are created before the tables pointing at them
+    for (const table of TABLES.map(table => forDatabase(table, queryRunner))) {
+      const existing = await queryRunner.getTable(table.name);
+      if (!existing) {
+        await queryRunner.createTable(table, false, true, true);
+        continue;
+      }
+
+      // Foreign keys are not added to adopted tables, as existing rows may not satisfy them
+      for (const column of table.columns) {
+        if (!existing.findColumnByName(column.name)) {
+          await queryRunner.addColumn(existing, column);
+        }
+      }
+      for (const index of table.indices) {
+        if (!existing.indices.some(existingIndex => existingIndex.name === index.name)) {
+          await queryRunner.createIndex(existing, index);
+        }
+      }
+    }
+  }
+
+  async down(queryRunner: QueryRunner): Promise<void> {
+    for (const table of [...TABLES].reverse()) {
+      await queryRunner.dropTable(table.name, true, true, true);
+    }
+  }
+}
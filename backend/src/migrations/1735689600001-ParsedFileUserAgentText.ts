@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Databases created before the schema was optimized still have parsed_files.userAgent as
+ * VARCHAR(255). DatabaseSetupService used to drop and recreate the file tables when it
+ * found that; widening the column in place keeps the data.
+ *
+ * Raw SQL on purpose: QueryRunner.changeColumn implements a type change as drop + add.
+ * MySQL only - Postgres and SQLite databases were never created with the old column.
+ */
+export class ParsedFileUserAgentText1735689600001 implements MigrationInterface {
+  name = 'ParsedFileUserAgentText1735689600001';
+
+  async up(queryRunner: QueryRunner): Promise<void> {
+    if (queryRunner.connection.options.type !== 'mysql') {
+      return;
+    }
+    const table = await queryRunner.getTable('parsed_files');
+    const column = table?.findColumnByName('userAgent');
+    if (column && column.type === 'varchar') {
+      await queryRunner.query('ALTER TABLE `parsed_files` MODIFY `userAgent` TEXT NULL');
+    }
+  }
+
+  async down(): Promise<void> {
+    // Narrowing back to VARCHAR(255) could truncate user agents, so the column stays TEXT
+  }
+}
@@ -0,0 +1,8 @@
+import { InitialSchema1735689600000 } from './1735689600000-InitialSchema';
+import { ParsedFileUserAgentText1735689600001 } from './1735689600001-ParsedFileUserAgentText';
+
+// Every migration, oldest first - add new migrations here
+export const MIGRATIONS = [
+  InitialSchema1735689600000,
+  ParsedFileUserAgentText1735689600001,
+];
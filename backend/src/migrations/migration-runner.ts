@@ -0,0 +1,175 @@
+import { DataSource, Migration, MigrationExecutor, MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Migrations set `destructive = true` when up() can lose data (dropping tables or
+ * columns, narrowing types, deleting rows). Generated SQL is checked as well, so a
+ * migration that drops something without the flag is still caught.
+ */
+export interface AppMigration extends MigrationInterface {
+  destructive?: boolean;
+}
+
+export interface MigrationStatus {
+  name: string;
+  timestamp: number;
+  executed: boolean;
+  destructive: boolean; // Declared by the migration; SQL checks need `plan`
+}
+
+export interface MigrationPlan {
+  name: string;
+  direction: 'up' | 'down';
+  sql: string[]; // Statements the migration would run against the current database
+  destructive: boolean;
+}
+
+// Statements that lose data
+const DESTRUCTIVE_SQL = /\b(DROP\s+(TABLE|COLUMN|DATABASE|SCHEMA)|TRUNCATE|DELETE\s+FROM)\b/i;
+
+// Statements passed through to the database while planning; everything else is only recorded.
+// SQLite reads its schema with PRAGMAs; ones that set a value (PRAGMA x = y) are recorded.
+const READ_SQL = /^\s*((SELECT|SHOW|DESCRIBE|DESC|EXPLAIN)\b|PRAGMA\s+[^=]+$)/i;
+
+/**
+ * Raised instead of running migrations that would lose data without an explicit go-ahead
+ */
+export class DestructiveMigrationError extends Error {
+  constructor(readonly migrations: string[]) {
+    super(`Destructive migrations pending: ${migrations.join(', ')}`);
+    this.name = 'DestructiveMigrationError';
+  }
+}
+
+/**
+ * Runs, reverts and previews the migrations of a DataSource. Used by the migration CLI
+ * (src/migrate.ts) and by DatabaseSetupService on startup.
+ */
+export class MigrationRunner {
+  constructor(private readonly dataSource: DataSource) {}
+
+  async getStatus(): Promise<MigrationStatus[]> {
+    const executed = await this.getExecutedNames();
+    return (await this.getAllMigrations()).map(migration => ({
+      name: migration.name,
+      timestamp: migration.timestamp,
+      executed: executed.includes(migration.name),
+      destructive: (migration.instance as AppMigration).destructive === true,
+    }));
+  }
+
+  async getPending(): Promise<Migration[]> {
+    const executed = await this.getExecutedNames();
+    return (await this.getAllMigrations()).filter(migration => !executed.includes(migration.name));
+  }
+
+  /**
+   * SQL each migration would run, without changing the database. Each migration is planned
+   * against the database as it is now, so one that depends on an earlier pending migration
+   * may show different statements than it will actually run.
+   */
+  async plan(migrations: Migration[], direction: 'up' | 'down' = 'up'): Promise<MigrationPlan[]> {
+    const plans: MigrationPlan[] = [];
+    for (const migration of migrations) {
+      const sql = await this.captureSql(queryRunner => migration.instance[direction](queryRunner));
+      plans.push({
+        name: migration.name,
+        direction,
+        sql,
+        destructive: (direction === 'up' && (migration.instance as AppMigration).destructive === true)
+          || sql.some(statement => DESTRUCTIVE_SQL.test(statement)),
+      });
+    }
+    return plans;
+  }
+
+  /**
+   * Run all pending migrations. Refuses destructive ones unless `allowDestructive` is set;
+   * with `dryRun` only the plan is returned.
+   */
+  async run(options: { dryRun?: boolean; allowDestructive?: boolean } = {}): Promise<MigrationPlan[]> {
+    const plans = await this.plan(await this.getPending());
+    if (options.dryRun || plans.length === 0) {
+      return plans;
+    }
+
+    this.assertAllowed(plans, options.allowDestructive);
+    await this.dataSource.runMigrations({ transaction: 'each' });
+    return plans;
+  }
+
+  /**
+   * Undo the most recently executed migration. Returns null when nothing has been run.
+   */
+  async revert(options: { dryRun?: boolean; allowDestructive?: boolean } = {}): Promise<MigrationPlan | null> {
+    const executed = await this.getExecutedNames();
+    const last = (await this.getAllMigrations()).filter(migration => executed.includes(migration.name))
+      .sort((a, b) => executed.indexOf(a.name) - executed.indexOf(b.name))[0];
+    if (!last) {
+      return null;
+    }
+
+    const [plan] = await this.plan([last], 'down');
+    if (options.dryRun) {
+      return plan;
+    }
+
+    this.assertAllowed([plan], options.allowDestructive);
+    await this.dataSource.undoLastMigration({ transaction: 'each' });
+    return plan;
+  }
+
+  private assertAllowed(plans: MigrationPlan[], allowDestructive?: boolean): void {
+    const destructive = plans.filter(plan => plan.destructive).map(plan => plan.name);
+    if (destructive.length && !allowDestructive) {
+      throw new DestructiveMigrationError(destructive);
+    }
+  }
+
+  /**
+   * Configured migrations, oldest first. Only reads the migration classes, not the database.
+   */
+  private async getAllMigrations(): Promise<Migration[]> {
+    return await new MigrationExecutor(this.dataSource).getAllMigrations();
+  }
+
+  /**
+   * Names of executed migrations, most recent first. Doesn't create the migrations table.
+   */
+  private async getExecutedNames(): Promise<string[]> {
+    const tableName = this.dataSource.options.migrationsTableName || 'migrations';
+    const queryRunner = this.dataSource.createQueryRunner();
+    try {
+      if (!(await queryRunner.hasTable(tableName))) {
+        return [];
+      }
+    } finally {
+      await queryRunner.release();
+    }
+
+    const executed = await new MigrationExecutor(this.dataSource).getExecutedMigrations();
+    return executed.map(migration => migration.name);
+  }
+
+  private async captureSql(callback: (queryRunner: QueryRunner) => Promise<any>): Promise<string[]> {
+    const statements: string[] = [];
+    const queryRunner = this.dataSource.createQueryRunner();
+    const query = queryRunner.query;
+
+    queryRunner.query = (async (sql: string, parameters?: any[], useStructuredResult?: boolean) => {
+      if (READ_SQL.test(sql)) {
+        return query.call(queryRunner, sql, parameters, useStructuredResult);
+      }
+      statements.push(parameters?.length ? `${sql} -- parameters: ${JSON.stringify(parameters)}` : sql);
+      return undefined;
+    }) as QueryRunner['query'];
+
+    try {
+      await callback(queryRunner);
+    } finally {
+      // SQLite hands out the same QueryRunner every time, so it has to get its query() back
+      queryRunner.query = query;
+      await queryRunner.release();
+    }
+    return statements;
+  }
+}
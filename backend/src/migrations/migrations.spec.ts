@@ -0,0 +1,226 @@
+import { DataSource } from 'typeorm';
+import { buildDataSourceOptions, ENTITIES } from '../database.config';
+import { DestructiveMigrationError, MigrationRunner } from './migration-runner';
+import { ParsedFile, FileType, ProcessingStatus } from '../entities/parsed-file.entity';
+import { OcrResult } from '../entities/ocr-result.entity';
+import { FileMetadata } from '../entities/file-metadata.entity';
+import { TableExtraction } from '../entities/table-extraction.entity';
+import { BillData, BillStatus, BillType } from '../entities/bill-data.entity';
+import { MedicalBill, ReviewState } from '../entities/medical-bill.entity';
+import { ProcessingJob } from '../entities/processing-job.entity';
+import { MedicalBillCorrection } from '../entities/medical-bill-correction.entity';
+import { MedicalBillVersion } from '../entities/medical-bill-version.entity';
+import { BillStatusChange } from '../entities/bill-status-change.entity';
+import { Document, DocumentSource, DocumentType } from '../entities/document.entity';
+import { DocumentService } from '../services/document.service';
+
+describe('migrations', () => {
+  let dataSource: DataSource;
+  let runner: MigrationRunner;
+
+  beforeAll(async () => {
+    dataSource = await new DataSource(buildDataSourceOptions()).initialize();
+    runner = new MigrationRunner(dataSource);
+    await runner.run();
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  it('runs every migration and leaves none pending', async () => {
+    const status = await runner.getStatus();
+    expect(status.length).toBeGreaterThan(0);
+    expect(status.every(migration => migration.executed)).toBe(true);
+    expect(await runner.getPending()).toEqual([]);
+  });
+
+  it('creates a table for every entity', async () => {
+    const queryRunner = dataSource.createQueryRunner();
+    try {
+      for (const entity of ENTITIES) {
+        const { tableName } = dataSource.getMetadata(entity);
+        expect([tableName, await queryRunner.hasTable(tableName)]).toEqual([tableName, true]);
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  });
+
+  describe('entities against the migrated schema', () => {
+    let parsedFile: ParsedFile;
+    let medicalBill: MedicalBill;
+    let billData: BillData;
+
+    beforeAll(async () => {
+      parsedFile = await dataSource.getRepository(ParsedFile).save({
+        filename: 'bill.png',
+        originalName: 'bill.png',
+        fileType: FileType.IMAGE,
+        mimeType: 'image/png',
+        fileSize: 1024,
+        filePath: 'local://bill.png',
+        extractedText: 'x'.repeat(100000),
+        hasStructuredData: true,
+        processingStartedAt: new Date('2024-03-12T10:00:00Z'),
+      });
+      medicalBill = await dataSource.getRepository(MedicalBill).save({
+        parsedFileId: parsedFile.id,
+        invoiceNo: 'INV-1',
+        date: '12/03/2024',
+        shopName: 'Apollo Pharmacy',
+        patientName: 'Ravi',
+        items: [{ sNo: 1, itemDescription: 'Paracetamol', qty: 2, rate: 5, amount: 10 }],
+        totalQty: 2,
+        subTotal: 10,
+        grandTotal: 10,
+        amountInWords: 'Ten',
+        reviewState: ReviewState.NEEDS_REVIEW,
+        reviewLockedAt: new Date('2024-03-12T10:00:00Z'),
+      });
+      billData = await dataSource.getRepository(BillData).save({
+        processedFileId: parsedFile.id,
+        billType: BillType.INVOICE,
+        totalAmount: 118.5,
+        lineItems: [{ description: 'Service', amount: 118.5 }],
+      });
+    });
+
+    it('round-trips the defaults and types of a parsed file', async () => {
+      const stored = await dataSource.getRepository(ParsedFile).findOneBy({ id: parsedFile.id });
+      expect(stored.processingStatus).toBe(ProcessingStatus.PENDING);
+      expect(stored.retryCount).toBe(0);
+      expect(stored.hasStructuredData).toBe(true);
+      expect(stored.extractedText).toHaveLength(100000);
+      expect(stored.processingStartedAt).toEqual(new Date('2024-03-12T10:00:00Z'));
+      expect(stored.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('saves and queries the file-level entities', async () => {
+      await dataSource.getRepository(OcrResult).save({
+        parsedFileId: parsedFile.id,
+        ocrEngine: 'tesseract',
+        ocrVersion: '5',
+        language: 'eng',
+        rawText: 'Apollo Pharmacy',
+        processingTimeMs: 120,
+        characterCount: 15,
+        wordCount: 2,
+        lineCount: 1,
+        wordLevelData: [{ text: 'Apollo', confidence: 91 }],
+      });
+      await dataSource.getRepository(FileMetadata).save({ parsedFileId: parsedFile.id, imageWidth: 800, pdfIsEncrypted: false });
+      await dataSource.getRepository(TableExtraction).save({
+        parsedFileId: parsedFile.id,
+        tableIndex: 0,
+        rowCount: 1,
+        columnCount: 2,
+        headers: ['Item', 'Amount'],
+        tableData: JSON.stringify([['Paracetamol', '10']]),
+      });
+      await dataSource.getRepository(ProcessingJob).save({
+        originalName: 'bill.png',
+        mimeType: 'image/png',
+        fileSize: 1024,
+        filePath: 'local://bill.png',
+        requestInfo: { ip: '127.0.0.1' },
+      });
+
+      const ocrResult = await dataSource.getRepository(OcrResult).findOneBy({ parsedFileId: parsedFile.id });
+      expect(ocrResult.wordLevelData).toEqual([{ text: 'Apollo', confidence: 91 }]);
+      expect(ocrResult.isSelected).toBe(false);
+      expect((await dataSource.getRepository(FileMetadata).findOneBy({ parsedFileId: parsedFile.id })).imageWidth).toBe(800);
+      expect((await dataSource.getRepository(TableExtraction).findOneBy({ parsedFileId: parsedFile.id })).headers).toEqual(['Item', 'Amount']);
+
+      const job = await dataSource.getRepository(ProcessingJob).findOneBy({ status: ProcessingStatus.PENDING });
+      expect(job.attempts).toBe(0);
+      expect(job.requestInfo).toEqual({ ip: '127.0.0.1' });
+    });
+
+    it('saves and queries medical bills with their corrections and versions', async () => {
+      await dataSource.getRepository(MedicalBillCorrection).save({
+        medicalBillId: medicalBill.id,
+        fieldPath: 'shopName',
+        previousValue: 'Apolo Pharmacy',
+        newValue: 'Apollo Pharmacy',
+        correctedBy: 'alice',
+      });
+      await dataSource.getRepository(MedicalBillVersion).save({
+        medicalBillId: medicalBill.id,
+        versionNumber: 1,
+        data: { invoiceNo: 'INV-1' },
+        source: 'extraction',
+      });
+
+      const stored = await dataSource.getRepository(MedicalBill).findOne({
+        where: { id: medicalBill.id },
+        relations: { parsedFile: true },
+      });
+      expect(stored.parsedFile.id).toBe(parsedFile.id);
+      expect(Number(stored.lessDiscount)).toBe(0);
+      expect(stored.items).toHaveLength(1);
+      expect(stored.reviewLockedAt).toEqual(new Date('2024-03-12T10:00:00Z'));
+      expect(await dataSource.getRepository(MedicalBillCorrection).countBy({ medicalBillId: medicalBill.id })).toBe(1);
+      expect((await dataSource.getRepository(MedicalBillVersion).findOneBy({ medicalBillId: medicalBill.id })).data).toEqual({ invoiceNo: 'INV-1' });
+    });
+
+    it('supports conditional updates on enum columns', async () => {
+      const repository = dataSource.getRepository(MedicalBill);
+      const claim = { reviewState: ReviewState.IN_REVIEW, reviewLockedBy: 'alice' };
+      expect((await repository.update({ id: medicalBill.id, reviewState: ReviewState.NEEDS_REVIEW }, claim)).affected).toBe(1);
+      expect((await repository.update({ id: medicalBill.id, reviewState: ReviewState.NEEDS_REVIEW }, claim)).affected).toBe(0);
+    });
+
+    it('saves and queries bill data with its status changes', async () => {
+      await dataSource.getRepository(BillStatusChange).save({ billDataId: billData.id, fromStatus: null, toStatus: BillStatus.PENDING, actor: 'system' });
+
+      const stored = await dataSource.getRepository(BillData).findOneBy({ id: billData.id });
+      expect(stored.billStatus).toBe(BillStatus.PENDING);
+      expect(Number(stored.totalAmount)).toBe(118.5);
+      const history = await dataSource.getRepository(BillStatusChange).findBy({ billDataId: billData.id });
+      expect(history.map(change => [change.fromStatus, change.toStatus])).toEqual([[null, BillStatus.PENDING]]);
+    });
+
+    it('syncs and searches documents', async () => {
+      const documentService = new DocumentService(dataSource.getRepository(Document));
+      await documentService.syncMedicalBill(medicalBill);
+      await documentService.syncBillData(billData);
+
+      const { documents, total } = await documentService.listDocuments({ page: 1, limit: 10, search: 'APOLLO', minAmount: 5 });
+      expect(total).toBe(1);
+      expect(documents[0]).toMatchObject({ documentType: DocumentType.MEDICAL_BILL, sourceTable: DocumentSource.MEDICAL_BILL, sourceId: medicalBill.id });
+      expect(await documentService.countByType()).toEqual({ [DocumentType.MEDICAL_BILL]: 1, [DocumentType.INVOICE]: 1 });
+    });
+
+    it('cascades deletes of a parsed file', async () => {
+      await dataSource.getRepository(MedicalBill).delete({ parsedFileId: parsedFile.id });
+      await dataSource.getRepository(ParsedFile).delete({ id: parsedFile.id });
+
+      expect(await dataSource.getRepository(OcrResult).countBy({ parsedFileId: parsedFile.id })).toBe(0);
+      expect(await dataSource.getRepository(BillData).countBy({ processedFileId: parsedFile.id })).toBe(0);
+      expect(await dataSource.getRepository(BillStatusChange).countBy({ billDataId: billData.id })).toBe(0);
+      expect(await dataSource.getRepository(Document).countBy({ parsedFileId: parsedFile.id })).toBe(0);
+    });
+  });
+
+  it('reverts every migration, refusing destructive ones without allowDestructive', async () => {
+    const total = (await runner.getStatus()).length;
+
+    let plan = await runner.revert({ dryRun: true });
+    while (plan) {
+      if (plan.destructive) {
+        await expect(runner.revert()).rejects.toThrow(DestructiveMigrationError);
+      }
+      await runner.revert({ allowDestructive: true });
+      plan = await runner.revert({ dryRun: true });
+    }
+
+    expect(await runner.getPending()).toHaveLength(total);
+    const queryRunner = dataSource.createQueryRunner();
+    try {
+      expect(await queryRunner.hasTable('parsed_files')).toBe(false);
+    } finally {
+      await queryRunner.release();
+    }
+  });
+});
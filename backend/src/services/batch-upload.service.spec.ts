@@ -0,0 +1,90 @@
+import * as AdmZip from 'adm-zip';
+import { BatchUploadService } from './batch-upload.service';
+
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+function upload(originalname: string, buffer: Buffer, mimetype: string): Express.Multer.File {
+  return { fieldname: 'files', originalname, encoding: '7bit', mimetype, size: buffer.length, buffer } as Express.Multer.File;
+}
+
+function zipUpload(files: Record<string, Buffer>, originalname = 'bills.zip'): Express.Multer.File {
+  const zip = new AdmZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.addFile(name, content);
+  }
+  return upload(originalname, zip.toBuffer(), 'application/zip');
+}
+
+// Rewrite the uncompressed size the archive declares for its entries
+function declareSize(archive: Express.Multer.File, size: number): void {
+  const { buffer } = archive;
+  for (let offset = 0; offset + 4 <= buffer.length; offset++) {
+    const signature = buffer.readUInt32LE(offset);
+    if (signature === LOCAL_HEADER_SIGNATURE) buffer.writeUInt32LE(size, offset + 22);
+    if (signature === CENTRAL_HEADER_SIGNATURE) buffer.writeUInt32LE(size, offset + 24);
+  }
+}
+
+describe('BatchUploadService', () => {
+  let processMedicalBillUpload: jest.Mock;
+  let service: BatchUploadService;
+
+  beforeEach(() => {
+    processMedicalBillUpload = jest.fn().mockImplementation(async (file: Express.Multer.File) => ({
+      parsedFile: { id: 1 },
+      medicalBill: { id: file.size },
+      confidence: 90,
+    }));
+    service = new BatchUploadService({ processMedicalBillUpload } as any);
+  });
+
+  it('processes plain files and the entries of ZIP archives', async () => {
+    const report = await service.processBatch([
+      upload('receipt.png', Buffer.from('png'), 'image/png'),
+      zipUpload({ 'scans/bill-1.jpg': Buffer.from('first bill'), 'notes.txt': Buffer.from('notes'), '__MACOSX/._bill-1.jpg': Buffer.from('x') }),
+    ], {});
+
+    expect(report).toMatchObject({ total: 3, succeeded: 2, failed: 1 });
+    expect(report.results.map(result => [result.fileName, result.archiveName, result.success])).toEqual([
+      ['receipt.png', undefined, true],
+      ['notes.txt', 'bills.zip', false],
+      ['bill-1.jpg', 'bills.zip', true],
+    ]);
+    expect(processMedicalBillUpload).toHaveBeenCalledWith(
+      expect.objectContaining({ originalname: 'bill-1.jpg', mimetype: 'image/jpeg', buffer: Buffer.from('first bill') }),
+      {},
+      {},
+    );
+  });
+
+  it('does not inflate entries that declare no extracted size', async () => {
+    const archive = zipUpload({ 'bill.png': Buffer.alloc(64 * 1024) });
+    declareSize(archive, 0);
+
+    const report = await service.processBatch([archive], {});
+
+    expect(report.results).toEqual([expect.objectContaining({ fileName: 'bill.png', success: false, error: 'ZIP entry does not declare its extracted size' })]);
+    expect(processMedicalBillUpload).not.toHaveBeenCalled();
+  });
+
+  it('does not inflate entries past their declared size', async () => {
+    const archive = zipUpload({ 'bill.png': Buffer.alloc(64 * 1024) });
+    declareSize(archive, 1024);
+
+    const report = await service.processBatch([archive], {});
+
+    expect(report.results).toEqual([expect.objectContaining({ fileName: 'bill.png', success: false })]);
+    expect(report.results[0].error).toMatch(/^Could not extract file from ZIP archive/);
+    expect(processMedicalBillUpload).not.toHaveBeenCalled();
+  });
+
+  it('rejects archives that extract past the batch limit', async () => {
+    const archive = zipUpload({ 'bill.png': Buffer.alloc(1024) });
+    declareSize(archive, 250 * 1024 * 1024);
+
+    const report = await service.processBatch([archive], {});
+
+    expect(report.results).toEqual([expect.objectContaining({ fileName: 'bills.zip', success: false, error: 'ZIP archive is too large once extracted' })]);
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { memoryStorage } from 'multer';
+import * as AdmZip from 'adm-zip';
+import * as path from 'path';
+import { UploadPipelineService, UploadRequestInfo, UploadRequestOptions } from './upload-pipeline.service';
+
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed', 'multipart/x-zip'];
+
+// Extension based MIME lookup for files pulled out of ZIP archives
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+};
+
+const MAX_BATCH_FILES = 20;
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // Same limit as single uploads
+const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = 200;
+// Uploads are held in memory, so the whole request is capped, not just each file
+const MAX_BATCH_REQUEST_SIZE = 100 * 1024 * 1024;
+// Plain files plus the extracted contents of every archive in the batch
+const MAX_BATCH_UNCOMPRESSED_SIZE = 200 * 1024 * 1024;
+
+// Configure multer for batch uploads (individual bills and/or ZIP archives)
+export const batchUploadMulterConfig = {
+  storage: memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    const contentLength = parseInt(req.headers['content-length'], 10);
+    if (!(contentLength <= MAX_BATCH_REQUEST_SIZE)) {
+      cb(new BadRequestException(`Batch uploads are limited to ${MAX_BATCH_REQUEST_SIZE / (1024 * 1024)}MB per request (Content-Length required)`), false);
+      return;
+    }
+
+    const allowedMimeTypes = [...Object.values(EXTENSION_MIME_TYPES), 'image/jpg', ...ZIP_MIME_TYPES];
+
+    if (allowedMimeTypes.includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.zip')) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestException(`Invalid file type for "${file.originalname}". Only images, PDFs and ZIP archives are allowed.`), false);
+    }
+  },
+  limits: {
+    fileSize: MAX_ARCHIVE_SIZE,
+    files: MAX_BATCH_FILES,
+  },
+};
+
+export interface BatchFileResult {
+  fileName: string;
+  archiveName?: string; // ZIP the file was extracted from
+  success: boolean;
+  medicalBillId?: number;
+  parsedFileId?: number;
+  confidence?: number;
+  duplicateOf?: number; // Existing bill this file duplicates
+  duplicateMatchType?: string;
+  imageQuality?: string; // high / medium / low / poor, for images
+  qualityIssues?: string[]; // What to fix when retaking the photo
+  validationErrors: string[];
+  error?: string;
+}
+
+export interface BatchUploadReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BatchFileResult[];
+}
+
+interface BatchEntry {
+  file?: Express.Multer.File;
+  zipEntry?: AdmZip.IZipEntry; // Inflated only when the entry is processed
+  mimeType?: string;
+  archiveName?: string;
+  fileName: string;
+  error?: string; // Entry rejected before processing
+}
+
+@Injectable()
+export class BatchUploadService {
+  constructor(
+    private readonly uploadPipelineService: UploadPipelineService,
+  ) {}
+
+  /**
+   * Process every uploaded file (ZIP archives are listed first, each entry is inflated
+   * when its turn comes). Files are handled one at a time and a failure only affects its own entry.
+   */
+  async processBatch(files: Express.Multer.File[], requestInfo: UploadRequestInfo, options: UploadRequestOptions = {}): Promise<BatchUploadReport> {
+    const entries: BatchEntry[] = [];
+    let batchSize = files.filter(file => !this.isZipFile(file)).reduce((sum, file) => sum + file.size, 0);
+    for (const file of files) {
+      if (this.isZipFile(file)) {
+        const archive = this.listArchive(file, MAX_BATCH_UNCOMPRESSED_SIZE - batchSize);
+        batchSize += archive.uncompressedSize;
+        entries.push(...archive.entries);
+      } else {
+        entries.push(this.toEntry(file));
+      }
+    }
+
+    const results: BatchFileResult[] = [];
+    for (const entry of entries) {
+      results.push(await this.processEntry(entry, requestInfo, options));
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    return {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  private async processEntry(entry: BatchEntry, requestInfo: UploadRequestInfo, options: UploadRequestOptions): Promise<BatchFileResult> {
+    const result: BatchFileResult = {
+      fileName: entry.fileName,
+      archiveName: entry.archiveName,
+      success: false,
+      validationErrors: [],
+    };
+
+    const { file, error } = entry.zipEntry ? this.extractEntry(entry) : entry;
+    if (error) {
+      result.error = error;
+      return result;
+    }
+
+    try {
+      const outcome = await this.uploadPipelineService.processMedicalBillUpload(file, requestInfo, options);
+      result.success = true;
+      result.medicalBillId = outcome.medicalBill.id;
+      result.parsedFileId = outcome.parsedFile.id;
+      result.confidence = outcome.confidence;
+      result.duplicateOf = outcome.duplicateOf?.medicalBillId;
+      result.duplicateMatchType = outcome.duplicateOf?.matchType;
+      result.imageQuality = outcome.imageQuality?.imageQuality;
+      result.qualityIssues = outcome.imageQuality?.issues.map(issue => issue.message);
+    } catch (error) {
+      result.error = error.message;
+      result.validationErrors = error.validationErrors || [];
+      result.duplicateOf = error.duplicateOf?.medicalBillId;
+      result.duplicateMatchType = error.duplicateOf?.matchType;
+      result.imageQuality = error.imageQuality?.imageQuality;
+    }
+
+    return result;
+  }
+
+  private toEntry(file: Express.Multer.File, archiveName?: string): BatchEntry {
+    const entry: BatchEntry = { file, archiveName, fileName: file.originalname };
+
+    if (!file.buffer || file.buffer.length === 0) {
+      entry.error = 'File is empty';
+    } else if (file.size > MAX_FILE_SIZE) {
+      entry.error = `File exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit`;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Entries of a ZIP archive, without inflating them. `remainingSize` is what is left of the
+   * batch's uncompressed size limit.
+   */
+  private listArchive(archive: Express.Multer.File, remainingSize: number): { entries: BatchEntry[]; uncompressedSize: number } {
+    let zip: AdmZip;
+    try {
+      zip = new AdmZip(archive.buffer);
+    } catch (error) {
+      return { entries: [{ fileName: archive.originalname, error: `Invalid ZIP archive: ${error.message}` }], uncompressedSize: 0 };
+    }
+
+    // Skip directories and OS metadata (__MACOSX/, .DS_Store, ...)
+    const zipEntries = zip.getEntries().filter(zipEntry =>
+      !zipEntry.isDirectory &&
+      !zipEntry.entryName.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX')
+    );
+
+    if (zipEntries.length > MAX_ARCHIVE_ENTRIES) {
+      return { entries: [{ fileName: archive.originalname, error: `ZIP archive contains more than ${MAX_ARCHIVE_ENTRIES} files` }], uncompressedSize: 0 };
+    }
+
+    // Guard against zip bombs before inflating anything
+    const uncompressedSize = zipEntries.reduce((sum, zipEntry) => sum + zipEntry.header.size, 0);
+    if (uncompressedSize > remainingSize) {
+      return { entries: [{ fileName: archive.originalname, error: 'ZIP archive is too large once extracted' }], uncompressedSize: 0 };
+    }
+
+    const entries = zipEntries.map((zipEntry): BatchEntry => {
+      const fileName = path.basename(zipEntry.entryName);
+      const mimeType = EXTENSION_MIME_TYPES[path.extname(fileName).toLowerCase()];
+
+      if (!mimeType) {
+        return { fileName, archiveName: archive.originalname, error: 'Unsupported file type inside ZIP archive' };
+      }
+      // adm-zip caps inflation at the declared size, except when that size is 0
+      if (zipEntry.header.size === 0 && zipEntry.header.compressedSize > 0) {
+        return { fileName, archiveName: archive.originalname, error: 'ZIP entry does not declare its extracted size' };
+      }
+      if (zipEntry.header.size > MAX_FILE_SIZE) {
+        return { fileName, archiveName: archive.originalname, error: `File exceeds the ${MAX_FILE_SIZE / (1024 * 1024)}MB limit` };
+      }
+      return { fileName, archiveName: archive.originalname, zipEntry, mimeType };
+    });
+
+    return { entries, uncompressedSize };
+  }
+
+  /**
+   * Inflate a listed ZIP entry. The buffer lives only as long as the entry is being processed.
+   */
+  private extractEntry(entry: BatchEntry): BatchEntry {
+    let buffer: Buffer;
+    try {
+      buffer = entry.zipEntry.getData();
+    } catch (error) {
+      return { ...entry, error: `Could not extract file from ZIP archive: ${error.message}` };
+    }
+
+    const file = {
+      fieldname: 'files',
+      originalname: entry.fileName,
+      encoding: '7bit',
+      mimetype: entry.mimeType,
+      size: buffer.length,
+      buffer,
+    } as Express.Multer.File;
+
+    return this.toEntry(file, entry.archiveName);
+  }
+
+  private isZipFile(file: Express.Multer.File): boolean {
+    return ZIP_MIME_TYPES.includes(file.mimetype) || file.originalname.toLowerCase().endsWith('.zip');
+  }
+}
@@ -3,6 +3,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { BillData, BillType, BillStatus } from '../entities/bill-data.entity';
 import { ParsedFile } from '../entities/parsed-file.entity';
+import { BillStatusWorkflowService } from './bill-status-workflow.service';
+import { DocumentService } from './document.service';
 
 @Injectable()
 export class BillExtractionService {
@@ -11,6 +13,8 @@ export class BillExtractionService {
     private billDataRepository: Repository<BillData>,
     @InjectRepository(ParsedFile)
     private parsedFileRepository: Repository<ParsedFile>,
+    private billStatusWorkflowService: BillStatusWorkflowService,
+    private documentService: DocumentService,
   ) {}
 
   async extractAndStoreBillData(parsedFile: ParsedFile): Promise<BillData> {
@@ -51,6 +55,8 @@ export class BillExtractionService {
 
       // Save to database
       const savedBillData = await this.billDataRepository.save(billData);
+      await this.billStatusWorkflowService.recordInitialStatus(savedBillData);
+      await this.documentService.syncBillData(savedBillData);
       // console.log(`✅ Bill data extracted and saved with ID: ${savedBillData.id}`);
 
       return savedBillData;
@@ -429,20 +435,6 @@ export class BillExtractionService {
     });
   }
 
-  async updateBillStatus(id: number, status: BillStatus, notes?: string): Promise<BillData> {
-    const billData = await this.billDataRepository.findOne({ where: { id } });
-    if (!billData) {
-      throw new Error('Bill data not found');
-    }
-
-    billData.billStatus = status;
-    if (notes) {
-      billData.notes = notes;
-    }
-
-    return await this.billDataRepository.save(billData);
-  }
-
   async getBillDataByType(billType: BillType): Promise<BillData[]> {
     return await this.billDataRepository.find({
       where: { billType },
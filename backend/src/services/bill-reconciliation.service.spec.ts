@@ -0,0 +1,112 @@
+import { MedicalBillDto, MedicalBillItemDto } from '../dto/medical-bill.dto';
+import { BillReconciliationService } from './bill-reconciliation.service';
+
+function item(qty: number, rate: number, amount: number): MedicalBillItemDto {
+  return { sNo: 1, itemDescription: 'Paracetamol 500mg', pack: '10s', mrp: rate, batchNo: 'B1', exp: '12/26', qty, rate, amount };
+}
+
+// 2 x 25 + 1 x 120.5 = 170.5, less 10 discount, rounded off to 161
+function bill(values: Partial<MedicalBillDto> = {}): MedicalBillDto {
+  return {
+    items: [item(2, 25, 50), item(1, 120.5, 120.5)],
+    totalQty: 3,
+    subTotal: 170.5,
+    lessDiscount: 10,
+    otherAdj: 0,
+    roundOff: 0.5,
+    grandTotal: 161,
+    ...values,
+  } as MedicalBillDto;
+}
+
+describe('BillReconciliationService', () => {
+  const service = new BillReconciliationService();
+
+  it('leaves a bill whose totals match alone', () => {
+    const original = bill();
+
+    const { bill: reconciled, corrections } = service.reconcile(original);
+
+    expect(corrections).toEqual([]);
+    expect(reconciled).toEqual(original);
+    expect(reconciled).not.toBe(original);
+  });
+
+  it('corrects a misread grand total', () => {
+    const { bill: reconciled, corrections } = service.reconcile(bill({ grandTotal: 181 }));
+
+    expect(corrections).toEqual([{
+      field: 'grandTotal',
+      originalValue: 181,
+      suggestedValue: 161,
+      rule: 'totals-equation',
+      status: 'applied',
+      reason: 'Only single-digit OCR correction that makes sub total - discount + adjustments +/- round off = grand total',
+    }]);
+    expect(reconciled.grandTotal).toBe(161);
+  });
+
+  it('corrects a misread sub total', () => {
+    const { bill: reconciled, corrections } = service.reconcile(bill({ subTotal: 178.5 }));
+
+    expect(corrections.map(correction => [correction.field, correction.suggestedValue, correction.rule, correction.status])).toEqual([
+      ['subTotal', 170.5, 'items-sum', 'applied'],
+    ]);
+    expect(reconciled.subTotal).toBe(170.5);
+  });
+
+  it('corrects a misread item quantity without changing the input', () => {
+    const original = bill({ items: [item(7, 25, 50), item(1, 120.5, 120.5)] });
+
+    const { bill: reconciled, corrections } = service.reconcile(original);
+
+    expect(corrections.map(correction => [correction.field, correction.originalValue, correction.suggestedValue, correction.status])).toEqual([
+      ['items[0].qty', 7, 2, 'applied'],
+    ]);
+    expect(reconciled.items[0].qty).toBe(2);
+    expect(original.items[0].qty).toBe(7);
+  });
+
+  it('uses the sub total to choose between item corrections', () => {
+    // 1 x 30 = 80: either the rate (80) or the amount (30) was misread; the sub total says 80
+    const { bill: reconciled, corrections } = service.reconcile(bill({ items: [item(1, 30, 80)], totalQty: 1, subTotal: 80, lessDiscount: 0, roundOff: 0, grandTotal: 80 }));
+
+    expect(corrections.map(correction => [correction.field, correction.suggestedValue, correction.status])).toEqual([['items[0].rate', 80, 'applied']]);
+    expect(reconciled.items[0]).toMatchObject({ rate: 80, amount: 80 });
+  });
+
+  it('only suggests corrections when several are equally likely', () => {
+    const original = bill({ items: [item(1, 30, 80)], totalQty: 0, subTotal: 0, grandTotal: 0 });
+
+    const { bill: reconciled, corrections } = service.reconcile(original);
+
+    expect(corrections.map(correction => [correction.field, correction.suggestedValue, correction.status])).toEqual([
+      ['items[0].rate', 80, 'suggested'],
+      ['items[0].amount', 30, 'suggested'],
+    ]);
+    expect(corrections[0].reason).toBe('One of 2 possible OCR corrections that make qty x rate = amount');
+    expect(reconciled).toEqual(original);
+  });
+
+  it('suggests nothing when no single-digit correction restores the totals', () => {
+    const { bill: reconciled, corrections } = service.reconcile(bill({ grandTotal: 999 }));
+
+    expect(corrections).toEqual([]);
+    expect(reconciled.grandTotal).toBe(999);
+  });
+
+  describe('missing totals', () => {
+    it('skips the totals checks without a sub total or grand total', () => {
+      expect(service.reconcile(bill({ subTotal: 0 })).corrections).toEqual([]);
+      expect(service.reconcile(bill({ grandTotal: 0, subTotal: 178.5 })).corrections.map(correction => correction.rule)).toEqual(['items-sum']);
+    });
+
+    it('skips the items sum when an item amount is missing', () => {
+      expect(service.reconcile(bill({ items: [item(2, 25, 50), item(1, 120.5, 0)], subTotal: 178.5, grandTotal: 0 })).corrections).toEqual([]);
+    });
+
+    it('handles bills without items', () => {
+      expect(service.reconcile({ subTotal: 100, grandTotal: 100 } as MedicalBillDto)).toEqual({ bill: { subTotal: 100, grandTotal: 100, items: [] }, corrections: [] });
+    });
+  });
+});
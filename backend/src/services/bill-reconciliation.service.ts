@@ -0,0 +1,255 @@
+import { Injectable } from '@nestjs/common';
+import { MedicalBillDto } from '../dto/medical-bill.dto';
+import { itemAmountTolerance, totalTolerance } from './medical-bill-validation.service';
+
+export interface OcrCorrection {
+  field: string; // e.g. 'items[1].rate' or 'grandTotal'
+  originalValue: number;
+  suggestedValue: number;
+  rule: string; // Consistency rule the correction restores
+  status: 'applied' | 'suggested'; // Only unambiguous corrections are applied
+  reason: string;
+}
+
+export interface ReconciliationResult {
+  bill: MedicalBillDto; // Copy with the applied corrections
+  corrections: OcrCorrection[];
+}
+
+interface Candidate {
+  field: string;
+  originalValue: number;
+  suggestedValue: number;
+}
+
+// Digits Tesseract commonly confuses on printed bills (kept symmetric)
+const DIGIT_CONFUSIONS: Record<string, string[]> = {
+  '0': ['6', '8', '9'],
+  '1': ['4', '7'],
+  '2': ['3', '7'],
+  '3': ['2', '5', '8'],
+  '4': ['1', '9'],
+  '5': ['3', '6', '8'],
+  '6': ['0', '5', '8'],
+  '7': ['1', '2'],
+  '8': ['0', '3', '5', '6'],
+  '9': ['0', '4'],
+};
+
+/**
+ * Uses the bill's own arithmetic (qty x rate = amount, items add up to the sub total,
+ * the totals equation) to find values that look like single-digit OCR misreads.
+ * A correction is applied only when exactly one candidate restores consistency;
+ * every candidate is returned so reviewers can see what was changed or proposed.
+ */
+@Injectable()
+export class BillReconciliationService {
+  reconcile(medicalBillData: MedicalBillDto): ReconciliationResult {
+    const bill: MedicalBillDto = { ...medicalBillData, items: (medicalBillData.items || []).map(item => ({ ...item })) };
+    const corrections: OcrCorrection[] = [];
+
+    this.reconcileItems(bill, corrections);
+    this.reconcileItemsSum(bill, corrections);
+    this.reconcileTotals(bill, corrections);
+
+    return { bill, corrections };
+  }
+
+  /**
+   * qty x rate = amount for each item; quantities/sub total break ties between candidates
+   */
+  private reconcileItems(bill: MedicalBillDto, corrections: OcrCorrection[]): void {
+    bill.items.forEach((item, index) => {
+      const qty = this.toNumber(item.qty);
+      const rate = this.toNumber(item.rate);
+      const amount = this.toNumber(item.amount);
+      if (!qty || !rate || !amount || this.matches(qty * rate, amount, itemAmountTolerance())) return;
+
+      let candidates: Candidate[] = [
+        ...this.digitVariants(qty)
+          .filter(value => Number.isInteger(value) && this.matches(value * rate, amount, itemAmountTolerance()))
+          .map(value => ({ field: `items[${index}].qty`, originalValue: qty, suggestedValue: value })),
+        ...this.digitVariants(rate)
+          .filter(value => this.matches(qty * value, amount, itemAmountTolerance()))
+          .map(value => ({ field: `items[${index}].rate`, originalValue: rate, suggestedValue: value })),
+        ...this.digitVariants(amount)
+          .filter(value => this.matches(qty * rate, value, itemAmountTolerance()))
+          .map(value => ({ field: `items[${index}].amount`, originalValue: amount, suggestedValue: value })),
+      ];
+
+      if (candidates.length > 1) {
+        candidates = this.narrow(candidates, candidate => this.isConsistentWithBillTotals(bill, candidate));
+      }
+
+      this.record(bill, corrections, candidates, 'item-amount', 'qty x rate = amount');
+    });
+  }
+
+  /**
+   * Items add up to the sub total - the sub total itself or one item amount may be misread
+   */
+  private reconcileItemsSum(bill: MedicalBillDto, corrections: OcrCorrection[]): void {
+    const subTotal = this.toNumber(bill.subTotal);
+    const amounts = bill.items.map(item => this.toNumber(item.amount));
+    if (!subTotal || amounts.length === 0 || amounts.some(amount => !amount)) return;
+
+    const sum = amounts.reduce((total, amount) => total + amount, 0);
+    if (this.matches(sum, subTotal, totalTolerance())) return;
+
+    let candidates: Candidate[] = this.digitVariants(subTotal)
+      .filter(value => this.matches(sum, value, totalTolerance()))
+      .map(value => ({ field: 'subTotal', originalValue: subTotal, suggestedValue: value }));
+
+    bill.items.forEach((item, index) => {
+      const amount = amounts[index];
+      const qty = this.toNumber(item.qty);
+      const rate = this.toNumber(item.rate);
+      // An amount that already equals qty x rate is corroborated - don't second-guess it
+      if (qty && rate && this.matches(qty * rate, amount, itemAmountTolerance())) return;
+
+      for (const value of this.digitVariants(amount)) {
+        if (this.matches(sum - amount + value, subTotal, totalTolerance())) {
+          candidates.push({ field: `items[${index}].amount`, originalValue: amount, suggestedValue: value });
+        }
+      }
+    });
+
+    if (candidates.length > 1) {
+      candidates = this.narrow(candidates, candidate => this.isConsistentWithBillTotals(bill, candidate));
+    }
+
+    this.record(bill, corrections, candidates, 'items-sum', 'item amounts add up to the sub total');
+  }
+
+  /**
+   * subTotal - lessDiscount + otherAdj +/- roundOff = grandTotal
+   */
+  private reconcileTotals(bill: MedicalBillDto, corrections: OcrCorrection[]): void {
+    const subTotal = this.toNumber(bill.subTotal);
+    const grandTotal = this.toNumber(bill.grandTotal);
+    if (!subTotal || !grandTotal || this.totalsBalance(bill)) return;
+
+    let candidates: Candidate[] = [
+      ...this.digitVariants(grandTotal)
+        .filter(value => this.totalsBalance({ ...bill, grandTotal: value }))
+        .map(value => ({ field: 'grandTotal', originalValue: grandTotal, suggestedValue: value })),
+      ...this.digitVariants(subTotal)
+        .filter(value => this.totalsBalance({ ...bill, subTotal: value }))
+        .map(value => ({ field: 'subTotal', originalValue: subTotal, suggestedValue: value })),
+    ];
+
+    if (candidates.length > 1) {
+      candidates = this.narrow(candidates, candidate => this.isConsistentWithBillTotals(bill, candidate));
+    }
+
+    this.record(bill, corrections, candidates, 'totals-equation', 'sub total - discount + adjustments +/- round off = grand total');
+  }
+
+  /**
+   * Apply a lone candidate; list several as suggestions without touching the bill
+   */
+  private record(bill: MedicalBillDto, corrections: OcrCorrection[], candidates: Candidate[], rule: string, relation: string): void {
+    if (candidates.length === 0) return;
+
+    if (candidates.length === 1) {
+      const [candidate] = candidates;
+      this.setValue(bill, candidate.field, candidate.suggestedValue);
+      corrections.push({
+        ...candidate,
+        rule,
+        status: 'applied',
+        reason: `Only single-digit OCR correction that makes ${relation}`,
+      });
+      return;
+    }
+
+    for (const candidate of candidates) {
+      corrections.push({
+        ...candidate,
+        rule,
+        status: 'suggested',
+        reason: `One of ${candidates.length} possible OCR corrections that make ${relation}`,
+      });
+    }
+  }
+
+  /**
+   * Keep the candidates that pass the tie-breaker, unless none do
+   */
+  private narrow(candidates: Candidate[], predicate: (candidate: Candidate) => boolean): Candidate[] {
+    const narrowed = candidates.filter(predicate);
+    return narrowed.length > 0 ? narrowed : candidates;
+  }
+
+  /**
+   * Does the bill, with this candidate applied, agree with the printed sub total, total quantity and totals equation?
+   */
+  private isConsistentWithBillTotals(bill: MedicalBillDto, candidate: Candidate): boolean {
+    const patched: MedicalBillDto = { ...bill, items: bill.items.map(item => ({ ...item })) };
+    this.setValue(patched, candidate.field, candidate.suggestedValue);
+
+    const amounts = patched.items.map(item => this.toNumber(item.amount));
+    const subTotal = this.toNumber(patched.subTotal);
+    if (subTotal && amounts.length > 0 && amounts.every(amount => amount > 0)) {
+      if (!this.matches(amounts.reduce((total, amount) => total + amount, 0), subTotal, totalTolerance())) return false;
+    }
+
+    const totalQty = this.toNumber(patched.totalQty);
+    if (totalQty && candidate.field.endsWith('.qty')) {
+      if (patched.items.reduce((total, item) => total + this.toNumber(item.qty), 0) !== totalQty) return false;
+    }
+
+    if (subTotal && this.toNumber(patched.grandTotal)) {
+      return this.totalsBalance(patched);
+    }
+    return true;
+  }
+
+  private totalsBalance(bill: MedicalBillDto): boolean {
+    const base = this.toNumber(bill.subTotal) - this.toNumber(bill.lessDiscount) + this.toNumber(bill.otherAdj);
+    const roundOff = Math.abs(this.toNumber(bill.roundOff));
+    const grandTotal = this.toNumber(bill.grandTotal);
+    return this.matches(base + roundOff, grandTotal, totalTolerance()) || this.matches(base - roundOff, grandTotal, totalTolerance());
+  }
+
+  /**
+   * Every value that differs from the printed one by a single confusable digit
+   */
+  private digitVariants(value: number): number[] {
+    const printed = Number.isInteger(value) ? String(value) : value.toFixed(2);
+    const variants = new Set<number>();
+
+    for (let position = 0; position < printed.length; position++) {
+      for (const replacement of DIGIT_CONFUSIONS[printed[position]] || []) {
+        const variant = printed.substring(0, position) + replacement + printed.substring(position + 1);
+        // A leading zero would have been printed differently
+        if (/^0\d/.test(variant)) continue;
+
+        const parsed = parseFloat(variant);
+        if (parsed > 0 && parsed !== value) {
+          variants.add(parsed);
+        }
+      }
+    }
+
+    return [...variants];
+  }
+
+  private setValue(bill: MedicalBillDto, field: string, value: number): void {
+    const itemMatch = field.match(/^items\[(\d+)\]\.(\w+)$/);
+    if (itemMatch) {
+      bill.items[Number(itemMatch[1])][itemMatch[2]] = value;
+    } else {
+      bill[field] = value;
+    }
+  }
+
+  private matches(actual: number, expected: number, tolerance: number): boolean {
+    return Math.abs(actual - expected) <= tolerance;
+  }
+
+  private toNumber(value: any): number {
+    const num = Number(value);
+    return isNaN(num) ? 0 : num;
+  }
+}
@@ -0,0 +1,108 @@
+import { DataSource } from 'typeorm';
+import { buildDataSourceOptions } from '../database.config';
+import { MigrationRunner } from '../migrations/migration-runner';
+import { ParsedFile, FileType } from '../entities/parsed-file.entity';
+import { BillData, BillStatus, BillType } from '../entities/bill-data.entity';
+import { BillStatusChange } from '../entities/bill-status-change.entity';
+import { Document, DocumentSource } from '../entities/document.entity';
+import { DocumentService } from './document.service';
+import { BILL_STATUS_TRANSITIONS, BillStatusTransitionError, BillStatusWorkflowService } from './bill-status-workflow.service';
+
+describe('BILL_STATUS_TRANSITIONS', () => {
+  const statuses = Object.values(BillStatus);
+
+  it('covers every status and only moves to known statuses', () => {
+    expect(Object.keys(BILL_STATUS_TRANSITIONS).sort()).toEqual([...statuses].sort());
+    for (const [from, targets] of Object.entries(BILL_STATUS_TRANSITIONS)) {
+      expect(targets.every(to => statuses.includes(to) && to !== from)).toBe(true);
+    }
+  });
+
+  it('makes approved final and lets rejected bills be reopened', () => {
+    expect(BILL_STATUS_TRANSITIONS[BillStatus.APPROVED]).toEqual([]);
+    expect(BILL_STATUS_TRANSITIONS[BillStatus.REJECTED]).toContain(BillStatus.PENDING);
+  });
+
+  it('reaches approved from pending', () => {
+    const reachable = new Set<BillStatus>([BillStatus.PENDING]);
+    for (const status of reachable) {
+      BILL_STATUS_TRANSITIONS[status].forEach(to => reachable.add(to));
+    }
+    expect(reachable.has(BillStatus.APPROVED)).toBe(true);
+  });
+});
+
+describe('BillStatusWorkflowService', () => {
+  let dataSource: DataSource;
+  let service: BillStatusWorkflowService;
+  let parsedFile: ParsedFile;
+
+  beforeAll(async () => {
+    dataSource = await new DataSource(buildDataSourceOptions()).initialize();
+    await new MigrationRunner(dataSource).run();
+    service = new BillStatusWorkflowService(
+      dataSource.getRepository(BillData),
+      dataSource.getRepository(BillStatusChange),
+      new DocumentService(dataSource.getRepository(Document)),
+    );
+    parsedFile = await dataSource.getRepository(ParsedFile).save({
+      filename: 'invoice.pdf',
+      originalName: 'invoice.pdf',
+      fileType: FileType.PDF,
+      mimeType: 'application/pdf',
+      fileSize: 2048,
+      filePath: 'local://invoice.pdf',
+    });
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  async function createBill(values: Partial<BillData> = {}): Promise<BillData> {
+    return await dataSource.getRepository(BillData).save({
+      processedFileId: parsedFile.id,
+      billType: BillType.INVOICE,
+      billStatus: BillStatus.PENDING,
+      ...values,
+    });
+  }
+
+  it('changes the status, logs the change and updates the document', async () => {
+    const bill = await createBill();
+
+    const updated = await service.transition(bill.id, BillStatus.PROCESSED, 'alice');
+
+    expect(updated.billStatus).toBe(BillStatus.PROCESSED);
+    const history = await service.getHistory(bill.id);
+    expect(history.map(change => [change.fromStatus, change.toStatus, change.actor])).toEqual([[BillStatus.PENDING, BillStatus.PROCESSED, 'alice']]);
+    const document = await dataSource.getRepository(Document).findOneBy({ sourceTable: DocumentSource.BILL_DATA, sourceId: bill.id });
+    expect(document.status).toBe(BillStatus.PROCESSED);
+  });
+
+  it('refuses transitions that are not allowed from the current status', async () => {
+    const bill = await createBill();
+
+    await expect(service.transition(bill.id, BillStatus.APPROVED)).rejects.toThrow(BillStatusTransitionError);
+    await expect(service.transition(bill.id, BillStatus.APPROVED)).rejects.toThrow('allowed: processed, rejected');
+    expect(await service.getHistory(bill.id)).toEqual([]);
+  });
+
+  it('requires notes to reject a bill', async () => {
+    const bill = await createBill();
+
+    await expect(service.transition(bill.id, BillStatus.REJECTED, 'alice', '  ')).rejects.toThrow('Notes are required');
+    const rejected = await service.transition(bill.id, BillStatus.REJECTED, 'alice', 'Duplicate of #12');
+    expect(rejected.notes).toBe('Duplicate of #12');
+  });
+
+  it('does not approve a bill with validation errors', async () => {
+    const bill = await createBill({ billStatus: BillStatus.VERIFIED, validationErrors: ['Total does not match line items'] });
+
+    await expect(service.transition(bill.id, BillStatus.APPROVED)).rejects.toThrow('validation errors');
+  });
+
+  it('returns null for an unknown bill', async () => {
+    expect(await service.transition(999999, BillStatus.PROCESSED)).toBeNull();
+  });
+});
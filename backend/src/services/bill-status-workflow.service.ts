@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BillData, BillStatus } from '../entities/bill-data.entity';
+import { BillStatusChange } from '../entities/bill-status-change.entity';
+import { DocumentService } from './document.service';
+
+/**
+ * Statuses each status may move to. Approved is final; a rejected bill can be reopened
+ * for processing again.
+ */
+export const BILL_STATUS_TRANSITIONS: Record<BillStatus, BillStatus[]> = {
+  [BillStatus.PENDING]: [BillStatus.PROCESSED, BillStatus.REJECTED],
+  [BillStatus.PROCESSED]: [BillStatus.VERIFIED, BillStatus.REJECTED],
+  [BillStatus.VERIFIED]: [BillStatus.APPROVED, BillStatus.PROCESSED, BillStatus.REJECTED],
+  [BillStatus.APPROVED]: [],
+  [BillStatus.REJECTED]: [BillStatus.PENDING, BillStatus.PROCESSED],
+};
+
+interface BillStatusGuard {
+  to: BillStatus;
+  check: (billData: BillData, notes?: string) => string | null; // Reason the transition is blocked, or null
+}
+
+// Conditions checked on top of BILL_STATUS_TRANSITIONS - add new guards here
+const BILL_STATUS_GUARDS: BillStatusGuard[] = [
+  {
+    to: BillStatus.REJECTED,
+    check: (_billData, notes) => notes?.trim() ? null : 'Notes are required when rejecting a bill',
+  },
+  {
+    to: BillStatus.APPROVED,
+    check: billData => hasValidationErrors(billData.validationErrors)
+      ? 'A bill with validation errors cannot be approved'
+      : null,
+  },
+];
+
+function hasValidationErrors(validationErrors: any): boolean {
+  if (!validationErrors) {
+    return false;
+  }
+  return Array.isArray(validationErrors) ? validationErrors.length > 0 : Object.keys(validationErrors).length > 0;
+}
+
+/**
+ * Raised when a status change is not allowed from the bill's current status or a guard blocks it
+ */
+export class BillStatusTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillStatusTransitionError';
+  }
+}
+
+/**
+ * Moves bills through BillStatus along BILL_STATUS_TRANSITIONS and keeps an audit log
+ * of every change in bill_status_changes.
+ */
+@Injectable()
+export class BillStatusWorkflowService {
+  constructor(
+    @InjectRepository(BillData)
+    private billDataRepository: Repository<BillData>,
+    @InjectRepository(BillStatusChange)
+    private billStatusChangeRepository: Repository<BillStatusChange>,
+    private documentService: DocumentService,
+  ) {}
+
+  allowedTransitions(status: BillStatus): BillStatus[] {
+    return BILL_STATUS_TRANSITIONS[status] || [];
+  }
+
+  /**
+   * Change a bill's status. Returns null if the bill does not exist.
+   */
+  async transition(billDataId: number, to: BillStatus, actor?: string, notes?: string): Promise<BillData | null> {
+    const billData = await this.billDataRepository.findOne({ where: { id: billDataId } });
+    if (!billData) {
+      return null;
+    }
+
+    const from = billData.billStatus;
+    if (!this.allowedTransitions(from).includes(to)) {
+      const allowed = this.allowedTransitions(from);
+      throw new BillStatusTransitionError(
+        `Cannot change bill ${billDataId} from ${from} to ${to}` +
+        (allowed.length ? ` (allowed: ${allowed.join(', ')})` : ` (${from} is final)`)
+      );
+    }
+
+    for (const guard of BILL_STATUS_GUARDS.filter(guard => guard.to === to)) {
+      const blocked = guard.check(billData, notes);
+      if (blocked) {
+        throw new BillStatusTransitionError(blocked);
+      }
+    }
+
+    await this.billDataRepository.manager.transaction(async manager => {
+      // Conditional update so a concurrent change can't be overwritten
+      const update = await manager.update(BillData,
+        { id: billDataId, billStatus: from },
+        { billStatus: to, ...(notes ? { notes } : {}) }
+      );
+      if (!update.affected) {
+        throw new BillStatusTransitionError(`Bill ${billDataId} was changed by someone else; reload it and try again`);
+      }
+
+      await manager.save(BillStatusChange, manager.create(BillStatusChange, {
+        billDataId,
+        fromStatus: from,
+        toStatus: to,
+        actor: actor || null,
+        notes: notes || null,
+      }));
+
+      await this.documentService.syncBillData(await manager.findOne(BillData, { where: { id: billDataId } }), manager);
+    });
+
+    return await this.billDataRepository.findOne({ where: { id: billDataId } });
+  }
+
+  /**
+   * Log the status a new bill was created with
+   */
+  async recordInitialStatus(billData: BillData, actor = 'system'): Promise<BillStatusChange> {
+    return await this.billStatusChangeRepository.save(this.billStatusChangeRepository.create({
+      billDataId: billData.id,
+      fromStatus: null,
+      toStatus: billData.billStatus,
+      actor,
+    }));
+  }
+
+  /**
+   * Status changes of a bill, oldest first
+   */
+  async getHistory(billDataId: number): Promise<BillStatusChange[]> {
+    return await this.billStatusChangeRepository.find({
+      where: { billDataId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+}
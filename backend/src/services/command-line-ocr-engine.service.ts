@@ -0,0 +1,137 @@
+import { Injectable } from '@nestjs/common';
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { OcrEngine, OcrEngineResult, OcrLine, OcrWord } from './ocr-engine.interface';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Runs a local OCR binary configured through OCR_CLI_COMMAND, e.g.
+ * `tesseract {input} stdout tsv`. `{input}` is replaced by the path of a temporary PNG
+ * (appended when missing). No shell is involved - arguments are split on whitespace.
+ *
+ * stdout may be JSON ({ text, confidence?, lines? }), Tesseract TSV, or plain text;
+ * plain text has no per-word confidences, so every line gets OCR_CLI_DEFAULT_CONFIDENCE.
+ */
+@Injectable()
+export class CommandLineOcrEngine implements OcrEngine {
+  readonly name = process.env.OCR_CLI_NAME || 'cli';
+  readonly version = 'cli';
+  readonly language = 'eng';
+
+  private readonly command = (process.env.OCR_CLI_COMMAND || '').trim();
+  private readonly timeoutMs = parseInt(process.env.OCR_CLI_TIMEOUT_MS) || 60000;
+  private readonly defaultConfidence = parseFloat(process.env.OCR_CLI_DEFAULT_CONFIDENCE) || 50;
+
+  async isAvailable(): Promise<boolean> {
+    return this.command.length > 0;
+  }
+
+  async recognize(imageBuffer: Buffer): Promise<OcrEngineResult> {
+    if (!(await this.isAvailable())) {
+      throw new Error('Command-line OCR is not configured. Set OCR_CLI_COMMAND.');
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ocr-cli-'));
+    const inputPath = path.join(workDir, `${crypto.randomBytes(8).toString('hex')}.png`);
+
+    const [binary, ...args] = this.command.split(/\s+/);
+    const resolvedArgs = args.includes('{input}')
+      ? args.map(arg => arg === '{input}' ? inputPath : arg)
+      : [...args, inputPath];
+
+    try {
+      await fs.promises.writeFile(inputPath, imageBuffer);
+      const { stdout } = await execFileAsync(binary, resolvedArgs, { timeout: this.timeoutMs, maxBuffer: 20 * 1024 * 1024 });
+      return this.parseOutput(stdout.toString());
+    } catch (error) {
+      throw new Error(`Command-line OCR (${binary}) failed: ${error.message}`);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  private parseOutput(stdout: string): OcrEngineResult {
+    const output = stdout.trim();
+
+    if (output.startsWith('{')) {
+      const parsed = JSON.parse(output);
+      const lines: OcrLine[] = (parsed.lines || []).map(line => ({
+        text: String(line.text || '').trim(),
+        confidence: Number(line.confidence ?? this.defaultConfidence),
+        bbox: line.bbox,
+        words: (line.words || []).map(word => ({ text: String(word.text || ''), confidence: Number(word.confidence ?? this.defaultConfidence), bbox: word.bbox })),
+      }));
+      const text = String(parsed.text ?? lines.map(line => line.text).join('\n')).trim();
+      return {
+        text,
+        confidence: Number(parsed.confidence ?? this.averageConfidence(lines)),
+        lines: lines.length > 0 ? lines : this.plainTextLines(text),
+      };
+    }
+
+    if (output.startsWith('level\tpage_num')) {
+      return this.parseTesseractTsv(output);
+    }
+
+    const lines = this.plainTextLines(output);
+    return { text: output, confidence: this.averageConfidence(lines), lines };
+  }
+
+  /**
+   * Tesseract TSV: one row per page/block/paragraph/line/word; words (level 5) carry text and confidence
+   */
+  private parseTesseractTsv(output: string): OcrEngineResult {
+    const lines = new Map<string, OcrWord[]>();
+
+    for (const row of output.split('\n').slice(1)) {
+      const columns = row.split('\t');
+      if (columns.length < 12 || columns[0] !== '5' || !columns[11].trim()) continue;
+
+      const [, page, block, paragraph, line, , left, top, width, height, conf, text] = columns;
+      const key = `${page}-${block}-${paragraph}-${line}`;
+      const x0 = Number(left);
+      const y0 = Number(top);
+      const words = lines.get(key) || [];
+      words.push({ text: text.trim(), confidence: Math.max(0, Number(conf)), bbox: { x0, y0, x1: x0 + Number(width), y1: y0 + Number(height) } });
+      lines.set(key, words);
+    }
+
+    const ocrLines: OcrLine[] = [...lines.values()].map(words => ({
+      text: words.map(word => word.text).join(' '),
+      confidence: words.reduce((sum, word) => sum + word.confidence, 0) / words.length,
+      bbox: {
+        x0: Math.min(...words.map(word => word.bbox.x0)),
+        y0: Math.min(...words.map(word => word.bbox.y0)),
+        x1: Math.max(...words.map(word => word.bbox.x1)),
+        y1: Math.max(...words.map(word => word.bbox.y1)),
+      },
+      words,
+    }));
+
+    return {
+      text: ocrLines.map(line => line.text).join('\n'),
+      confidence: this.averageConfidence(ocrLines),
+      lines: ocrLines,
+    };
+  }
+
+  private plainTextLines(text: string): OcrLine[] {
+    return text.split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => ({
+        text: line,
+        confidence: this.defaultConfidence,
+        words: line.split(/\s+/).map(word => ({ text: word, confidence: this.defaultConfidence })),
+      }));
+  }
+
+  private averageConfidence(lines: OcrLine[]): number {
+    return lines.length > 0 ? lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length : 0;
+  }
+}
@@ -1,90 +1,51 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { DataSource } from 'typeorm';
 import { InjectDataSource } from '@nestjs/typeorm';
+import { DocumentService } from './document.service';
+import { MigrationRunner } from '../migrations/migration-runner';
 
+/**
+ * Brings the schema up to date on startup with the migrations in src/migrations.
+ * The app refuses to start while a destructive migration is pending: those have to be
+ * reviewed (`npm run migration:dry-run`) and applied by hand (`npm run migration:run`).
+ */
 @Injectable()
 export class DatabaseSetupService implements OnModuleInit {
+  private readonly logger = new Logger(DatabaseSetupService.name);
+
   constructor(
     @InjectDataSource()
     private dataSource: DataSource,
+    private documentService: DocumentService,
   ) {}
 
   async onModuleInit() {
-    // Don't block app startup - run database setup in background with delay
-    setTimeout(() => {
-      this.setupDatabase().catch(error => {
-        // console.error('❌ Database setup failed:', error.message);
-        // console.log('🚀 App will continue without database (health check will still work)');
-      });
-    }, 5000); // Wait 5 seconds after app starts before trying database
-  }
+    const runner = new MigrationRunner(this.dataSource);
+    const pending = await runner.plan(await runner.getPending());
 
-  private async setupDatabase() {
-    // console.log('🔧 Checking database setup...');
-    
-    try {
-      // Check if tables exist and have the old problematic schema
-      const queryRunner = this.dataSource.createQueryRunner();
-      
-      try {
-        // Check if parsed_files table exists
-        const tableExists = await queryRunner.hasTable('parsed_files');
-        
-        if (tableExists) {
-          // console.log('📋 Checking parsed_files table schema...');
-          
-          // Get table schema
-          const table = await queryRunner.getTable('parsed_files');
-          const userAgentColumn = table?.findColumnByName('userAgent');
-          
-          // Check if userAgent is still VARCHAR(255) (problematic)
-          if (userAgentColumn && userAgentColumn.type === 'varchar' && userAgentColumn.length === '255') {
-            // console.log('⚠️  Detected problematic schema with large VARCHAR fields');
-            // console.log('🔄 Recreating tables with optimized schema...');
-            
-            // Drop problematic tables
-            await queryRunner.query('SET FOREIGN_KEY_CHECKS = 0');
-            await queryRunner.dropTable('table_extractions', true, true);
-            await queryRunner.dropTable('ocr_results', true, true);
-            await queryRunner.dropTable('file_metadata', true, true);
-            await queryRunner.dropTable('parsed_files', true, true);
-            await queryRunner.query('SET FOREIGN_KEY_CHECKS = 1');
-            
-            // console.log('✅ Dropped old tables successfully');
-            
-            // Now synchronize with the new optimized schema
-            // console.log('🔧 Creating optimized tables...');
-            await this.dataSource.synchronize(false);
-            
-            // console.log('✅ Database setup completed with optimized schema!');
-          } else {
-            // console.log('✅ Database schema is already optimized');
-          }
-        } else {
-          // console.log('📋 Tables don\'t exist, creating new ones...');
-          await this.dataSource.synchronize(false);
-          // console.log('✅ Database tables created successfully!');
-        }
-        
-      } finally {
-        await queryRunner.release();
+    const destructive = pending.filter(plan => plan.destructive).map(plan => plan.name);
+    if (destructive.length > 0) {
+      const message = `Refusing to start: destructive migrations pending (${destructive.join(', ')}). ` +
+        'Review them with "npm run migration:dry-run" and apply them with "npm run migration:run -- --allow-destructive".';
+      this.logger.error(message);
+      throw new Error(message);
+    }
+
+    if (pending.length > 0) {
+      // Apply pending migrations on startup; with false they are only checked.
+      // Read here rather than on import: ConfigModule loads .env after this file is imported
+      if (process.env.MIGRATIONS_RUN_ON_STARTUP === 'false') {
+        this.logger.warn(`${pending.length} pending migration(s) not applied (MIGRATIONS_RUN_ON_STARTUP=false): ${pending.map(plan => plan.name).join(', ')}`);
+        return;
       }
-      
+      await runner.run();
+    }
+
+    try {
+      // Give bills saved before the documents table existed their common document
+      await this.documentService.backfill();
     } catch (error) {
-      // console.error('❌ Database setup failed:', error.message);
-      
-      // If all else fails, provide manual instructions
-      // console.log('');
-      // console.log('🔧 Manual fix required:');
-      // console.log('1. Connect to MySQL: mysql -u root -p');
-      // console.log('2. Run: USE ai_crm;');
-      // console.log('3. Run: SET FOREIGN_KEY_CHECKS = 0;');
-      // console.log('4. Run: DROP TABLE IF EXISTS table_extractions;');
-      // console.log('5. Run: DROP TABLE IF EXISTS ocr_results;');
-      // console.log('6. Run: DROP TABLE IF EXISTS file_metadata;');
-      // console.log('7. Run: DROP TABLE IF EXISTS parsed_files;');
-      // console.log('8. Run: SET FOREIGN_KEY_CHECKS = 1;');
-      // console.log('9. Restart the backend server');
+      this.logger.warn(`Document backfill failed: ${error.message}`);
     }
   }
 }
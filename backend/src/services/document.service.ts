@@ -0,0 +1,340 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Document, DocumentLineItem, DocumentSource, DocumentType } from '../entities/document.entity';
+import { BillData, BillType } from '../entities/bill-data.entity';
+import { MedicalBill } from '../entities/medical-bill.entity';
+
+export type DocumentSortField = 'createdAt' | 'documentDate' | 'totalAmount' | 'confidence';
+
+export const DOCUMENT_SORT_FIELDS: DocumentSortField[] = ['createdAt', 'documentDate', 'totalAmount', 'confidence'];
+
+export interface DocumentListQuery {
+  page: number;
+  limit: number;
+  documentTypes?: DocumentType[];
+  status?: string;
+  search?: string; // Matched against document number, issuer and recipient
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  parsedFileId?: number;
+  sort?: DocumentSortField;
+  order?: 'ASC' | 'DESC';
+}
+
+// Rows copied per query when backfilling documents for existing bills
+const BACKFILL_BATCH_SIZE = 200;
+
+const BILL_TYPE_DOCUMENT_TYPES: Record<BillType, DocumentType> = {
+  [BillType.PAYSLIP]: DocumentType.PAYSLIP,
+  [BillType.INVOICE]: DocumentType.INVOICE,
+  [BillType.RECEIPT]: DocumentType.RECEIPT,
+  [BillType.BILL]: DocumentType.BILL,
+  [BillType.EXPENSE]: DocumentType.EXPENSE,
+  [BillType.OTHER]: DocumentType.OTHER,
+};
+
+/**
+ * Keeps the `documents` table - one common record per BillData and MedicalBill row - in
+ * step with its source, and answers queries across all document types.
+ */
+@Injectable()
+export class DocumentService {
+  constructor(
+    @InjectRepository(Document)
+    private documentRepository: Repository<Document>,
+  ) {}
+
+  /**
+   * Create or refresh the document of a bill_data row. Pass the transaction's manager
+   * when the bill is written inside one.
+   */
+  async syncBillData(billData: BillData, manager: EntityManager = this.documentRepository.manager): Promise<Document> {
+    return this.upsert(manager, this.fromBillData(billData));
+  }
+
+  /**
+   * Create or refresh the document of a medical bill
+   */
+  async syncMedicalBill(medicalBill: MedicalBill, manager: EntityManager = this.documentRepository.manager): Promise<Document> {
+    return this.upsert(manager, this.fromMedicalBill(medicalBill));
+  }
+
+  async removeForSource(sourceTable: DocumentSource, sourceId: number, manager: EntityManager = this.documentRepository.manager): Promise<void> {
+    await manager.delete(Document, { sourceTable, sourceId });
+  }
+
+  /**
+   * Create documents for bill_data and medical_bill rows that don't have one yet, e.g. rows
+   * saved before the documents table existed. Safe to run repeatedly.
+   */
+  async backfill(): Promise<{ billData: number; medicalBills: number }> {
+    const billData = await this.backfillSource(BillData, DocumentSource.BILL_DATA,
+      (manager, row: BillData) => this.syncBillData(row, manager));
+    const medicalBills = await this.backfillSource(MedicalBill, DocumentSource.MEDICAL_BILL,
+      (manager, row: MedicalBill) => this.syncMedicalBill(row, manager));
+    return { billData, medicalBills };
+  }
+
+  async listDocuments(query: DocumentListQuery): Promise<{ documents: Document[]; total: number }> {
+    const qb = this.documentRepository.createQueryBuilder('document');
+
+    if (query.documentTypes?.length) {
+      qb.andWhere('document.documentType IN (:...documentTypes)', { documentTypes: query.documentTypes });
+    }
+    if (query.status) {
+      qb.andWhere('document.status = :status', { status: query.status });
+    }
+    if (query.search) {
+      qb.andWhere(
+        // LOWER() as LIKE is case-sensitive on Postgres
+        '(LOWER(document.documentNumber) LIKE :search OR LOWER(document.issuerName) LIKE :search OR LOWER(document.recipientName) LIKE :search)',
+        { search: `%${query.search.toLowerCase()}%` }
+      );
+    }
+    if (query.dateFrom) {
+      qb.andWhere('document.documentDate >= :dateFrom', { dateFrom: query.dateFrom });
+    }
+    if (query.dateTo) {
+      qb.andWhere('document.documentDate <= :dateTo', { dateTo: query.dateTo });
+    }
+    if (query.minAmount !== undefined) {
+      qb.andWhere('document.totalAmount >= :minAmount', { minAmount: query.minAmount });
+    }
+    if (query.maxAmount !== undefined) {
+      qb.andWhere('document.totalAmount <= :maxAmount', { maxAmount: query.maxAmount });
+    }
+    if (query.parsedFileId !== undefined) {
+      qb.andWhere('document.parsedFileId = :parsedFileId', { parsedFileId: query.parsedFileId });
+    }
+
+    const order = query.order || 'DESC';
+    const [documents, total] = await qb
+      .orderBy(`document.${query.sort || 'createdAt'}`, order)
+      .addOrderBy('document.id', order)
+      .skip((query.page - 1) * query.limit)
+      .take(query.limit)
+      .getManyAndCount();
+
+    return { documents, total };
+  }
+
+  async getDocumentById(id: number): Promise<Document | null> {
+    return await this.documentRepository.findOne({ where: { id } });
+  }
+
+  /**
+   * Number of documents per type
+   */
+  async countByType(): Promise<Record<string, number>> {
+    const rows = await this.documentRepository
+      .createQueryBuilder('document')
+      .select('document.documentType', 'documentType')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('document.documentType')
+      .getRawMany();
+
+    return rows.reduce((counts, row) => ({ ...counts, [row.documentType]: Number(row.count) }), {});
+  }
+
+  /**
+   * API path of the full type-specific record behind a document
+   */
+  sourcePath(document: Document): string {
+    return document.sourceTable === DocumentSource.MEDICAL_BILL
+      ? `/api/medical-bills/${document.sourceId}`
+      : `/api/bills/${document.sourceId}`;
+  }
+
+  private fromBillData(billData: BillData): Partial<Document> {
+    const lineItems: DocumentLineItem[] = Array.isArray(billData.lineItems)
+      ? billData.lineItems.map(row => ({
+          description: row.Description || row.Item || row.ItemDescription || '',
+          quantity: this.toNumber(row.Quantity ?? row.Qty),
+          unitPrice: this.toNumber(row.Rate ?? row.Price ?? row.UnitPrice),
+          amount: this.toNumber(row.Amount ?? row.Total),
+          details: row,
+        }))
+      : null;
+
+    const extensions = billData.billType === BillType.PAYSLIP
+      ? {
+          basicSalary: this.toNumber(billData.basicSalary),
+          allowances: this.toNumber(billData.allowances),
+          deductions: this.toNumber(billData.deductions),
+          netSalary: this.toNumber(billData.netSalary),
+          payableDays: billData.payableDays ?? null,
+          paidDays: billData.paidDays ?? null,
+          employeeId: billData.customerId || null,
+          department: billData.customerDepartment || null,
+          designation: billData.customerDesignation || null,
+        }
+      : {
+          dueDate: this.toIsoDate(billData.dueDate),
+          vendorEmail: billData.vendorEmail || null,
+          vendorTaxId: billData.vendorTaxId || null,
+          customerId: billData.customerId || null,
+          itemDescription: billData.itemDescription || null,
+        };
+
+    return {
+      documentType: BILL_TYPE_DOCUMENT_TYPES[billData.billType] || DocumentType.OTHER,
+      sourceTable: DocumentSource.BILL_DATA,
+      sourceId: billData.id,
+      parsedFileId: billData.processedFileId,
+      status: billData.billStatus || null,
+      documentNumber: billData.documentNumber || null,
+      documentDate: this.toIsoDate(billData.billDate),
+      issuerName: billData.vendorName || null,
+      issuerAddress: billData.vendorAddress || null,
+      issuerPhone: billData.vendorPhone || null,
+      recipientName: billData.customerName || null,
+      subtotal: this.toNumber(billData.subtotal),
+      taxAmount: this.toNumber(billData.taxAmount),
+      discountAmount: this.toNumber(billData.discountAmount),
+      totalAmount: this.toNumber(billData.totalAmount),
+      currency: billData.currency || null,
+      lineItems,
+      extensions,
+      confidence: this.toPercent(billData.confidence),
+      createdAt: billData.createdAt,
+    };
+  }
+
+  private fromMedicalBill(medicalBill: MedicalBill): Partial<Document> {
+    const lineItems: DocumentLineItem[] = (medicalBill.items || []).map(item => {
+      const { itemDescription, qty, rate, amount, ...details } = item;
+      return {
+        description: itemDescription || '',
+        quantity: this.toNumber(qty),
+        unitPrice: this.toNumber(rate),
+        amount: this.toNumber(amount),
+        details,
+      };
+    });
+
+    return {
+      documentType: DocumentType.MEDICAL_BILL,
+      sourceTable: DocumentSource.MEDICAL_BILL,
+      sourceId: medicalBill.id,
+      parsedFileId: medicalBill.parsedFileId,
+      status: medicalBill.reviewState || null,
+      documentNumber: medicalBill.invoiceNo || null,
+      documentDate: this.toIsoDate(medicalBill.date),
+      issuerName: medicalBill.shopName || null,
+      issuerAddress: medicalBill.shopAddress || null,
+      issuerPhone: (medicalBill.phone || []).join(', ') || null,
+      recipientName: medicalBill.patientName || null,
+      subtotal: this.toNumber(medicalBill.subTotal),
+      taxAmount: null,
+      discountAmount: this.toNumber(medicalBill.lessDiscount),
+      totalAmount: this.toNumber(medicalBill.grandTotal),
+      currency: 'INR',
+      lineItems,
+      extensions: {
+        patientPhone: medicalBill.patientPhone || null,
+        prescribedBy: medicalBill.prescribedBy || null,
+        doctorName: medicalBill.doctorName || null,
+        doctorSpecialization: medicalBill.doctorSpecialization || null,
+        doctorPhone: medicalBill.doctorPhone || null,
+        totalQty: medicalBill.totalQty ?? null,
+        otherAdj: this.toNumber(medicalBill.otherAdj),
+        roundOff: this.toNumber(medicalBill.roundOff),
+        amountInWords: medicalBill.amountInWords || null,
+        printedDate: medicalBill.date || null,
+      },
+      confidence: this.toNumber(medicalBill.extractionConfidence),
+      createdAt: medicalBill.createdAt,
+    };
+  }
+
+  private async upsert(manager: EntityManager, values: Partial<Document>): Promise<Document> {
+    const existing = await manager.findOne(Document, { where: { sourceTable: values.sourceTable, sourceId: values.sourceId } });
+    const { createdAt, ...changes } = values;
+    if (existing) {
+      return await manager.save(Document, manager.merge(Document, existing, changes));
+    }
+    return await manager.save(Document, manager.create(Document, values));
+  }
+
+  private async backfillSource<T extends { id: number }>(
+    entity: new () => T,
+    sourceTable: DocumentSource,
+    sync: (manager: EntityManager, row: T) => Promise<Document>,
+  ): Promise<number> {
+    let created = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const rows = await this.documentRepository.manager
+        .createQueryBuilder(entity, 'source')
+        .where('source.id > :lastId', { lastId })
+        .andWhere(
+          `NOT EXISTS (SELECT 1 FROM documents document WHERE document.source_table = :sourceTable AND document.source_id = source.id)`,
+          { sourceTable }
+        )
+        .orderBy('source.id', 'ASC')
+        .take(BACKFILL_BATCH_SIZE)
+        .getMany();
+
+      if (rows.length === 0) {
+        return created;
+      }
+
+      await this.documentRepository.manager.transaction(async manager => {
+        for (const row of rows) {
+          await sync(manager, row);
+        }
+      });
+      created += rows.length;
+      lastId = rows[rows.length - 1].id;
+    }
+  }
+
+  private toNumber(value: any): number | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+  }
+
+  /**
+   * Confidence as a percentage; bill_data stores OCR confidence (0-100) or a 0-1 default
+   */
+  private toPercent(value: any): number | null {
+    const num = this.toNumber(value);
+    if (num === null) {
+      return null;
+    }
+    return num <= 1 ? Math.round(num * 10000) / 100 : num;
+  }
+
+  /**
+   * YYYY-MM-DD from a Date, a stored date column, or a printed day-first date ("05/03/24")
+   */
+  private toIsoDate(value: Date | string): string | null {
+    if (!value) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+    }
+
+    const text = value.trim();
+    if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+      return text.slice(0, 10);
+    }
+
+    const match = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})$/);
+    if (!match) {
+      return null;
+    }
+    const [, day, month, year] = match;
+    const iso = `${year.length === 2 ? `20${year}` : year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    const parsed = new Date(`${iso}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(iso) ? iso : null;
+  }
+}
@@ -0,0 +1,212 @@
+import * as crypto from 'crypto';
+import { DataSource } from 'typeorm';
+import { buildDataSourceOptions } from '../database.config';
+import { MigrationRunner } from '../migrations/migration-runner';
+import { ParsedFile, FileType } from '../entities/parsed-file.entity';
+import { MedicalBill } from '../entities/medical-bill.entity';
+import { MedicalBillCorrection } from '../entities/medical-bill-correction.entity';
+import { MedicalBillVersion } from '../entities/medical-bill-version.entity';
+import { Document } from '../entities/document.entity';
+import { MedicalBillDto } from '../dto/medical-bill.dto';
+import { DocumentService } from './document.service';
+import { DuplicateDetectionService, DuplicatePolicy } from './duplicate-detection.service';
+import { MedicalBillValidationService } from './medical-bill-validation.service';
+import { MedicalBillService } from './medical-bill.service';
+import { DuplicateBillError, UploadPipelineService } from './upload-pipeline.service';
+
+const BILL = {
+  invoiceNo: 'INV-42',
+  date: '05/03/2024',
+  shopName: 'Apollo Pharmacy',
+  items: [{ sNo: 1, itemDescription: 'Paracetamol', pack: '10s', mrp: 6, batchNo: 'B1', exp: '12/26', qty: 2, rate: 5, amount: 10 }],
+  subTotal: 10,
+  grandTotal: 10,
+} as MedicalBillDto;
+
+function hash(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+describe('DuplicateDetectionService', () => {
+  const env = { ...process.env };
+  let dataSource: DataSource;
+  let medicalBillService: MedicalBillService;
+  let service: DuplicateDetectionService;
+
+  beforeAll(async () => {
+    dataSource = await new DataSource(buildDataSourceOptions()).initialize();
+    await new MigrationRunner(dataSource).run();
+    service = new DuplicateDetectionService(dataSource.getRepository(MedicalBill));
+    medicalBillService = new MedicalBillService(
+      dataSource.getRepository(MedicalBill),
+      dataSource.getRepository(MedicalBillCorrection),
+      dataSource.getRepository(MedicalBillVersion),
+      service,
+      new MedicalBillValidationService(),
+      new DocumentService(dataSource.getRepository(Document)),
+    );
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  async function saveParsedFile(content: string): Promise<ParsedFile> {
+    return await dataSource.getRepository(ParsedFile).save({
+      filename: `${hash(content)}.pdf`,
+      originalName: 'bill.pdf',
+      fileType: FileType.PDF,
+      mimeType: 'application/pdf',
+      fileSize: content.length,
+      fileHash: hash(content),
+      filePath: `local://${hash(content)}.pdf`,
+    });
+  }
+
+  async function saveBill(content: string, data: MedicalBillDto = BILL, duplicateOfId?: number): Promise<MedicalBill> {
+    const parsedFile = await saveParsedFile(content);
+    return await medicalBillService.saveMedicalBill(parsedFile.id, data, 90, undefined, {
+      contentFingerprint: service.computeFingerprint(data),
+      duplicateOfId,
+    });
+  }
+
+  describe('resolvePolicy', () => {
+    it('prefers the requested policy, then DUPLICATE_POLICY, then link', () => {
+      process.env.DUPLICATE_POLICY = 'reject';
+
+      expect(service.resolvePolicy(' Allow ')).toBe('allow');
+      expect(service.resolvePolicy('skip')).toBe('reject');
+      expect(service.resolvePolicy()).toBe('reject');
+
+      delete process.env.DUPLICATE_POLICY;
+      expect(service.resolvePolicy()).toBe('link');
+    });
+  });
+
+  describe('computeFingerprint', () => {
+    it('ignores case, punctuation and date format', () => {
+      const fingerprint = service.computeFingerprint(BILL);
+
+      expect(service.computeFingerprint({ ...BILL, invoiceNo: 'inv 42', shopName: 'APOLLO PHARMACY.', date: '5-3-24', grandTotal: '10.00' as any })).toBe(fingerprint);
+      expect(service.computeFingerprint({ ...BILL, date: '03/05/2024' })).not.toBe(fingerprint);
+      expect(service.computeFingerprint({ ...BILL, grandTotal: 10.5 })).not.toBe(fingerprint);
+    });
+
+    it('needs an invoice number and a grand total', () => {
+      expect(service.computeFingerprint({ ...BILL, invoiceNo: ' - ' })).toBeNull();
+      expect(service.computeFingerprint({ ...BILL, grandTotal: 0 })).toBeNull();
+    });
+  });
+
+  describe('findExactDuplicate', () => {
+    it('finds the bill saved from the same file', async () => {
+      const original = await saveBill('exact-1');
+
+      expect(await service.findExactDuplicate(hash('exact-1'))).toEqual({ medicalBillId: original.id, matchType: 'exact' });
+      expect(await service.findExactDuplicate(hash('exact-2'))).toBeNull();
+      expect(await service.findExactDuplicate(null)).toBeNull();
+    });
+
+    it('skips the file being checked and points at the original bill', async () => {
+      const original = await saveBill('exact-3');
+      const duplicate = await saveBill('exact-3', BILL, original.id);
+
+      expect(await service.findExactDuplicate(hash('exact-3'), original.parsedFileId)).toEqual({ medicalBillId: original.id, matchType: 'exact' });
+      expect(await service.findExactDuplicate(hash('exact-3'), duplicate.parsedFileId)).toEqual({ medicalBillId: original.id, matchType: 'exact' });
+    });
+  });
+
+  describe('findSemanticDuplicate', () => {
+    it('finds a bill with the same content from another file', async () => {
+      const data = { ...BILL, invoiceNo: 'INV-77' };
+      const original = await saveBill('semantic-1', data);
+
+      expect(await service.findSemanticDuplicate({ ...data, shopName: 'apollo pharmacy', date: '5.3.2024' })).toEqual({ medicalBillId: original.id, matchType: 'semantic' });
+      expect(await service.findSemanticDuplicate({ ...data, grandTotal: 11 })).toBeNull();
+      expect(await service.findSemanticDuplicate(data, original.parsedFileId)).toBeNull();
+    });
+
+    it('does not match bills without an invoice number', async () => {
+      const data = { ...BILL, invoiceNo: '' };
+      await saveBill('semantic-2', data);
+
+      expect(await service.findSemanticDuplicate(data)).toBeNull();
+    });
+  });
+
+  describe('duplicate policies', () => {
+    let fileProcessingService: { generateFileHash: jest.Mock; processFile: jest.Mock; deleteParsedFile: jest.Mock };
+    let pipeline: UploadPipelineService;
+
+    beforeEach(() => {
+      fileProcessingService = {
+        generateFileHash: jest.fn((buffer: Buffer) => hash(buffer.toString())),
+        processFile: jest.fn((file: Express.Multer.File) => saveParsedFile(file.buffer.toString())),
+        deleteParsedFile: jest.fn(),
+      };
+      pipeline = new UploadPipelineService(
+        fileProcessingService as any,
+        null,
+        medicalBillService,
+        service,
+        null,
+        null,
+        { resolvePolicy: () => 'off' } as any,
+      );
+    });
+
+    function upload(content: string, data: MedicalBillDto, duplicatePolicy?: DuplicatePolicy) {
+      jest.spyOn(pipeline, 'extractMedicalBill').mockResolvedValue({
+        medicalBillData: data,
+        confidence: 90,
+        provenance: { fields: {}, items: [] },
+        validation: null,
+        ocrCorrections: [],
+        ocrEngine: null,
+      });
+      const file = { buffer: Buffer.from(content), mimetype: 'application/pdf', originalname: 'bill.pdf' } as Express.Multer.File;
+      return pipeline.processMedicalBillUpload(file, { ip: '127.0.0.1' }, { duplicatePolicy });
+    }
+
+    it('links a duplicate to the original bill by default', async () => {
+      const data = { ...BILL, invoiceNo: 'INV-101' };
+      const original = (await upload('policy-1', data)).medicalBill;
+
+      const result = await upload('policy-2', data);
+
+      expect(result.duplicateOf).toEqual({ medicalBillId: original.id, matchType: 'semantic' });
+      expect(result.medicalBill).toMatchObject({ duplicateOfId: original.id, duplicateMatchType: 'semantic' });
+    });
+
+    it('rejects an exact duplicate before processing it', async () => {
+      const original = (await upload('policy-3', { ...BILL, invoiceNo: 'INV-102' })).medicalBill;
+      fileProcessingService.processFile.mockClear();
+
+      await expect(upload('policy-3', BILL, 'reject')).rejects.toThrow(new DuplicateBillError({ medicalBillId: original.id, matchType: 'exact' }));
+      expect(fileProcessingService.processFile).not.toHaveBeenCalled();
+    });
+
+    it('rejects a semantic duplicate and removes its parsed file', async () => {
+      const data = { ...BILL, invoiceNo: 'INV-103' };
+      const original = (await upload('policy-4', data)).medicalBill;
+
+      await expect(upload('policy-5', data, 'reject')).rejects.toThrow(`Duplicate of medical bill ${original.id} (semantic match)`);
+      expect(fileProcessingService.deleteParsedFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('saves a duplicate unlinked when allowed, still reporting the match', async () => {
+      const data = { ...BILL, invoiceNo: 'INV-104' };
+      const original = (await upload('policy-6', data)).medicalBill;
+
+      const result = await upload('policy-6', data, 'allow');
+
+      expect(result.duplicateOf).toEqual({ medicalBillId: original.id, matchType: 'exact' });
+      expect(result.medicalBill).toMatchObject({ duplicateOfId: null, duplicateMatchType: null });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+import { MedicalBill } from '../entities/medical-bill.entity';
+import { MedicalBillDto } from '../dto/medical-bill.dto';
+import * as crypto from 'crypto';
+
+export type DuplicatePolicy = 'reject' | 'link' | 'allow';
+export type DuplicateMatchType = 'exact' | 'semantic';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['reject', 'link', 'allow'];
+
+export interface DuplicateMatch {
+  medicalBillId: number;
+  matchType: DuplicateMatchType;
+}
+
+/**
+ * Finds bills that were already uploaded, either as the exact same file
+ * (ParsedFile.fileHash) or as the same bill content photographed/scanned again
+ * (fingerprint of shop name, invoice number, date and grand total).
+ */
+@Injectable()
+export class DuplicateDetectionService {
+  constructor(
+    @InjectRepository(MedicalBill)
+    private medicalBillRepository: Repository<MedicalBill>,
+  ) {}
+
+  /**
+   * Resolve the policy for a request; falls back to DUPLICATE_POLICY, then 'link'
+   */
+  resolvePolicy(requested?: string): DuplicatePolicy {
+    const candidates = [requested, process.env.DUPLICATE_POLICY];
+    for (const candidate of candidates) {
+      const policy = candidate?.trim().toLowerCase() as DuplicatePolicy;
+      if (policy && DUPLICATE_POLICIES.includes(policy)) {
+        return policy;
+      }
+    }
+    return 'link';
+  }
+
+  /**
+   * A bill saved from a file with identical bytes
+   */
+  async findExactDuplicate(fileHash: string, excludeParsedFileId?: number): Promise<DuplicateMatch | null> {
+    if (!fileHash) return null;
+
+    const existing = await this.medicalBillRepository.findOne({
+      where: {
+        parsedFile: { fileHash },
+        ...(excludeParsedFileId ? { parsedFileId: Not(excludeParsedFileId) } : {}),
+      },
+      relations: ['parsedFile'],
+      order: { id: 'ASC' },
+    });
+
+    return existing ? this.toMatch(existing, 'exact') : null;
+  }
+
+  /**
+   * A bill with the same normalized shop name, invoice number, date and grand total
+   */
+  async findSemanticDuplicate(medicalBillData: MedicalBillDto, excludeParsedFileId?: number): Promise<DuplicateMatch | null> {
+    const contentFingerprint = this.computeFingerprint(medicalBillData);
+    if (!contentFingerprint) return null;
+
+    const existing = await this.medicalBillRepository.findOne({
+      where: {
+        contentFingerprint,
+        ...(excludeParsedFileId ? { parsedFileId: Not(excludeParsedFileId) } : {}),
+      },
+      order: { id: 'ASC' },
+    });
+
+    return existing ? this.toMatch(existing, 'semantic') : null;
+  }
+
+  /**
+   * Fingerprint of the fields that identify a bill. Returns null when the bill
+   * lacks an invoice number or total, since matching on the rest alone is too loose.
+   */
+  computeFingerprint(medicalBillData: MedicalBillDto): string | null {
+    const invoiceNo = (medicalBillData.invoiceNo || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const grandTotal = Number(medicalBillData.grandTotal);
+    if (!invoiceNo || !grandTotal || isNaN(grandTotal)) {
+      return null;
+    }
+
+    const shopName = (medicalBillData.shopName || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    const parts = [shopName, invoiceNo, this.normalizeDate(medicalBillData.date), grandTotal.toFixed(2)];
+
+    return crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+  }
+
+  /**
+   * Bring "05/03/24", "5-3-2024" and "05.03.2024" to the same form (day-first, as printed on Indian bills)
+   */
+  private normalizeDate(value: string): string {
+    const date = (value || '').trim();
+    const match = date.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})$/);
+    if (!match) {
+      return date.toLowerCase().replace(/\s+/g, '');
+    }
+
+    const [, day, month, year] = match;
+    const fullYear = year.length === 2 ? `20${year}` : year;
+    return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+
+  /**
+   * Point at the original bill rather than at another duplicate of it
+   */
+  private toMatch(existing: MedicalBill, matchType: DuplicateMatchType): DuplicateMatch {
+    return {
+      medicalBillId: existing.duplicateOfId || existing.id,
+      matchType,
+    };
+  }
+}
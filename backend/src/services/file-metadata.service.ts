@@ -0,0 +1,367 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FileMetadata } from '../entities/file-metadata.entity';
+import { ParsedFile, FileType } from '../entities/parsed-file.entity';
+import * as exifr from 'exifr';
+import { imageSize } from 'image-size';
+import * as XLSX from 'xlsx';
+import * as crypto from 'crypto';
+import * as os from 'os';
+
+// Optional Sharp image processing - gracefully handles missing dependency
+let sharp: any;
+try {
+  sharp = require('sharp');
+} catch (error) {
+  // Sharp not installed - fall back to header parsing
+  sharp = null;
+}
+
+// pdf.js build bundled with pdf-parse (same version pdf-parse uses for text extraction)
+const PDFJS = require('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+PDFJS.disableWorker = true;
+
+// Libraries whose versions are recorded with every processed file
+const TRACKED_LIBRARIES = ['tesseract.js', 'pdf-parse', 'xlsx', 'sharp', 'exifr', '@google-cloud/vision', 'typeorm', '@nestjs/core'];
+
+// Unicode script ranges used for a lightweight language guess
+const SCRIPT_LANGUAGES: { script: string; language: string; pattern: RegExp }[] = [
+  { script: 'Devanagari', language: 'hi', pattern: /[ऀ-ॿ]/g },
+  { script: 'Bengali', language: 'bn', pattern: /[ঀ-৿]/g },
+  { script: 'Gurmukhi', language: 'pa', pattern: /[਀-੿]/g },
+  { script: 'Gujarati', language: 'gu', pattern: /[઀-૿]/g },
+  { script: 'Tamil', language: 'ta', pattern: /[஀-௿]/g },
+  { script: 'Telugu', language: 'te', pattern: /[ఀ-౿]/g },
+  { script: 'Kannada', language: 'kn', pattern: /[ಀ-೿]/g },
+  { script: 'Malayalam', language: 'ml', pattern: /[ഀ-ൿ]/g },
+  { script: 'Arabic', language: 'ur', pattern: /[؀-ۿ]/g },
+  { script: 'Latin', language: 'en', pattern: /[A-Za-z]/g },
+];
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'this', 'that', 'are', 'was', 'not', 'you', 'your', 'our', 'all', 'any', 'has', 'have']);
+
+/**
+ * Extracts per-file-type metadata (image EXIF/resolution, PDF provenance,
+ * workbook properties) and stores it as the file's FileMetadata row
+ */
+@Injectable()
+export class FileMetadataService {
+  constructor(
+    @InjectRepository(FileMetadata)
+    private fileMetadataRepository: Repository<FileMetadata>,
+  ) {}
+
+  async extractAndStore(file: Express.Multer.File, parsedFile: ParsedFile, processingConfiguration: any = {}): Promise<FileMetadata> {
+    const metadata = new FileMetadata();
+    metadata.parsedFileId = parsedFile.id;
+
+    this.applyGeneralMetadata(metadata, file);
+
+    switch (parsedFile.fileType) {
+      case FileType.IMAGE:
+        await this.applyImageMetadata(metadata, file.buffer);
+        break;
+      case FileType.PDF:
+        await this.applyPdfMetadata(metadata, file.buffer);
+        break;
+      case FileType.EXCEL:
+        this.applyExcelMetadata(metadata, file.buffer);
+        break;
+    }
+
+    this.applyContentAnalysis(metadata, parsedFile.extractedText || '');
+
+    metadata.processingServer = os.hostname();
+    metadata.processingNodeVersion = process.version;
+    metadata.processingLibraryVersions = this.getLibraryVersions();
+    metadata.processingConfiguration = processingConfiguration;
+
+    // One metadata row per file - replace anything from a previous run
+    await this.fileMetadataRepository.delete({ parsedFileId: parsedFile.id });
+    return await this.fileMetadataRepository.save(metadata);
+  }
+
+  async getByParsedFileId(parsedFileId: number): Promise<FileMetadata | null> {
+    return await this.fileMetadataRepository.findOne({ where: { parsedFileId } });
+  }
+
+  private applyGeneralMetadata(metadata: FileMetadata, file: Express.Multer.File): void {
+    const buffer = file.buffer;
+    const extension = file.originalname.includes('.') ? file.originalname.split('.').pop().toLowerCase() : null;
+
+    metadata.fileExtension = extension ? extension.substring(0, 20) : null;
+    metadata.fileMd5Hash = crypto.createHash('md5').update(buffer).digest('hex');
+    metadata.fileSha256Hash = crypto.createHash('sha256').update(buffer).digest('hex');
+    metadata.fileHasBom = buffer.length >= 3 && buffer[0] === 0xEF && buffer[1] === 0xBB && buffer[2] === 0xBF;
+    metadata.fileEncoding = metadata.fileHasBom ? 'utf-8' : 'binary';
+  }
+
+  private async applyImageMetadata(metadata: FileMetadata, buffer: Buffer): Promise<void> {
+    if (sharp) {
+      try {
+        const info = await sharp(buffer).metadata();
+        metadata.imageWidth = info.width || null;
+        metadata.imageHeight = info.height || null;
+        metadata.imageDpi = info.density ? Math.round(info.density) : null;
+        metadata.imageColorSpace = info.space || null;
+        metadata.imageBitDepth = this.bitDepthFromSharp(info.depth, info.channels);
+        metadata.imageFormat = info.format ? info.format.toUpperCase() : null;
+        metadata.imageCompression = info.compression || (info.isProgressive ? 'progressive' : null);
+      } catch (error) {
+        // Unreadable by Sharp - fall through to header parsing
+      }
+    }
+
+    if (!metadata.imageWidth) {
+      try {
+        const size = imageSize(buffer);
+        metadata.imageWidth = size.width || null;
+        metadata.imageHeight = size.height || null;
+        metadata.imageFormat = size.type ? size.type.toUpperCase() : null;
+      } catch (error) {
+        // Unknown image format
+      }
+    }
+
+    try {
+      const exif = await exifr.parse(buffer, { tiff: true, exif: true, gps: true, jfif: true, ihdr: true, mergeOutput: true });
+      if (exif) {
+        metadata.imageExifData = this.toJsonSafe(exif);
+        metadata.cameraModel = [exif.Make, exif.Model].filter(Boolean).join(' ').substring(0, 100) || null;
+        metadata.imageDateTaken = this.toValidDate(exif.DateTimeOriginal || exif.CreateDate || exif.ModifyDate);
+
+        if (typeof exif.latitude === 'number' && typeof exif.longitude === 'number') {
+          metadata.imageGpsData = { latitude: exif.latitude, longitude: exif.longitude, altitude: exif.GPSAltitude ?? null };
+        }
+
+        if (!metadata.imageDpi) {
+          metadata.imageDpi = this.dpiFromExif(exif);
+        }
+        if (!metadata.imageBitDepth && exif.BitDepth) {
+          metadata.imageBitDepth = exif.BitDepth;
+        }
+      }
+    } catch (error) {
+      // No EXIF segment
+    }
+  }
+
+  private async applyPdfMetadata(metadata: FileMetadata, buffer: Buffer): Promise<void> {
+    // Structural markers are read straight from the file body
+    const raw = buffer.toString('latin1');
+    metadata.pdfVersion = (raw.match(/^%PDF-(\d\.\d)/) || [])[1] || null;
+    metadata.pdfIsEncrypted = /\/Encrypt\s/.test(raw);
+    metadata.pdfHasImages = /\/Subtype\s*\/Image/.test(raw);
+    metadata.pdfFonts = this.extractPdfFonts(raw);
+
+    let doc: any;
+    try {
+      doc = await PDFJS.getDocument(buffer);
+    } catch (error) {
+      // Password protected or corrupt - keep what the raw scan found
+      return;
+    }
+
+    try {
+      metadata.pdfPageCount = doc.numPages;
+
+      const documentMetadata = await doc.getMetadata().catch(() => null);
+      const info = documentMetadata?.info || {};
+      metadata.pdfTitle = info.Title || null;
+      metadata.pdfAuthor = info.Author || null;
+      metadata.pdfSubject = info.Subject || null;
+      metadata.pdfCreator = info.Creator || null;
+      metadata.pdfProducer = info.Producer || null;
+      metadata.pdfCreationDate = this.parsePdfDate(info.CreationDate);
+      metadata.pdfModificationDate = this.parsePdfDate(info.ModDate);
+      metadata.pdfHasForms = !!(info.IsAcroFormPresent || info.IsXFAPresent);
+      if (info.PDFFormatVersion) {
+        metadata.pdfVersion = info.PDFFormatVersion;
+      }
+
+      const pageSizes = [];
+      for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+        const page = await doc.getPage(pageNumber);
+        const [x0, y0, x1, y1] = page.view;
+        pageSizes.push({ page: pageNumber, width: x1 - x0, height: y1 - y0, unit: 'pt', rotation: page.rotate || 0 });
+      }
+      metadata.pdfPageSizes = pageSizes;
+
+      const outline = await doc.getOutline().catch(() => null);
+      metadata.pdfBookmarks = outline ? this.flattenOutline(outline) : null;
+    } finally {
+      doc.destroy();
+    }
+  }
+
+  private applyExcelMetadata(metadata: FileMetadata, buffer: Buffer): void {
+    const workbook = XLSX.read(buffer, { type: 'buffer', cellFormula: true, cellDates: true, bookVBA: true });
+    const props: any = workbook.Props || {};
+
+    metadata.excelSheetCount = workbook.SheetNames.length;
+    metadata.excelSheetNames = workbook.SheetNames;
+    metadata.excelTitle = props.Title || null;
+    metadata.excelAuthor = props.Author || null;
+    metadata.excelCompany = props.Company || null;
+    metadata.excelApplication = props.Application || null;
+    metadata.excelCreationDate = this.toValidDate(props.CreatedDate);
+    metadata.excelModificationDate = this.toValidDate(props.ModifiedDate);
+    metadata.excelHasMacros = !!(workbook as any).vbaraw;
+
+    let totalCells = 0;
+    let usedCells = 0;
+    const dataTypes: Record<string, number> = {};
+    const sheetStatistics = [];
+
+    for (const sheetName of workbook.SheetNames) {
+      const worksheet: any = workbook.Sheets[sheetName];
+      if (worksheet['!type'] === 'chart') {
+        metadata.excelHasCharts = true;
+      }
+
+      const range = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']) : null;
+      const sheetTotal = range ? (range.e.r - range.s.r + 1) * (range.e.c - range.s.c + 1) : 0;
+      let sheetUsed = 0;
+      let sheetFormulas = 0;
+
+      for (const address of Object.keys(worksheet)) {
+        if (address.startsWith('!')) continue;
+        const cell = worksheet[address];
+        if (cell.f) sheetFormulas++;
+        if (cell.v !== undefined && cell.v !== null && cell.v !== '') {
+          sheetUsed++;
+          dataTypes[cell.t] = (dataTypes[cell.t] || 0) + 1;
+        }
+      }
+
+      if (sheetFormulas > 0) {
+        metadata.excelHasFormulas = true;
+      }
+      totalCells += sheetTotal;
+      usedCells += sheetUsed;
+      sheetStatistics.push({ sheetName, range: worksheet['!ref'] || null, totalCells: sheetTotal, usedCells: sheetUsed, formulaCells: sheetFormulas });
+    }
+
+    metadata.excelTotalCells = totalCells;
+    metadata.excelUsedCells = usedCells;
+    metadata.excelSheetStatistics = sheetStatistics;
+    metadata.excelDataTypes = this.describeCellTypes(dataTypes);
+  }
+
+  private applyContentAnalysis(metadata: FileMetadata, text: string): void {
+    if (!text.trim()) return;
+
+    const letters = text.replace(/[^\p{L}]/gu, '').length || 1;
+    metadata.detectedLanguages = SCRIPT_LANGUAGES
+      .map(({ script, language, pattern }) => ({ script, language, ratio: (text.match(pattern) || []).length / letters }))
+      .filter(result => result.ratio >= 0.05)
+      .sort((a, b) => b.ratio - a.ratio)
+      .map(result => ({ ...result, ratio: Math.round(result.ratio * 1000) / 1000 }));
+
+    const wordCounts: Record<string, number> = {};
+    const words = text.toLowerCase().match(/\p{L}{3,}/gu) || [];
+    for (const word of words) {
+      if (!STOP_WORDS.has(word)) {
+        wordCounts[word] = (wordCounts[word] || 0) + 1;
+      }
+    }
+    metadata.keywordDensity = Object.entries(wordCounts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([word, count]) => ({ word, count, density: Math.round((count / words.length) * 10000) / 100 }));
+
+    metadata.entityExtraction = {
+      dates: [...new Set(text.match(/\b\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{2,4}\b/g) || [])],
+      phoneNumbers: [...new Set(text.match(/\b\d{10}\b/g) || [])],
+      amounts: [...new Set(text.match(/\b\d+\.\d{2}\b/g) || [])].slice(0, 50),
+    };
+  }
+
+  private extractPdfFonts(raw: string): string[] {
+    const fonts = new Set<string>();
+    const fontPattern = /\/BaseFont\s*\/([^\s\/\[\]<>()]+)/g;
+    let match: RegExpExecArray;
+    while ((match = fontPattern.exec(raw)) !== null) {
+      // Drop the subset prefix (e.g. "ABCDEF+Arial" -> "Arial")
+      fonts.add(match[1].replace(/^[A-Z]{6}\+/, ''));
+    }
+    return [...fonts];
+  }
+
+  private flattenOutline(items: any[], depth: number = 0): any[] {
+    return items.reduce((result, item) => {
+      result.push({ title: item.title, depth });
+      if (item.items && item.items.length > 0) {
+        result.push(...this.flattenOutline(item.items, depth + 1));
+      }
+      return result;
+    }, []);
+  }
+
+  /**
+   * Parse PDF date strings like "D:20240131093000+05'30'"
+   */
+  private parsePdfDate(value: string): Date | null {
+    if (!value) return null;
+    const match = value.match(/D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Z+\-])?(\d{2})?'?(\d{2})?/);
+    if (!match) return null;
+
+    const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+    let iso = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+    iso += sign && sign !== 'Z' ? `${sign}${offsetHours}:${offsetMinutes}` : 'Z';
+    return this.toValidDate(iso);
+  }
+
+  private dpiFromExif(exif: any): number | null {
+    // JFIF density units: 1 = dots per inch, 2 = dots per cm
+    if (exif.XResolution && (exif.ResolutionUnit === 'inches' || exif.ResolutionUnit === 2 || !exif.ResolutionUnit)) {
+      return Math.round(exif.XResolution);
+    }
+    if (exif.Xdensity && exif.ResolutionUnit !== undefined) {
+      return exif.ResolutionUnit === 2 ? Math.round(exif.Xdensity * 2.54) : Math.round(exif.Xdensity);
+    }
+    return null;
+  }
+
+  private bitDepthFromSharp(depth: string, channels: number): number | null {
+    const bitsPerChannel: Record<string, number> = { uchar: 8, char: 8, ushort: 16, short: 16, uint: 32, int: 32, float: 32, double: 64 };
+    return depth && bitsPerChannel[depth] ? bitsPerChannel[depth] * (channels || 1) : null;
+  }
+
+  private describeCellTypes(counts: Record<string, number>): Record<string, number> {
+    const names: Record<string, string> = { s: 'string', n: 'number', b: 'boolean', d: 'date', e: 'error', z: 'stub' };
+    return Object.entries(counts).reduce((result, [type, count]) => {
+      result[names[type] || type] = count;
+      return result;
+    }, {} as Record<string, number>);
+  }
+
+  private getLibraryVersions(): Record<string, string> {
+    const versions: Record<string, string> = {};
+    for (const library of TRACKED_LIBRARIES) {
+      try {
+        versions[library] = require(`${library}/package.json`).version;
+      } catch (error) {
+        // Optional dependency not installed
+      }
+    }
+    return versions;
+  }
+
+  private toValidDate(value: any): Date | null {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Drop binary blobs (thumbnails, maker notes) so EXIF fits in a JSON column
+   */
+  private toJsonSafe(value: any): any {
+    return JSON.parse(JSON.stringify(value, (key, item) => {
+      if (item instanceof Uint8Array || (item && item.type === 'Buffer')) return undefined;
+      return item;
+    }));
+  }
+}
@@ -0,0 +1,199 @@
+import { OcrResult } from '../entities/ocr-result.entity';
+import { TableExtraction } from '../entities/table-extraction.entity';
+import { FileProcessingService } from './file-processing.service';
+import { OcrWord } from './ocr-engine.interface';
+import { LINE_ITEM_TABLE_METHOD, TableLayoutAnalyzerService } from './table-layout-analyzer.service';
+
+type FixtureWord = [text: string, x0: number, x1: number];
+
+// Column positions of the fixture bill, left to right
+const HEADER: FixtureWord[] = [['S.No', 10, 40], ['Description', 60, 160], ['Batch', 200, 240], ['No.', 244, 264], ['Exp', 300, 330], ['Qty', 360, 390], ['Rate', 420, 460], ['Amount', 500, 560]];
+
+function itemLine(sNo: string, description: string, batchNo: string, exp: string, qty: string, rate: string, amount: string): FixtureWord[] {
+  return [[sNo, 15, 25], [description, 60, 150], [batchNo, 200, 250], [exp, 300, 335], [qty, 365, 375], [rate, 420, 460], [amount, 505, 555]];
+}
+
+/**
+ * An OcrResult with one line per entry, words stored the way the OCR engines store them
+ */
+function ocrResult(id: number, lines: FixtureWord[][], values: Partial<OcrResult> = {}): OcrResult {
+  const lineLevelData = lines.map((words, lineIndex) => {
+    const y0 = 100 + lineIndex * 30;
+    return {
+      text: words.map(([text]) => text).join(' '),
+      confidence: 90,
+      bbox: { x0: Math.min(...words.map(([, x0]) => x0)), y0, x1: Math.max(...words.map(([, , x1]) => x1)), y1: y0 + 20 },
+    };
+  });
+  const wordLevelData = lines.flatMap((words, lineIndex) => words.map(([text, x0, x1]) => ({
+    text,
+    confidence: 80 + lineIndex,
+    bbox: { x0, y0: lineLevelData[lineIndex].bbox.y0, x1, y1: lineLevelData[lineIndex].bbox.y1 },
+    lineIndex,
+  })));
+
+  return { id, parsedFileId: 1, pageNumber: 1, isSelected: true, lineLevelData, wordLevelData, ...values } as OcrResult;
+}
+
+describe('FileProcessingService', () => {
+  describe('detectLineItemTables', () => {
+    let ocrResultRepository: { find: jest.Mock };
+    let tableExtractionRepository: { save: jest.Mock };
+    let service: FileProcessingService;
+
+    beforeEach(() => {
+      ocrResultRepository = { find: jest.fn().mockResolvedValue([]) };
+      tableExtractionRepository = { save: jest.fn(async (tableExtraction: TableExtraction) => tableExtraction) };
+      service = new FileProcessingService(
+        null,
+        ocrResultRepository as any,
+        null,
+        tableExtractionRepository as any,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        new TableLayoutAnalyzerService(),
+        null,
+        null,
+        null,
+      );
+    });
+
+    function detect(...results: OcrResult[]): Promise<TableExtraction[]> {
+      ocrResultRepository.find.mockResolvedValue(results);
+      return service['detectLineItemTables'](1);
+    }
+
+    it('reads the line items between the header and the totals', async () => {
+      const [table] = await detect(ocrResult(7, [
+        [['Apollo', 10, 80], ['Pharmacy', 90, 180]],
+        HEADER,
+        itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00'),
+        itemLine('2', 'Cetirizine', 'C9', 'Mar-27', '1', '120.50', '120.50'),
+        [['Sub', 380, 410], ['Total', 420, 460], ['170.50', 505, 555]],
+        itemLine('3', 'Not an item', 'X1', '01/27', '1', '10', '10'),
+      ], { pageNumber: 2 }));
+
+      expect(table).toMatchObject({
+        parsedFileId: 1,
+        tableIndex: 0,
+        pageNumber: 2,
+        headers: ['S.No', 'Description', 'Batch No.', 'Exp', 'Qty', 'Rate', 'Amount'],
+        rowCount: 2,
+        columnCount: 7,
+        cellTypes: [
+          ['number', 'text', 'text', 'date', 'number', 'number', 'number'],
+          ['number', 'text', 'text', 'date', 'number', 'number', 'number'],
+        ],
+        boundingBox: { x: 10, y: 130, width: 550, height: 80 },
+        tableConfidence: 100,
+        emptyCells: 0,
+        dataCompleteness: 100,
+        hasHeaderRow: true,
+        hasNumericData: true,
+        hasDateData: true,
+        extractionMethod: LINE_ITEM_TABLE_METHOD,
+        ocrAverageConfidence: 82.5,
+      });
+      expect(JSON.parse(table.tableData)).toEqual([
+        ['1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00'],
+        ['2', 'Cetirizine', 'C9', 'Mar-27', '1', '120.50', '120.50'],
+      ]);
+      expect(table.extractionOptions).toEqual({
+        ocrResultId: 7,
+        columns: [
+          { key: 'sNo', label: 'S.No' },
+          { key: 'itemDescription', label: 'Description' },
+          { key: 'batchNo', label: 'Batch No.' },
+          { key: 'exp', label: 'Exp' },
+          { key: 'qty', label: 'Qty' },
+          { key: 'rate', label: 'Rate' },
+          { key: 'amount', label: 'Amount' },
+        ],
+      });
+      expect(tableExtractionRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('assigns words to the nearest header column and joins wrapped descriptions', async () => {
+      const [table] = await detect(ocrResult(7, [
+        HEADER,
+        [['|1', 15, 25], ['Amoxicillin', 60, 140], ['250mg', 145, 195], ['A77', 205, 235], ['2', 365, 375], ['40', 425, 445], ['80', 510, 530], ['|', 570, 572]],
+        [['Capsules', 60, 130]],
+        itemLine('2', 'ORS', 'O1', '', '', '', '20'),
+      ]));
+
+      const rows = JSON.parse(table.tableData);
+      expect(rows[0]).toEqual(['1', 'Amoxicillin 250mg Capsules', 'A77', '', '2', '40', '80']);
+      expect(table.ocrTableRegions[0].lineText).toBe('|1 Amoxicillin 250mg A77 2 40 80 |\nCapsules');
+      expect(table.emptyCells).toBe(4);
+      expect(table.dataCompleteness).toBe(71.43);
+    });
+
+    it('ends the table after more than three lines without items', async () => {
+      const [table] = await detect(ocrResult(7, [
+        HEADER,
+        itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00'),
+        [['Continued', 60, 140], ['B', 200, 210]],
+        [['Continued', 60, 140], ['B', 200, 210]],
+        [['Continued', 60, 140], ['B', 200, 210]],
+        [['Continued', 60, 140], ['B', 200, 210]],
+        itemLine('2', 'Cetirizine', 'C9', '03/27', '1', '120.50', '120.50'),
+      ]));
+
+      expect(table.rowCount).toBe(1);
+    });
+
+    it('picks the header line naming the most columns', async () => {
+      const [table] = await detect(ocrResult(7, [
+        [['Item', 60, 100], ['Qty', 360, 390], ['Total', 500, 540]],
+        HEADER,
+        itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00'),
+      ]));
+
+      expect(table.columnCount).toBe(7);
+    });
+
+    it('stores a table per OCR result, counting amounts read', async () => {
+      const tables = await detect(
+        ocrResult(7, [HEADER, itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00')]),
+        ocrResult(8, [HEADER, itemLine('2', 'Cetirizine', 'C9', '03/27', '1', '120.50', 'ISO')], { pageNumber: 2 }),
+      );
+
+      expect(tables.map(table => [table.tableIndex, table.pageNumber, table.tableConfidence])).toEqual([[0, 1, 100], [1, 2, 0]]);
+    });
+
+    it('only uses the selected OCR results', async () => {
+      const tables = await detect(
+        ocrResult(7, [HEADER, itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00')], { isSelected: false }),
+        ocrResult(8, [HEADER, itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00')]),
+      );
+
+      expect(tables.map(table => table.extractionOptions.ocrResultId)).toEqual([8]);
+    });
+
+    it('finds no table without a header naming a numeric column', async () => {
+      expect(await detect(ocrResult(7, [
+        [['Description', 60, 160], ['Batch', 200, 240], ['Exp', 300, 330]],
+        itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00'),
+      ]))).toEqual([]);
+      expect(await detect(ocrResult(7, [[['Qty', 360, 390], ['Amount', 500, 560]], [['2', 365, 375], ['50', 505, 555]]]))).toEqual([]);
+    });
+
+    it('finds no table in lines without word boxes', async () => {
+      const result = ocrResult(7, [HEADER, itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00')]);
+      result.wordLevelData = result.wordLevelData.map(({ bbox, ...word }: OcrWord & { lineIndex: number }) => word);
+
+      expect(await detect(result)).toEqual([]);
+      expect(tableExtractionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('does not fail the upload when a table cannot be stored', async () => {
+      tableExtractionRepository.save.mockRejectedValue(new Error('Connection lost'));
+
+      expect(await detect(ocrResult(7, [HEADER, itemLine('1', 'Paracetamol', 'B123', '12/26', '2', '25.00', '50.00')]))).toEqual([]);
+    });
+  });
+});
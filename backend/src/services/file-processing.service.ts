@@ -1,26 +1,81 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { ParsedFile, FileType, ProcessingStatus } from '../entities/parsed-file.entity';
 import { OcrResult } from '../entities/ocr-result.entity';
+import { MedicalBill } from '../entities/medical-bill.entity';
 import { FileMetadata } from '../entities/file-metadata.entity';
 import { TableExtraction } from '../entities/table-extraction.entity';
-import { GoogleVisionService } from './google-vision.service';
-import { ImagePreprocessingService } from './image-preprocessing.service';
+import { ProcessingStage } from '../entities/processing-job.entity';
+import { ImagePreprocessingService, PreprocessingPreset, PreprocessingResult, PREPROCESSING_PRESETS } from './image-preprocessing.service';
+import { ImageQualityService, ImageQualityReport } from './image-quality.service';
+import { ThumbnailService, RenderedImage } from './thumbnail.service';
+import { FileStorageService } from './file-storage.service';
+import { ByteRange } from './file-storage.interface';
 import { BillExtractionService } from './bill-extraction.service';
-import * as Tesseract from 'tesseract.js';
+import { PdfRasterizerService } from './pdf-rasterizer.service';
+import { FileMetadataService } from './file-metadata.service';
+import { OcrEngineRegistryService } from './ocr-engine-registry.service';
+import { OcrEnsembleService, EnsembleRun } from './ocr-ensemble.service';
+import { TableLayoutAnalyzerService, LineItemRow, LINE_ITEM_TABLE_METHOD } from './table-layout-analyzer.service';
+import { OcrEngine, OcrEngineResult, OcrLine } from './ocr-engine.interface';
 import * as pdfParse from 'pdf-parse';
 import * as XLSX from 'xlsx';
 import * as crypto from 'crypto';
-import * as path from 'path';
-import * as fs from 'fs';
-import { promisify } from 'util';
+import { Readable } from 'stream';
 
-const writeFileAsync = promisify(fs.writeFile);
-const mkdirAsync = promisify(fs.mkdir);
+export type PdfOcrMode = 'auto' | 'off' | 'force';
+
+export const PDF_OCR_MODES: PdfOcrMode[] = ['auto', 'off', 'force'];
+
+export interface FileProcessingOptions {
+  onStage?: (stage: ProcessingStage) => Promise<void> | void; // Progress callback used by the job queue
+  pdfOcrMode?: PdfOcrMode; // OCR image-only PDF pages ('auto'), every page ('force') or none ('off')
+  ocrEngine?: string; // Registered OCR engine name; defaults to OCR_ENGINE / 'tesseract'
+  ensemble?: boolean; // Run several engines/presets and vote per line; defaults to OCR_ENSEMBLE
+  imageQuality?: ImageQualityReport; // Already assessed by the caller (upload quality gate)
+}
+
+export interface PdfPageSummary {
+  pageNumber: number;
+  source: 'text-layer' | 'ocr' | 'empty';
+  characterCount: number;
+  confidence: number | null;
+}
+
+export type ParsedFileSortField = 'createdAt' | 'updatedAt' | 'originalName' | 'fileSize' | 'averageConfidence';
+
+export const PARSED_FILE_SORT_FIELDS: ParsedFileSortField[] = ['createdAt', 'updatedAt', 'originalName', 'fileSize', 'averageConfidence'];
+
+const PARSED_FILE_LIST_COLUMNS: (keyof ParsedFile)[] = [
+  'id', 'filename', 'originalName', 'fileType', 'fileSize', 'mimeType', 'processingStatus', 'processingDurationMs',
+  'characterCount', 'wordCount', 'lineCount', 'hasStructuredData', 'tableCount', 'averageConfidence', 'retryCount',
+  'createdAt', 'updatedAt',
+];
+
+export interface ParsedFileListQuery {
+  page: number; // 1-based
+  limit: number;
+  fileType?: FileType;
+  processingStatus?: ProcessingStatus;
+  createdFrom?: Date;
+  createdTo?: Date;
+  hasMedicalBill?: boolean;
+  sort?: ParsedFileSortField; // Default createdAt
+  order?: 'ASC' | 'DESC'; // Default DESC
+}
 
 @Injectable()
 export class FileProcessingService {
+  // Pages with fewer non-whitespace characters than this are treated as scanned images
+  private readonly pdfMinTextLayerChars = parseInt(process.env.PDF_MIN_TEXT_LAYER_CHARS) || 20;
+  // Ensemble OCR: engines (default: every available one) x preprocessing presets
+  private readonly ensembleEngines = (process.env.OCR_ENSEMBLE_ENGINES || '').split(',').map(name => name.trim()).filter(Boolean);
+  private readonly ensemblePresets = (process.env.OCR_ENSEMBLE_PRESETS || PREPROCESSING_PRESETS.join(','))
+    .split(',')
+    .map(preset => preset.trim())
+    .filter((preset): preset is PreprocessingPreset => PREPROCESSING_PRESETS.includes(preset as PreprocessingPreset));
+
   constructor(
     @InjectRepository(ParsedFile)
     private parsedFileRepository: Repository<ParsedFile>,
@@ -30,12 +85,19 @@ export class FileProcessingService {
     private fileMetadataRepository: Repository<FileMetadata>,
     @InjectRepository(TableExtraction)
     private tableExtractionRepository: Repository<TableExtraction>,
-    private googleVisionService: GoogleVisionService,
     private imagePreprocessingService: ImagePreprocessingService,
     private billExtractionService: BillExtractionService,
+    private pdfRasterizerService: PdfRasterizerService,
+    private fileMetadataService: FileMetadataService,
+    private ocrEngineRegistryService: OcrEngineRegistryService,
+    private ocrEnsembleService: OcrEnsembleService,
+    private tableLayoutAnalyzerService: TableLayoutAnalyzerService,
+    private imageQualityService: ImageQualityService,
+    private thumbnailService: ThumbnailService,
+    private fileStorageService: FileStorageService,
   ) {}
 
-  async processFile(file: Express.Multer.File, requestInfo?: { userAgent?: string; ip?: string; sessionId?: string }): Promise<ParsedFile> {
+  async processFile(file: Express.Multer.File, requestInfo?: { userAgent?: string; ip?: string; sessionId?: string }, options: FileProcessingOptions = {}): Promise<ParsedFile> {
     const startTime = Date.now();
     
     // Validate file buffer exists
@@ -43,18 +105,14 @@ export class FileProcessingService {
       throw new Error('File buffer is missing or empty. Ensure multer is configured with memoryStorage.');
     }
     
+    await options.onStage?.(ProcessingStage.PREPROCESSING);
+
+    const ensemble = options.ensemble ?? process.env.OCR_ENSEMBLE === 'true';
+
     const fileType = this.determineFileTypeEnum(file);
 
-    // Generate file hash for deduplication
-    const fileHash = this.generateFileHash(file.buffer);
-    
-    // Generate unique filename and save to disk
-    const uniqueFilename = `${fileHash}.${this.getFileExtension(file.originalname)}`;
-    const filePath = `uploads/${uniqueFilename}`;
-    const fullFilePath = path.join(process.cwd(), filePath);
-    
-    // Save file to disk
-    await this.saveFileToDisk(file.buffer, fullFilePath);
+    // Save file to disk (named by its hash for deduplication)
+    const { fileHash, filename: uniqueFilename, filePath } = await this.storeUpload(file.buffer, file.originalname, file.mimetype);
 
     // Create initial ParsedFile record
     const parsedFile = new ParsedFile();
@@ -65,6 +123,7 @@ export class FileProcessingService {
     parsedFile.mimeType = file.mimetype;
     parsedFile.filePath = filePath; // Add the missing filePath field
     parsedFile.fileHash = fileHash; // Add the missing fileHash field
+    parsedFile.thumbnailPath = await this.storeThumbnail(file.buffer, fileType, fileHash);
     parsedFile.processingStatus = ProcessingStatus.PROCESSING;
     parsedFile.processingDurationMs = 0;
     parsedFile.characterCount = 0;
@@ -81,54 +140,8 @@ export class FileProcessingService {
     try {
       // Save initial record
       const savedFile = await this.parsedFileRepository.save(parsedFile);
-      let extractedText = '';
-      let parsedContent: any = {};
-      let ocrResult: OcrResult | null = null;
-      let tableExtractions: TableExtraction[] = [];
-
-      // Process based on file type
-      switch (fileType) {
-        case FileType.IMAGE:
-          const imageProcessingResult = await this.processImageWithMultipleEngines(file, savedFile.id, 'tesseract');
-          extractedText = imageProcessingResult.text;
-          ocrResult = imageProcessingResult.ocrResult;
-          parsedContent = await this.createOcrStructuredData(extractedText, file);
-          break;
-
-        case FileType.PDF:
-          const pdfText = await this.processPdf(file);
-          extractedText = pdfText;
-          parsedContent = await this.createGenericStructuredData(pdfText, 'pdf');
-          break;
-
-        case FileType.EXCEL:
-          const excelResult = await this.processExcel(file, savedFile.id);
-          extractedText = excelResult.text;
-          tableExtractions = excelResult.tableExtractions;
-          parsedContent = excelResult.parsedContent;
-          break;
-
-        default:
-          throw new Error(`Unsupported file type: ${fileType}`);
-      }
+      const finalFile = await this.extractContent(file, savedFile, options, ensemble, startTime);
 
-      // Update file record with results
-      const endTime = Date.now();
-      const finalFile = await this.parsedFileRepository.save({
-        ...savedFile,
-        processingStatus: ProcessingStatus.COMPLETED,
-        processingDurationMs: endTime - startTime,
-        characterCount: extractedText.length,
-        wordCount: extractedText.split(/\s+/).length,
-        lineCount: extractedText.split('\n').length,
-        hasStructuredData: Object.keys(parsedContent).length > 0,
-        tableCount: tableExtractions.length,
-        averageConfidence: ocrResult?.overallConfidence || 0,
-        parsedContent,
-        extractedText,
-        updatedAt: new Date()
-      });
-      
       // Extract and store bill data automatically
       try {
         await this.billExtractionService.extractAndStoreBillData(finalFile);
@@ -136,6 +149,18 @@ export class FileProcessingService {
       } catch (billError) {
         // Don't fail the entire process if bill extraction fails
       }
+
+      // Capture per-type file metadata (resolution, EXIF, PDF provenance, workbook properties)
+      try {
+        await this.fileMetadataService.extractAndStore(file, finalFile, {
+          fileType,
+          pdfOcrMode: fileType === FileType.PDF ? (options.pdfOcrMode || process.env.PDF_OCR_MODE || 'auto') : undefined,
+          pdfMinTextLayerChars: fileType === FileType.PDF ? this.pdfMinTextLayerChars : undefined,
+          preprocessing: fileType === FileType.IMAGE ? 'medical-bill' : undefined,
+        });
+      } catch (metadataError) {
+        // Metadata is informational - never fail the upload over it
+      }
       
       return finalFile;
 
@@ -155,6 +180,120 @@ export class FileProcessingService {
     }
   }
 
+  /**
+   * Run text extraction/OCR again on the stored original of a processed file. The previous OCR
+   * results stay as unselected history and its line item tables are replaced; if the rerun fails
+   * the previous results are selected again and the error is thrown.
+   */
+  async reprocessFile(parsedFile: ParsedFile, options: FileProcessingOptions = {}): Promise<ParsedFile> {
+    const startTime = Date.now();
+    const buffer = await this.readStoredFile(parsedFile.filePath);
+    const file = {
+      fieldname: 'file',
+      originalname: parsedFile.originalName,
+      encoding: '7bit',
+      mimetype: parsedFile.mimeType,
+      size: buffer.length,
+      buffer,
+    } as Express.Multer.File;
+
+    const previousResults = await this.ocrResultRepository.find({ where: { parsedFileId: parsedFile.id }, select: ['id', 'isSelected'] });
+    const previousSelectedIds = previousResults.filter(result => result.isSelected).map(result => result.id);
+    const previousTables = await this.tableExtractionRepository.find({ where: { parsedFileId: parsedFile.id }, select: ['id'] });
+
+    if (previousResults.length > 0) {
+      await this.ocrResultRepository.update({ id: In(previousResults.map(result => result.id)) }, { isSelected: false });
+    }
+
+    try {
+      const ensemble = options.ensemble ?? process.env.OCR_ENSEMBLE === 'true';
+      const finalFile = await this.extractContent(file, parsedFile, options, ensemble, startTime);
+
+      if (previousTables.length > 0) {
+        await this.tableExtractionRepository.delete({ id: In(previousTables.map(table => table.id)) });
+      }
+      return finalFile;
+    } catch (error) {
+      if (previousSelectedIds.length > 0) {
+        await this.ocrResultRepository.update({ id: In(previousSelectedIds) }, { isSelected: true });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Count a reprocessing run of a file
+   */
+  async incrementRetryCount(parsedFileId: number): Promise<number> {
+    await this.parsedFileRepository.increment({ id: parsedFileId }, 'retryCount', 1);
+    const parsedFile = await this.parsedFileRepository.findOne({ where: { id: parsedFileId }, select: ['id', 'retryCount'] });
+    return parsedFile?.retryCount ?? 0;
+  }
+
+  /**
+   * Extract text (text layer, OCR or spreadsheet cells) and line item tables from an upload
+   * and store the results on its ParsedFile record
+   */
+  private async extractContent(file: Express.Multer.File, savedFile: ParsedFile, options: FileProcessingOptions, ensemble: boolean, startTime: number): Promise<ParsedFile> {
+    let extractedText = '';
+    let parsedContent: any = {};
+    let ocrResult: OcrResult | null = null;
+    let averageConfidence = 0;
+    let ocrMetadata: any = null;
+    let tableExtractions: TableExtraction[] = [];
+
+    await options.onStage?.(ProcessingStage.OCR);
+
+    // Process based on file type
+    switch (savedFile.fileType) {
+      case FileType.IMAGE:
+        const imageProcessingResult = await this.processImageWithEngine(file, savedFile.id, options.ocrEngine, ensemble, options.imageQuality);
+        extractedText = imageProcessingResult.text;
+        ocrResult = imageProcessingResult.ocrResult;
+        averageConfidence = ocrResult?.overallConfidence || 0;
+        parsedContent = await this.createOcrStructuredData(extractedText, file);
+        tableExtractions = await this.detectLineItemTables(savedFile.id);
+        break;
+
+      case FileType.PDF:
+        const pdfResult = await this.processPdf(file, savedFile.id, options.pdfOcrMode || (process.env.PDF_OCR_MODE as PdfOcrMode) || 'auto', options.ocrEngine, ensemble);
+        extractedText = pdfResult.text;
+        averageConfidence = pdfResult.averageConfidence;
+        ocrMetadata = { pages: pdfResult.pages };
+        parsedContent = await this.createGenericStructuredData(pdfResult.text, 'pdf');
+        tableExtractions = await this.detectLineItemTables(savedFile.id);
+        break;
+
+      case FileType.EXCEL:
+        const excelResult = await this.processExcel(file, savedFile.id);
+        extractedText = excelResult.text;
+        tableExtractions = excelResult.tableExtractions;
+        parsedContent = excelResult.parsedContent;
+        break;
+
+      default:
+        throw new Error(`Unsupported file type: ${savedFile.fileType}`);
+    }
+
+    // Update file record with results
+    const endTime = Date.now();
+    return this.parsedFileRepository.save({
+      ...savedFile,
+      processingStatus: ProcessingStatus.COMPLETED,
+      processingDurationMs: endTime - startTime,
+      characterCount: extractedText.length,
+      wordCount: extractedText.split(/\s+/).length,
+      lineCount: extractedText.split('\n').length,
+      hasStructuredData: Object.keys(parsedContent).length > 0,
+      tableCount: tableExtractions.length,
+      averageConfidence,
+      ocrMetadata,
+      parsedContent,
+      extractedText,
+      updatedAt: new Date()
+    });
+  }
+
   async deleteParsedFile(parsedFileId: number): Promise<void> {
     try {
       await this.ocrResultRepository.delete({ parsedFileId });
@@ -183,89 +322,320 @@ export class FileProcessingService {
     }
   }
 
-  async getAllParsedFiles(): Promise<ParsedFile[]> {
-    return await this.parsedFileRepository.find({
-      order: { createdAt: 'DESC' }
-    });
+  /**
+   * One page of files, newest first by default. Read-only; filters on fileType/processingStatus
+   * and createdAt are served by the indexes declared on ParsedFile.
+   */
+  async listParsedFiles(query: ParsedFileListQuery): Promise<{ files: ParsedFile[]; total: number }> {
+    // Text and parsed content can be large - GET /api/files/:id returns them
+    const queryBuilder = this.parsedFileRepository.createQueryBuilder('file')
+      .select(PARSED_FILE_LIST_COLUMNS.map(column => `file.${column}`));
+
+    if (query.fileType) {
+      queryBuilder.andWhere('file.fileType = :fileType', { fileType: query.fileType });
+    }
+    if (query.processingStatus) {
+      queryBuilder.andWhere('file.processingStatus = :processingStatus', { processingStatus: query.processingStatus });
+    }
+    if (query.createdFrom) {
+      queryBuilder.andWhere('file.createdAt >= :createdFrom', { createdFrom: query.createdFrom });
+    }
+    if (query.createdTo) {
+      queryBuilder.andWhere('file.createdAt <= :createdTo', { createdTo: query.createdTo });
+    }
+    if (query.hasMedicalBill !== undefined) {
+      const billExists = queryBuilder.subQuery()
+        .select('1')
+        .from(MedicalBill, 'bill')
+        .where('bill.parsedFileId = file.id')
+        .getQuery();
+      queryBuilder.andWhere(`${query.hasMedicalBill ? '' : 'NOT '}EXISTS ${billExists}`);
+    }
+
+    const order = query.order || 'DESC';
+    const [files, total] = await queryBuilder
+      .orderBy(`file.${query.sort || 'createdAt'}`, order)
+      .addOrderBy('file.id', order) // Stable pages when sort values tie
+      .skip((query.page - 1) * query.limit)
+      .take(query.limit)
+      .getManyAndCount();
+
+    return { files, total };
   }
 
   async getParsedFileById(id: number): Promise<ParsedFile | null> {
     return await this.parsedFileRepository.findOne({ where: { id } });
   }
 
-  private async processImageWithMultipleEngines(file: Express.Multer.File, parsedFileId: number, preferredEngine: string): Promise<{ text: string; ocrResult: OcrResult | null }> {
+  /**
+   * Recognized lines (with word confidences) across the selected OCR results of a file, in page order
+   */
+  async getOcrLines(parsedFileId: number): Promise<OcrLine[]> {
+    const ocrResults = await this.getSelectedOcrResults(parsedFileId);
+    return ocrResults.flatMap(ocrResult => this.toOcrLines(ocrResult));
+  }
+
+  /**
+   * Rows of the line item tables found in a file's word boxes, in page order
+   */
+  async getLineItemRows(parsedFileId: number): Promise<LineItemRow[]> {
+    const tables = await this.tableExtractionRepository.find({
+      where: { parsedFileId, extractionMethod: LINE_ITEM_TABLE_METHOD },
+      order: { pageNumber: 'ASC', tableIndex: 'ASC' }
+    });
+
+    return tables.flatMap(table => {
+      const columns = table.extractionOptions?.columns || [];
+      const regions = table.ocrTableRegions || [];
+      const data: string[][] = JSON.parse(table.tableData || '[]');
+
+      return data.map((values, rowIndex) => ({
+        cells: Object.fromEntries(columns.map((column, index) => [column.key, values[index]]).filter(([, value]) => value)),
+        lineText: regions[rowIndex]?.lineText || values.filter(Boolean).join(' '),
+        confidence: regions[rowIndex]?.confidence ?? table.ocrAverageConfidence,
+        bbox: regions[rowIndex]?.bbox,
+      }));
+    });
+  }
+
+  /**
+   * Engines behind a file's selected OCR results, e.g. "tesseract" or "tesseract,text-layer"; null for Excel files
+   */
+  async getOcrEngineNames(parsedFileId: number): Promise<string | null> {
+    const engines = [...new Set((await this.getSelectedOcrResults(parsedFileId)).map(result => result.ocrEngine).filter(Boolean))];
+    return engines.length > 0 ? engines.join(',') : null;
+  }
+
+  private async getSelectedOcrResults(parsedFileId: number): Promise<OcrResult[]> {
+    const allResults = await this.ocrResultRepository.find({
+      where: { parsedFileId },
+      order: { pageNumber: 'ASC', id: 'ASC' }
+    });
+    // Files processed before results were marked have no selected rows - use them all
+    const selectedResults = allResults.filter(result => result.isSelected);
+    return selectedResults.length > 0 ? selectedResults : allResults;
+  }
+
+  private toOcrLines(ocrResult: OcrResult): OcrLine[] {
+    if (!Array.isArray(ocrResult.lineLevelData)) return [];
+
+    const words = Array.isArray(ocrResult.wordLevelData) ? ocrResult.wordLevelData : [];
+    return ocrResult.lineLevelData.map((line, lineIndex) => ({
+      ...line,
+      words: words
+        .filter(word => word.lineIndex === lineIndex)
+        .map(({ text, confidence, bbox }) => ({ text, confidence, bbox })),
+    }));
+  }
+
+  /**
+   * Look for a line item table in the word boxes of each selected OCR result and store
+   * it as a TableExtraction. Never fails the upload - text extraction still works without it.
+   */
+  private async detectLineItemTables(parsedFileId: number): Promise<TableExtraction[]> {
+    const tableExtractions: TableExtraction[] = [];
+
     try {
-      if (preferredEngine === 'google-vision' && this.googleVisionService.isGoogleVisionAvailable()) {
-        return await this.processWithGoogleVision(file, parsedFileId);
-      } else {
-        return await this.processImageEnhanced(file, parsedFileId);
+      for (const ocrResult of await this.getSelectedOcrResults(parsedFileId)) {
+        const startTime = Date.now();
+        const table = this.tableLayoutAnalyzerService.analyze(this.toOcrLines(ocrResult));
+        if (!table) continue;
+
+        const cells = table.cellTypes.flat();
+        const emptyCells = cells.filter(type => type === 'empty').length;
+
+        const tableExtraction = new TableExtraction();
+        tableExtraction.parsedFileId = parsedFileId;
+        tableExtraction.tableIndex = tableExtractions.length;
+        tableExtraction.tableName = 'Line items';
+        tableExtraction.pageNumber = ocrResult.pageNumber;
+        tableExtraction.headers = table.columns.map(column => column.label);
+        tableExtraction.tableData = JSON.stringify(table.rows.map(row => table.columns.map(column => row.cells[column.key] || '')));
+        tableExtraction.rowCount = table.rows.length;
+        tableExtraction.columnCount = table.columns.length;
+        tableExtraction.cellTypes = table.cellTypes;
+        tableExtraction.boundingBox = table.boundingBox;
+        tableExtraction.tableConfidence = table.tableConfidence;
+        tableExtraction.emptyCells = emptyCells;
+        tableExtraction.dataCompleteness = cells.length > 0 ? Math.round((cells.length - emptyCells) / cells.length * 10000) / 100 : 0;
+        tableExtraction.hasHeaderRow = true;
+        tableExtraction.hasNumericData = cells.includes('number');
+        tableExtraction.hasDateData = cells.includes('date');
+        tableExtraction.extractionMethod = LINE_ITEM_TABLE_METHOD;
+        tableExtraction.extractionOptions = { ocrResultId: ocrResult.id, columns: table.columns.map(({ key, label }) => ({ key, label })) };
+        tableExtraction.ocrTableRegions = table.rows.map(row => ({ lineText: row.lineText, confidence: row.confidence, bbox: row.bbox }));
+        tableExtraction.ocrAverageConfidence = table.rows.reduce((sum, row) => sum + row.confidence, 0) / table.rows.length;
+        tableExtraction.processingTimeMs = Date.now() - startTime;
+        tableExtraction.createdAt = new Date();
+
+        tableExtractions.push(await this.tableExtractionRepository.save(tableExtraction));
       }
     } catch (error) {
-      // Fallback to Tesseract
-      return await this.processImageEnhanced(file, parsedFileId);
+      // Table layout is an extra signal - the regex item parser still runs on the text
     }
+
+    return tableExtractions;
   }
 
   /**
-   * Get optimized Tesseract configuration for medical bills
+   * Persist an uploaded buffer as <sha256>.<ext> in the configured storage; filePath is its storage URI
    */
-  private getMedicalBillTesseractConfig(): any {
-    return {
-      logger: (m: any) => {
-        if (m.status === 'recognizing text') {
-          // OCR progress
-        }
-      },
-      // Enhanced OCR configuration for medical bills
-      tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789.,:;()[]{}@#$%&*+-/=<>?!"\'\\|~`^_ \n\t',
-      tessedit_pageseg_mode: '6', // Assume uniform block of text
-      preserve_interword_spaces: '1', // Preserve spaces between words
-      tessedit_ocr_engine_mode: '3', // Default neural nets LSTM engine
-      tessedit_do_invert: '0', // Don't invert image
-      textord_min_linesize: '2.0', // Minimum line size
-      textord_tabfind_show_vlines: '0', // Don't show vertical lines
-      classify_enable_learning: '1', // Enable learning
-      classify_enable_adaptive_matcher: '1', // Enable adaptive matching
-      // Medical bill specific patterns
-      user_words_suffix: 'user-words',
-      user_patterns_suffix: 'user-patterns'
-    };
+  async storeUpload(buffer: Buffer, originalName: string, mimeType?: string): Promise<{ fileHash: string; filename: string; filePath: string }> {
+    const fileHash = this.generateFileHash(buffer);
+    const filename = `${fileHash}.${this.getFileExtension(originalName)}`;
+    const filePath = await this.fileStorageService.write(filename, buffer, mimeType);
+
+    return { fileHash, filename, filePath };
+  }
+
+  /**
+   * Size in bytes of a stored file, or null if it is missing from storage
+   */
+  async getStoredFileSize(filePath: string): Promise<number | null> {
+    return this.fileStorageService.size(filePath);
+  }
+
+  /**
+   * Stream a stored file, optionally only bytes start..end (inclusive)
+   */
+  async createStoredFileStream(filePath: string, range?: ByteRange): Promise<Readable> {
+    return this.fileStorageService.createReadStream(filePath, range);
+  }
+
+  async markAccessed(parsedFileId: number): Promise<void> {
+    await this.parsedFileRepository.update(parsedFileId, { lastAccessedAt: new Date() });
+  }
+
+  /**
+   * Thumbnail of a file (created from the stored original if it has none yet);
+   * null when the file type can't be previewed here
+   */
+  async getThumbnail(parsedFile: ParsedFile): Promise<RenderedImage | null> {
+    if (parsedFile.thumbnailPath) {
+      try {
+        return { buffer: await this.readStoredFile(parsedFile.thumbnailPath), extension: this.getFileExtension(parsedFile.thumbnailPath) as RenderedImage['extension'] };
+      } catch (error) {
+        // Thumbnail removed from storage - render it again
+      }
+    }
+
+    const original = await this.readStoredFile(parsedFile.filePath);
+    const thumbnailPath = await this.storeThumbnail(original, parsedFile.fileType, parsedFile.fileHash);
+    if (!thumbnailPath) return null;
+
+    await this.parsedFileRepository.update(parsedFile.id, { thumbnailPath });
+    return { buffer: await this.readStoredFile(thumbnailPath), extension: this.getFileExtension(thumbnailPath) as RenderedImage['extension'] };
+  }
+
+  /**
+   * Page preview (1-based) for the review UI, rendered on first request and cached in storage under previews/.
+   * Null when the file type can't be previewed here; throws when the page doesn't exist.
+   */
+  async getPagePreview(parsedFile: ParsedFile, pageNumber: number): Promise<RenderedImage | null> {
+    if (!(await this.thumbnailService.canRender(parsedFile.fileType))) return null;
+
+    const cacheKey = `previews/${parsedFile.fileHash}-page-${pageNumber}-${this.thumbnailService.pagePreviewSize}`;
+    for (const extension of ['jpg', 'png'] as RenderedImage['extension'][]) {
+      try {
+        return { buffer: await this.readStoredFile(this.fileStorageService.uriFor(`${cacheKey}.${extension}`)), extension };
+      } catch (error) {
+        // Not rendered yet
+      }
+    }
+
+    const original = await this.readStoredFile(parsedFile.filePath);
+    const preview = await this.thumbnailService.renderPage(original, parsedFile.fileType, pageNumber, this.thumbnailService.pagePreviewSize);
+    await this.fileStorageService.write(`${cacheKey}.${preview.extension}`, preview.buffer, this.imageContentType(preview));
+    return preview;
+  }
+
+  /**
+   * Store the thumbnail of an upload under thumbnails/; returns its URI, or null if it can't be rendered
+   */
+  private async storeThumbnail(buffer: Buffer, fileType: FileType, fileHash: string): Promise<string | null> {
+    try {
+      if (!(await this.thumbnailService.canRender(fileType))) return null;
+
+      const thumbnail = await this.thumbnailService.renderThumbnail(buffer, fileType);
+      return await this.fileStorageService.write(`thumbnails/${fileHash}.${thumbnail.extension}`, thumbnail.buffer, this.imageContentType(thumbnail));
+    } catch (error) {
+      // A missing thumbnail never fails the upload
+      return null;
+    }
+  }
+
+  private imageContentType(image: RenderedImage): string {
+    return image.extension === 'png' ? 'image/png' : 'image/jpeg';
+  }
+
+  /**
+   * Read back a file previously written by storeUpload
+   */
+  async readStoredFile(filePath: string): Promise<Buffer> {
+    try {
+      return await this.fileStorageService.read(filePath);
+    } catch (error) {
+      throw new Error(`Failed to read stored file: ${error.message}`);
+    }
   }
 
-  private async processImageEnhanced(file: Express.Multer.File, parsedFileId: number): Promise<{ text: string; ocrResult: OcrResult | null }> {
+  /**
+   * OCR an image with the requested engine (see OcrEngineRegistryService), or with the
+   * ensemble of engines and presets, and store the result
+   */
+  private async processImageWithEngine(
+    file: Express.Multer.File,
+    parsedFileId: number,
+    engineName?: string,
+    ensemble: boolean = false,
+    imageQuality?: ImageQualityReport,
+  ): Promise<{ text: string; ocrResult: OcrResult | null }> {
     const startTime = Date.now();
-    
+    const requestedEngine = await this.ocrEngineRegistryService.resolve(engineName);
+    const quality = imageQuality || await this.imageQualityService.assess(file.buffer);
+
     // Create OCR result record
     const ocrResult = new OcrResult();
     ocrResult.parsedFileId = parsedFileId;
     ocrResult.rawText = '';
     ocrResult.overallConfidence = 0;
     ocrResult.processingTimeMs = 0;
-    ocrResult.ocrEngine = 'tesseract';
-    ocrResult.ocrVersion = '5.0.0'; // Tesseract version
-    ocrResult.language = 'eng';
+    ocrResult.ocrEngine = requestedEngine.name;
+    ocrResult.ocrVersion = requestedEngine.version;
+    ocrResult.language = requestedEngine.language;
     ocrResult.characterCount = 0;
     ocrResult.wordCount = 0;
     ocrResult.lineCount = 0;
+    ocrResult.isSelected = true;
     ocrResult.createdAt = new Date();
+    this.applyQualityData(ocrResult, quality);
     // OCR result created
     
     try {
-      // Preprocess the image for better OCR accuracy (specialized for medical bills)
-      const preprocessingResult = await this.imagePreprocessingService.preprocessMedicalBill(file.buffer, file.originalname);
-      
-      const result = await Tesseract.recognize(preprocessingResult.processedBuffer, 'eng', this.getMedicalBillTesseractConfig());
-      
-      const extractedText = result.data.text.trim();
+      if (ensemble) {
+        const ensembleResult = await this.runEnsembleOcr(file.buffer, file.originalname, parsedFileId, 1, quality);
+        return {
+          text: ensembleResult.rawText,
+          ocrResult: ensembleResult
+        };
+      }
+
+      const { text: extractedText, confidence, lines, engine, preprocessing } = await this.recognizeImage(file.buffer, file.originalname, requestedEngine);
       const processingTime = Date.now() - startTime;
       
       // Populate OCR result with successful data
+      ocrResult.ocrEngine = engine.name;
+      ocrResult.ocrVersion = engine.version;
+      ocrResult.language = engine.language;
       ocrResult.rawText = extractedText || 'No text detected in image';
-      ocrResult.overallConfidence = (result.data.confidence || 0) + preprocessingResult.confidenceBoost;
+      ocrResult.overallConfidence = confidence;
+      this.applyLayoutData(ocrResult, lines);
       ocrResult.processingTimeMs = processingTime;
       ocrResult.characterCount = (extractedText || '').length;
       ocrResult.wordCount = (extractedText || '').split(/\s+/).length;
       ocrResult.lineCount = (extractedText || '').split('\n').length;
+      ocrResult.processingOptions = { preprocessing: 'medical-bill', requestedEngine: requestedEngine.name };
+      this.applyGeometryData(ocrResult, 'medical-bill', preprocessing);
       
       // Save OCR result
       const savedOcrResult = await this.ocrResultRepository.save(ocrResult);
@@ -289,6 +659,9 @@ export class FileProcessingService {
         `• Please try uploading a clearer image or different format.`;
       
       // Populate OCR result with error data
+      if (ensemble) {
+        ocrResult.ocrEngine = 'ensemble';
+      }
       ocrResult.rawText = fallbackText;
       ocrResult.overallConfidence = 0;
       ocrResult.processingTimeMs = processingTime;
@@ -303,74 +676,324 @@ export class FileProcessingService {
     }
   }
 
-  private async processWithGoogleVision(file: Express.Multer.File, parsedFileId: number): Promise<{ text: string; ocrResult: OcrResult | null }> {
+  /**
+   * Preprocess an image (medical bill preset) and run an OCR engine on it.
+   * If the engine fails, Tesseract is tried before giving up.
+   */
+  private async recognizeImage(imageBuffer: Buffer, filename: string, engine: OcrEngine): Promise<OcrEngineResult & { engine: OcrEngine; preprocessing: PreprocessingResult }> {
+    // Preprocess the image for better OCR accuracy (specialized for medical bills)
+    const preprocessingResult = await this.imagePreprocessingService.preprocessWithPreset('medical-bill', imageBuffer, filename);
+
+    let result: OcrEngineResult;
+    try {
+      result = await engine.recognize(preprocessingResult.processedBuffer);
+    } catch (error) {
+      const fallback = this.ocrEngineRegistryService.getFallback();
+      if (engine === fallback) {
+        throw error;
+      }
+      engine = fallback;
+      result = await engine.recognize(preprocessingResult.processedBuffer);
+    }
+
+    return {
+      ...result,
+      confidence: result.confidence + preprocessingResult.confidenceBoost,
+      engine,
+      preprocessing: preprocessingResult
+    };
+  }
+
+  /**
+   * Ensemble OCR: every engine x preset combination is stored as its own (unselected)
+   * OcrResult; the per-line merge is stored as the selected 'ensemble' result.
+   * Throws if every run failed.
+   */
+  private async runEnsembleOcr(imageBuffer: Buffer, filename: string, parsedFileId: number, pageNumber: number, quality?: ImageQualityReport): Promise<OcrResult> {
     const startTime = Date.now();
-    
-    // Create OCR result record
+    const engines = await this.ocrEngineRegistryService.getAvailableEngines(this.ensembleEngines.length > 0 ? this.ensembleEngines : undefined);
+    const runs: EnsembleRun[] = [];
+    const runSummaries: any[] = [];
+    const runPreprocessing: PreprocessingResult[] = []; // Parallel to `runs`
+    const errors: string[] = [];
+
+    for (const preset of this.ensemblePresets) {
+      let preprocessingResult: PreprocessingResult;
+      try {
+        preprocessingResult = await this.imagePreprocessingService.preprocessWithPreset(preset, imageBuffer, filename);
+      } catch (error) {
+        errors.push(`${preset}: ${error.message}`);
+        continue;
+      }
+
+      for (const engine of engines) {
+        const runStart = Date.now();
+        const runResult = new OcrResult();
+        runResult.parsedFileId = parsedFileId;
+        runResult.pageNumber = pageNumber;
+        runResult.ocrEngine = engine.name;
+        runResult.ocrVersion = engine.version;
+        runResult.language = engine.language;
+        runResult.isSelected = false;
+        runResult.processingOptions = { ensemble: true, preprocessing: preset };
+        this.applyGeometryData(runResult, preset, preprocessingResult);
+        runResult.createdAt = new Date();
+
+        let run: EnsembleRun = null;
+        try {
+          const { text, confidence, lines } = await engine.recognize(preprocessingResult.processedBuffer);
+          run = { engine: engine.name, preset, confidence, lines };
+          runResult.rawText = text;
+          runResult.overallConfidence = confidence;
+          this.applyLayoutData(runResult, lines);
+        } catch (error) {
+          runResult.rawText = '';
+          runResult.overallConfidence = 0;
+          runResult.errors = error.message;
+          errors.push(`${engine.name}/${preset}: ${error.message}`);
+        }
+
+        runResult.processingTimeMs = Date.now() - runStart;
+        runResult.characterCount = runResult.rawText.length;
+        runResult.wordCount = runResult.rawText ? runResult.rawText.split(/\s+/).length : 0;
+        runResult.lineCount = runResult.rawText ? runResult.rawText.split('\n').length : 0;
+        const savedRun = await this.ocrResultRepository.save(runResult);
+
+        runSummaries.push({ ocrResultId: savedRun.id, engine: engine.name, preset, confidence: runResult.overallConfidence, error: runResult.errors || undefined });
+        if (run) {
+          runs.push(run);
+          runPreprocessing.push(preprocessingResult);
+        }
+      }
+    }
+
+    if (runs.length === 0) {
+      throw new Error(`Every ensemble OCR run failed${errors.length > 0 ? `: ${errors.join('; ')}` : ''}`);
+    }
+
+    const merged = this.ocrEnsembleService.merge(runs);
+    const successfulRuns = runSummaries.filter(summary => !summary.error);
+    const referenceRun = successfulRuns[merged.referenceRunIndex];
+
     const ocrResult = new OcrResult();
     ocrResult.parsedFileId = parsedFileId;
-    ocrResult.rawText = '';
-    ocrResult.overallConfidence = 0;
-    ocrResult.processingTimeMs = 0;
-    ocrResult.ocrEngine = 'google-vision';
-    ocrResult.ocrVersion = 'v1'; // Google Vision API version
-    ocrResult.language = 'en';
-    ocrResult.characterCount = 0;
-    ocrResult.wordCount = 0;
-    ocrResult.lineCount = 0;
+    ocrResult.pageNumber = pageNumber;
+    ocrResult.ocrEngine = 'ensemble';
+    ocrResult.ocrVersion = 'v1';
+    ocrResult.language = engines.find(engine => engine.name === referenceRun?.engine)?.language || 'eng';
+    ocrResult.isSelected = true;
+    ocrResult.rawText = merged.text;
+    ocrResult.overallConfidence = merged.confidence;
+    this.applyLayoutData(ocrResult, merged.lines);
+    ocrResult.processingTimeMs = Date.now() - startTime;
+    ocrResult.characterCount = merged.text.length;
+    ocrResult.wordCount = merged.text ? merged.text.split(/\s+/).length : 0;
+    ocrResult.lineCount = merged.lines.length;
+    ocrResult.processingOptions = {
+      ensemble: true,
+      runs: runSummaries,
+      referenceOcrResultId: referenceRun?.ocrResultId,
+      // Which run each merged line came from
+      lineSources: merged.choices.map(choice => ({
+        lineIndex: choice.lineIndex,
+        ocrResultId: successfulRuns[choice.runIndex].ocrResultId,
+        confidence: choice.confidence,
+        agreement: choice.agreement,
+        candidates: choice.candidates,
+      })),
+    };
+    if (referenceRun) {
+      // Line boxes follow the reference run's image, so its geometry describes the result
+      this.applyGeometryData(ocrResult, referenceRun.preset, runPreprocessing[merged.referenceRunIndex]);
+    }
+    ocrResult.warnings = errors.length > 0 ? errors.join('\n') : null;
+    this.applyQualityData(ocrResult, quality);
     ocrResult.createdAt = new Date();
-    // OCR result created
-    
+
+    return await this.ocrResultRepository.save(ocrResult);
+  }
+
+  /**
+   * Store the preprocessing steps and the detected page geometry (skew, orientation) on an OCR result
+   */
+  private applyGeometryData(ocrResult: OcrResult, preset: string, preprocessing: PreprocessingResult): void {
+    ocrResult.imagePreprocessing = {
+      preset,
+      appliedOperations: preprocessing.appliedOperations,
+      orientation: preprocessing.orientation,
+      perspectiveCorrected: preprocessing.perspectiveCorrected,
+    };
+    ocrResult.skewAngle = preprocessing.skewAngle ?? null;
+    ocrResult.textOrientation = preprocessing.textOrientation ?? null;
+  }
+
+  /**
+   * Store the pre-OCR quality assessment; its issues are added to the result's warnings
+   */
+  private applyQualityData(ocrResult: OcrResult, quality?: ImageQualityReport | null): void {
+    if (!quality) return;
+
+    ocrResult.imageQuality = quality.imageQuality;
+    ocrResult.hasBlur = quality.hasBlur;
+    ocrResult.hasNoise = quality.hasNoise;
+    ocrResult.qualityMetrics = quality.metrics;
+    if (quality.issues.length > 0) {
+      ocrResult.warnings = [ocrResult.warnings, ...quality.issues.map(issue => issue.message)].filter(Boolean).join('\n');
+    }
+  }
+
+  /**
+   * Store line and word boxes/confidences on an OCR result (words keep the index of their line)
+   */
+  private applyLayoutData(ocrResult: OcrResult, lines: OcrLine[]): void {
+    ocrResult.lineLevelData = lines.map(({ text, confidence, bbox }) => ({ text, confidence, bbox }));
+    ocrResult.wordLevelData = lines.flatMap((line, lineIndex) => line.words.map(word => ({ ...word, lineIndex })));
+  }
+
+  /**
+   * Extract PDF text page by page. Pages without a usable text layer (scans) are
+   * rasterized and OCRed; the merged text keeps the original page order.
+   */
+  private async processPdf(file: Express.Multer.File, parsedFileId: number, ocrMode: PdfOcrMode, engineName?: string, ensemble: boolean = false): Promise<{ text: string; pages: PdfPageSummary[]; averageConfidence: number }> {
+    const pageTexts: string[] = [];
+
     try {
-      // Preprocess the image for better OCR accuracy (specialized for medical bills)
-      const preprocessingResult = await this.imagePreprocessingService.preprocessMedicalBill(file.buffer, file.originalname);
-      
-      const visionResult = await this.googleVisionService.extractTableFromImage(preprocessingResult.processedBuffer);
-      const processingTime = Date.now() - startTime;
-      
-      // Populate OCR result
-      ocrResult.rawText = visionResult.text;
-      ocrResult.overallConfidence = visionResult.confidence + preprocessingResult.confidenceBoost;
-      ocrResult.processingTimeMs = processingTime;
-      ocrResult.characterCount = (visionResult.text || '').length;
-      ocrResult.wordCount = (visionResult.text || '').split(/\s+/).length;
-      ocrResult.lineCount = (visionResult.text || '').split('\n').length;
-      
-      // Save OCR result
-      const savedOcrResult = await this.ocrResultRepository.save(ocrResult);
-      
-      return {
-        text: visionResult.text,
-        ocrResult: savedOcrResult
-      };
-      
+      await pdfParse(file.buffer, {
+        pagerender: (pageData: any) => this.renderPdfPageText(pageData).then(text => {
+          pageTexts[pageData.pageNumber - 1] = text;
+          return text;
+        })
+      });
     } catch (error) {
-      const processingTime = Date.now() - startTime;
-      
-      // Create error OCR result
-      ocrResult.rawText = `Google Vision processing failed: ${error.message}`;
-      ocrResult.overallConfidence = 0;
-      ocrResult.processingTimeMs = processingTime;
-      
-      // Save OCR result
-      const savedOcrResult = await this.ocrResultRepository.save(ocrResult);
-      
+      throw new Error(`PDF processing failed: ${error.message}`);
+    }
+
+    const canOcr = ocrMode !== 'off' && await this.pdfRasterizerService.isAvailable();
+    const engine = canOcr ? await this.ocrEngineRegistryService.resolve(engineName) : null;
+    const pages: PdfPageSummary[] = [];
+    const mergedPages: string[] = [];
+
+    for (let index = 0; index < pageTexts.length; index++) {
+      const pageNumber = index + 1;
+      let pageText = (pageTexts[index] || '').trim();
+      const hasTextLayer = pageText.replace(/\s/g, '').length >= this.pdfMinTextLayerChars;
+      let source: PdfPageSummary['source'] = hasTextLayer ? 'text-layer' : 'empty';
+      let confidence: number | null = hasTextLayer ? 100 : null;
+
+      const ocrResult = canOcr && (ocrMode === 'force' || !hasTextLayer)
+        ? await this.processPdfPageWithOcr(file, parsedFileId, pageNumber, engine, ensemble)
+        : null;
+
+      if (ocrResult) {
+        pageText = ocrResult.rawText;
+        source = 'ocr';
+        confidence = ocrResult.overallConfidence;
+      } else if (hasTextLayer) {
+        await this.saveTextLayerOcrResult(parsedFileId, pageNumber, pageText);
+      }
+
+      pages.push({ pageNumber, source, characterCount: pageText.length, confidence });
+      if (pageText) {
+        mergedPages.push(pageText);
+      }
+    }
+
+    const scoredPages = pages.filter(page => page.confidence !== null);
+    const averageConfidence = scoredPages.length > 0
+      ? scoredPages.reduce((sum, page) => sum + page.confidence, 0) / scoredPages.length
+      : 0;
+
     return {
-        text: `Google Vision processing failed: ${error.message}`,
-        ocrResult: savedOcrResult
-      };
+      text: mergedPages.join('\n\n'),
+      pages,
+      averageConfidence
+    };
+  }
+
+  /**
+   * Same line-joining logic as pdf-parse's default page renderer
+   */
+  private async renderPdfPageText(pageData: any): Promise<string> {
+    const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number;
+    let text = '';
+    for (const item of textContent.items) {
+      if (lastY == item.transform[5] || !lastY) {
+        text += item.str;
+      } else {
+        text += '\n' + item.str;
+      }
+      lastY = item.transform[5];
     }
+    return text;
   }
 
-  private async processPdf(file: Express.Multer.File): Promise<string> {
+  /**
+   * Rasterize one PDF page, OCR it and store the result under its page number
+   */
+  private async processPdfPageWithOcr(file: Express.Multer.File, parsedFileId: number, pageNumber: number, requestedEngine: OcrEngine, ensemble: boolean): Promise<OcrResult | null> {
+    const startTime = Date.now();
+
     try {
-      const data = await pdfParse(file.buffer);
-      return data.text;
+      const pageImage = await this.pdfRasterizerService.rasterizePage(file.buffer, pageNumber);
+      if (ensemble) {
+        return await this.runEnsembleOcr(pageImage, `${file.originalname}#page-${pageNumber}.png`, parsedFileId, pageNumber);
+      }
+
+      const { text, confidence, lines, engine, preprocessing } = await this.recognizeImage(pageImage, `${file.originalname}#page-${pageNumber}.png`, requestedEngine);
+
+      const ocrResult = new OcrResult();
+      ocrResult.parsedFileId = parsedFileId;
+      ocrResult.pageNumber = pageNumber;
+      ocrResult.ocrEngine = engine.name;
+      ocrResult.ocrVersion = engine.version;
+      ocrResult.language = engine.language;
+      ocrResult.rawText = text;
+      ocrResult.overallConfidence = confidence;
+      ocrResult.processingTimeMs = Date.now() - startTime;
+      ocrResult.characterCount = text.length;
+      ocrResult.wordCount = text.split(/\s+/).length;
+      ocrResult.lineCount = text.split('\n').length;
+      ocrResult.processingOptions = { source: 'pdf-rasterized-page', dpi: 200, requestedEngine: requestedEngine.name };
+      ocrResult.isSelected = true;
+      this.applyLayoutData(ocrResult, lines);
+      this.applyGeometryData(ocrResult, 'medical-bill', preprocessing);
+      ocrResult.createdAt = new Date();
+
+      return await this.ocrResultRepository.save(ocrResult);
     } catch (error) {
-      throw new Error(`PDF processing failed: ${error.message}`);
+      // Leave the page empty rather than failing the whole document
+      return null;
     }
   }
 
+  private async saveTextLayerOcrResult(parsedFileId: number, pageNumber: number, text: string): Promise<OcrResult> {
+    const ocrResult = new OcrResult();
+    ocrResult.parsedFileId = parsedFileId;
+    ocrResult.pageNumber = pageNumber;
+    ocrResult.ocrEngine = 'pdf-text-layer';
+    ocrResult.ocrVersion = 'pdf-parse';
+    ocrResult.language = 'eng';
+    ocrResult.rawText = text;
+    ocrResult.overallConfidence = 100;
+    ocrResult.processingTimeMs = 0;
+    ocrResult.characterCount = text.length;
+    ocrResult.wordCount = text.split(/\s+/).length;
+    ocrResult.lineCount = text.split('\n').length;
+    ocrResult.isSelected = true;
+    ocrResult.createdAt = new Date();
+
+    // Embedded text is exact - lines and words get full confidence (no boxes)
+    const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    this.applyLayoutData(ocrResult, lines.map(line => ({
+      text: line,
+      confidence: 100,
+      words: line.split(/\s+/).map(word => ({ text: word, confidence: 100 })),
+    })));
+
+    return await this.ocrResultRepository.save(ocrResult);
+  }
+
   private async processExcel(file: Express.Multer.File, parsedFileId: number): Promise<{ text: string; tableExtractions: TableExtraction[]; parsedContent: any }> {
     try {
       const workbook = XLSX.read(file.buffer, { type: 'buffer' });
@@ -518,21 +1141,11 @@ export class FileProcessingService {
     }
   }
 
-  private generateFileHash(buffer: Buffer): string {
+  generateFileHash(buffer: Buffer): string {
     return crypto.createHash('sha256').update(buffer).digest('hex');
   }
 
   private getFileExtension(filename: string): string {
     return filename.split('.').pop() || 'unknown';
   }
-
-  private async saveFileToDisk(buffer: Buffer, filePath: string): Promise<void> {
-    try {
-      const dir = path.dirname(filePath);
-      await mkdirAsync(dir, { recursive: true });
-      await writeFileAsync(filePath, buffer);
-    } catch (error) {
-      throw new Error(`Failed to save file to disk: ${error.message}`);
-    }
-  }
 }
@@ -0,0 +1,27 @@
+import { Readable } from 'stream';
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+/**
+ * Where uploads, thumbnails and previews are kept. Stored files are addressed by a URI
+ * (`<scheme>://...`) saved in ParsedFile.filePath, so files written by one driver stay
+ * readable after STORAGE_DRIVER changes. Register new drivers in the FILE_STORAGE_DRIVERS
+ * provider in AppModule.
+ */
+export interface FileStorageDriver {
+  readonly name: string; // Value of STORAGE_DRIVER
+  readonly scheme: string; // URI scheme of the files it stores
+  isConfigured(): boolean;
+  uriFor(key: string): string; // URI a key (e.g. `thumbnails/<hash>.jpg`) is stored under
+  write(key: string, buffer: Buffer, contentType?: string): Promise<string>; // Returns the URI
+  read(uri: string): Promise<Buffer>;
+  size(uri: string): Promise<number | null>; // Null when the file doesn't exist
+  createReadStream(uri: string, range?: ByteRange): Promise<Readable>;
+  delete(uri: string): Promise<void>;
+}
+
+// Injection token for the list of registered storage drivers
+export const FILE_STORAGE_DRIVERS = 'FILE_STORAGE_DRIVERS';
@@ -0,0 +1,65 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { ByteRange, FILE_STORAGE_DRIVERS, FileStorageDriver } from './file-storage.interface';
+
+const DEFAULT_DRIVER = 'local';
+
+/**
+ * Entry point for stored files. New files go to the STORAGE_DRIVER driver (default local disk);
+ * existing files are read through the driver matching their URI scheme. Paths without a
+ * scheme are legacy local paths.
+ */
+@Injectable()
+export class FileStorageService {
+  private readonly driverName = process.env.STORAGE_DRIVER || DEFAULT_DRIVER;
+
+  constructor(@Inject(FILE_STORAGE_DRIVERS) private readonly drivers: FileStorageDriver[]) {}
+
+  /**
+   * Driver new files are written to; throws when it is unknown or not configured,
+   * rather than silently keeping files somewhere they would be lost
+   */
+  getActiveDriver(): FileStorageDriver {
+    const driver = this.drivers.find(candidate => candidate.name === this.driverName);
+    if (!driver) {
+      throw new Error(`Unknown STORAGE_DRIVER "${this.driverName}". Expected one of: ${this.drivers.map(candidate => candidate.name).join(', ')}`);
+    }
+    if (!driver.isConfigured()) {
+      throw new Error(`Storage driver "${driver.name}" is not configured`);
+    }
+    return driver;
+  }
+
+  uriFor(key: string): string {
+    return this.getActiveDriver().uriFor(key);
+  }
+
+  async write(key: string, buffer: Buffer, contentType?: string): Promise<string> {
+    return this.getActiveDriver().write(key, buffer, contentType);
+  }
+
+  async read(uri: string): Promise<Buffer> {
+    return this.driverFor(uri).read(uri);
+  }
+
+  async size(uri: string): Promise<number | null> {
+    return this.driverFor(uri).size(uri);
+  }
+
+  async createReadStream(uri: string, range?: ByteRange): Promise<Readable> {
+    return this.driverFor(uri).createReadStream(uri, range);
+  }
+
+  async delete(uri: string): Promise<void> {
+    return this.driverFor(uri).delete(uri);
+  }
+
+  private driverFor(uri: string): FileStorageDriver {
+    const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(uri)?.[1]?.toLowerCase() || DEFAULT_DRIVER;
+    const driver = this.drivers.find(candidate => candidate.scheme === scheme);
+    if (!driver) {
+      throw new Error(`No storage driver for "${scheme}://" files`);
+    }
+    return driver;
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { GoogleVisionService } from './google-vision.service';
+import { OcrEngine, OcrEngineResult, OcrLine, OcrWord } from './ocr-engine.interface';
+
+// detectedBreak types that end a line (enum names or their numeric values)
+const LINE_ENDING_BREAKS = ['EOL_SURE_SPACE', 'LINE_BREAK', 3, 5];
+
+/**
+ * Google Cloud Vision document text detection, mapped to the same line/word layout as Tesseract
+ */
+@Injectable()
+export class GoogleVisionOcrEngine implements OcrEngine {
+  readonly name = 'google-vision';
+  readonly version = 'v1'; // Google Vision API version
+  readonly language = 'en';
+
+  constructor(private readonly googleVisionService: GoogleVisionService) {}
+
+  async isAvailable(): Promise<boolean> {
+    return this.googleVisionService.isGoogleVisionAvailable();
+  }
+
+  async recognize(imageBuffer: Buffer): Promise<OcrEngineResult> {
+    const annotation = await this.googleVisionService.detectDocumentText(imageBuffer);
+    if (!annotation) {
+      return { text: '', confidence: 0, lines: [] };
+    }
+
+    const lines: OcrLine[] = [];
+    for (const page of annotation.pages || []) {
+      for (const block of page.blocks || []) {
+        for (const paragraph of block.paragraphs || []) {
+          let words: OcrWord[] = [];
+
+          for (const word of paragraph.words || []) {
+            const symbols = word.symbols || [];
+            words.push({
+              text: symbols.map(symbol => symbol.text || '').join(''),
+              confidence: (word.confidence || 0) * 100,
+              bbox: this.toBbox(word.boundingBox?.vertices || []),
+            });
+
+            const lastBreak = symbols[symbols.length - 1]?.property?.detectedBreak?.type;
+            if (LINE_ENDING_BREAKS.includes(lastBreak)) {
+              lines.push(this.toLine(words));
+              words = [];
+            }
+          }
+
+          // A paragraph always ends its last line
+          if (words.length > 0) {
+            lines.push(this.toLine(words));
+          }
+        }
+      }
+    }
+
+    const allWords = lines.flatMap(line => line.words);
+    const confidence = allWords.length > 0
+      ? allWords.reduce((sum, word) => sum + word.confidence, 0) / allWords.length
+      : 0;
+
+    return {
+      text: (annotation.text || '').trim(),
+      confidence,
+      lines
+    };
+  }
+
+  private toLine(words: OcrWord[]): OcrLine {
+    const boxes = words.map(word => word.bbox).filter(Boolean);
+    return {
+      text: words.map(word => word.text).join(' '),
+      confidence: words.reduce((sum, word) => sum + word.confidence, 0) / words.length,
+      bbox: boxes.length > 0 ? {
+        x0: Math.min(...boxes.map(box => box.x0)),
+        y0: Math.min(...boxes.map(box => box.y0)),
+        x1: Math.max(...boxes.map(box => box.x1)),
+        y1: Math.max(...boxes.map(box => box.y1)),
+      } : undefined,
+      words,
+    };
+  }
+
+  private toBbox(vertices: any[]): OcrWord['bbox'] {
+    if (vertices.length === 0) return undefined;
+    const xs = vertices.map(vertex => vertex.x || 0);
+    const ys = vertices.map(vertex => vertex.y || 0);
+    return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) };
+  }
+}
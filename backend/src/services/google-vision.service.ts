@@ -146,6 +146,25 @@ export class GoogleVisionService {
     }
   }
 
+  /**
+   * Dense-text OCR (DOCUMENT_TEXT_DETECTION); returns the raw fullTextAnnotation
+   * (pages > blocks > paragraphs > words > symbols) or null when nothing was found
+   */
+  async detectDocumentText(imageBuffer: Buffer): Promise<any> {
+    if (!this.isAvailable) {
+      throw new Error('Google Vision API is not available. Please install @google-cloud/vision and configure credentials.');
+    }
+
+    try {
+      const [result] = await this.client.documentTextDetection({
+        image: { content: imageBuffer.toString('base64') }
+      });
+      return result.fullTextAnnotation || null;
+    } catch (error) {
+      throw new Error(`Google Vision processing failed: ${error.message}`);
+    }
+  }
+
   private reconstructTableFromBlocks(textBlocks: any[]): any[] {
     // console.log('📊 Reconstructing table structure from text blocks...');
     
@@ -14,7 +14,9 @@ export interface PreprocessingOptions {
   binarization?: boolean;
   noiseReduction?: boolean;
   contrastEnhancement?: boolean;
-  deskew?: boolean;
+  deskew?: boolean; // Estimate the text tilt and rotate it level
+  orientation?: boolean; // Detect pages turned 90/180/270 degrees and turn them upright
+  perspectiveCorrection?: boolean; // Find the receipt against its background and warp it flat
   sharpen?: boolean;
   resolutionEnhancement?: boolean;
 }
@@ -25,8 +27,33 @@ export interface PreprocessingResult {
   processedSize: { width: number; height: number };
   appliedOperations: string[];
   confidenceBoost: number;
+  skewAngle?: number; // Detected tilt in degrees (counter-clockwise positive), when deskew ran
+  orientation?: number; // Clockwise rotation applied to make the text upright, when orientation ran
+  textOrientation?: TextOrientation; // Summary for OcrResult.textOrientation
+  perspectiveCorrected?: boolean;
 }
 
+export type TextOrientation = 'normal' | 'skewed' | 'rotated-90' | 'rotated-180' | 'rotated-270';
+
+// 8-bit single-channel pixels, row-major
+interface GrayImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+type Point = { x: number; y: number };
+
+// Tilt below this is left alone (resampling would cost more sharpness than it gains)
+const MIN_DESKEW_ANGLE = 0.3;
+const MAX_SKEW_ANGLE = 15;
+// Longest side of the downscaled copy used for geometry analysis
+const ANALYSIS_SIZE = 1200;
+const PERSPECTIVE_ANALYSIS_SIZE = 800;
+
+export type PreprocessingPreset = 'medical-bill' | 'invoice' | 'high-quality';
+export const PREPROCESSING_PRESETS: PreprocessingPreset[] = ['medical-bill', 'invoice', 'high-quality'];
+
 @Injectable()
 export class ImagePreprocessingService {
 
@@ -56,7 +83,11 @@ export class ImagePreprocessingService {
       height: imageInfo.height || 0 
     };
     
-    let sharpImage = sharp(imageBuffer);
+    // 0. Geometry: EXIF rotation, perspective, page orientation and skew
+    const geometry = await this.correctGeometry(imageBuffer, imageInfo, options, appliedOperations);
+    const workingSize = geometry.size;
+
+    let sharpImage = sharp(geometry.buffer);
     
     // 1. Convert to grayscale for better OCR (recommended for text)
     if (options.grayscale !== false) {
@@ -65,11 +96,11 @@ export class ImagePreprocessingService {
     }
     
     // 2. Enhance resolution for small images
-    if (options.resolutionEnhancement && (originalSize.width < 1200 || originalSize.height < 800)) {
-      const scaleFactor = Math.min(2.0, 1200 / originalSize.width);
+    if (options.resolutionEnhancement && (workingSize.width < 1200 || workingSize.height < 800)) {
+      const scaleFactor = Math.min(2.0, 1200 / workingSize.width);
       sharpImage = sharpImage.resize(
-        Math.round(originalSize.width * scaleFactor),
-        Math.round(originalSize.height * scaleFactor),
+        Math.round(workingSize.width * scaleFactor),
+        Math.round(workingSize.height * scaleFactor),
         { kernel: sharp.kernel.lanczos3 }
       );
       appliedOperations.push(`upscale-${scaleFactor.toFixed(1)}x`);
@@ -121,10 +152,388 @@ export class ImagePreprocessingService {
       originalSize,
       processedSize,
       appliedOperations,
-      confidenceBoost
+      confidenceBoost,
+      skewAngle: geometry.skewAngle,
+      orientation: geometry.orientation,
+      textOrientation: geometry.textOrientation,
+      perspectiveCorrected: geometry.perspectiveCorrected
     };
   }
 
+  /**
+   * Straighten the page before any other operation: apply EXIF rotation, optionally warp
+   * the receipt flat, turn sideways/upside-down pages upright and level tilted text.
+   */
+  private async correctGeometry(
+    imageBuffer: Buffer,
+    imageInfo: any,
+    options: PreprocessingOptions,
+    appliedOperations: string[]
+  ): Promise<{ buffer: Buffer; size: { width: number; height: number } } & Pick<PreprocessingResult, 'skewAngle' | 'orientation' | 'textOrientation' | 'perspectiveCorrected'>> {
+    let buffer = imageBuffer;
+    const result: Pick<PreprocessingResult, 'skewAngle' | 'orientation' | 'textOrientation' | 'perspectiveCorrected'> = {};
+
+    // Phone cameras store the rotation in EXIF instead of rotating the pixels
+    if (imageInfo.orientation && imageInfo.orientation > 1) {
+      buffer = await sharp(buffer).rotate().toBuffer();
+      appliedOperations.push('exif-orientation');
+    }
+
+    if (options.perspectiveCorrection) {
+      const warped = await this.correctPerspective(buffer);
+      result.perspectiveCorrected = warped !== null;
+      if (warped) {
+        buffer = warped;
+        appliedOperations.push('perspective-correction');
+      }
+    }
+
+    if (options.orientation || options.deskew) {
+      const gray = await this.loadGray(buffer, ANALYSIS_SIZE);
+      let ink = this.inkPoints(gray);
+      let orientation = 0;
+
+      if (options.orientation && this.hasVerticalTextLines(ink)) {
+        // Turn clockwise; the upside-down check below tells 90 from 270
+        orientation = 90;
+        ink = { xs: ink.ys.map(y => gray.height - 1 - y), ys: ink.xs };
+      }
+
+      const skewAngle = options.deskew ? this.estimateSkew(ink) : 0;
+
+      if (options.orientation && this.isUpsideDown(ink, skewAngle)) {
+        orientation += 180;
+      }
+
+      const leveling = Math.abs(skewAngle) >= MIN_DESKEW_ANGLE ? skewAngle : 0;
+      if (orientation !== 0 || leveling !== 0) {
+        // sharp rotates clockwise; a counter-clockwise tilt is undone by turning clockwise
+        buffer = await sharp(buffer).rotate(orientation + leveling, { background: '#ffffff' }).toBuffer();
+      }
+      if (orientation !== 0) appliedOperations.push(`rotate-${orientation}`);
+      if (leveling !== 0) appliedOperations.push(`deskew-${leveling.toFixed(1)}`);
+
+      if (options.deskew) result.skewAngle = Math.round(skewAngle * 100) / 100 || 0;
+      if (options.orientation) result.orientation = orientation;
+      result.textOrientation = orientation !== 0
+        ? `rotated-${orientation}` as TextOrientation
+        : leveling !== 0 ? 'skewed' : 'normal';
+    }
+
+    const info = buffer === imageBuffer ? imageInfo : await sharp(buffer).metadata();
+    return {
+      buffer,
+      size: { width: info.width || 0, height: info.height || 0 },
+      ...result
+    };
+  }
+
+  /**
+   * Downscaled 8-bit grayscale pixels for analysis
+   */
+  private async loadGray(buffer: Buffer, maxSize: number): Promise<GrayImage> {
+    const { data, info } = await sharp(buffer)
+      .grayscale()
+      .resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { data: new Uint8Array(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height };
+  }
+
+  /**
+   * Otsu's threshold: the gray level that best separates ink from paper
+   */
+  private otsuThreshold(gray: GrayImage): number {
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < gray.data.length; i++) histogram[gray.data[i]]++;
+
+    const total = gray.data.length;
+    const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+    let sumBackground = 0;
+    let weightBackground = 0;
+    let bestVariance = -1;
+    let threshold = 128;
+
+    for (let level = 0; level < 256; level++) {
+      weightBackground += histogram[level];
+      if (weightBackground === 0) continue;
+      const weightForeground = total - weightBackground;
+      if (weightForeground === 0) break;
+
+      sumBackground += level * histogram[level];
+      const meanBackground = sumBackground / weightBackground;
+      const meanForeground = (sumAll - sumBackground) / weightForeground;
+      const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+      if (variance > bestVariance) {
+        bestVariance = variance;
+        threshold = level;
+      }
+    }
+    return threshold;
+  }
+
+  /**
+   * Coordinates of dark (ink) pixels, sampled down to keep the projections fast
+   */
+  private inkPoints(gray: GrayImage, maxPoints: number = 200000): { xs: number[]; ys: number[] } {
+    const threshold = this.otsuThreshold(gray);
+    let count = 0;
+    for (let i = 0; i < gray.data.length; i++) if (gray.data[i] <= threshold) count++;
+
+    const step = Math.max(1, Math.ceil(count / maxPoints));
+    const xs: number[] = [];
+    const ys: number[] = [];
+    let seen = 0;
+    for (let i = 0; i < gray.data.length; i++) {
+      if (gray.data[i] > threshold) continue;
+      if (seen++ % step === 0) {
+        xs.push(i % gray.width);
+        ys.push(Math.floor(i / gray.width));
+      }
+    }
+    return { xs, ys };
+  }
+
+  /**
+   * Histogram of ink across lines tilted by `angle` degrees (counter-clockwise positive)
+   */
+  private projectionProfile(ink: { xs: number[]; ys: number[] }, angle: number): { bins: number[]; offset: number } {
+    const radians = angle * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const positions = ink.xs.map((x, i) => Math.round(ink.ys[i] * cos + x * sin));
+    // Too many points to spread into Math.min/max
+    const offset = positions.reduce((min, position) => Math.min(min, position), Infinity);
+    const last = positions.reduce((max, position) => Math.max(max, position), -Infinity);
+    const bins = new Array(Math.max(0, last - offset + 1)).fill(0);
+    for (const position of positions) bins[position - offset]++;
+    return { bins, offset };
+  }
+
+  /**
+   * Text lines give a spiky profile when the projection runs along them
+   */
+  private profileSharpness(bins: number[]): number {
+    let score = 0;
+    for (let i = 1; i < bins.length; i++) score += (bins[i] - bins[i - 1]) ** 2;
+    return score;
+  }
+
+  private bestSharpness(ink: { xs: number[]; ys: number[] }, from: number, to: number, step: number): { angle: number; score: number } {
+    let best = { angle: 0, score: -1 };
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const score = this.profileSharpness(this.projectionProfile(ink, angle).bins);
+      if (score > best.score) best = { angle, score };
+    }
+    return best;
+  }
+
+  /**
+   * Tilt of the text lines in degrees (counter-clockwise positive): coarse search, then refine
+   */
+  private estimateSkew(ink: { xs: number[]; ys: number[] }): number {
+    if (ink.xs.length < 100) return 0;
+
+    const coarse = this.bestSharpness(ink, -MAX_SKEW_ANGLE, MAX_SKEW_ANGLE, 0.5);
+    const fine = this.bestSharpness(ink, coarse.angle - 0.5, coarse.angle + 0.5, 0.1);
+    return Math.round(fine.angle * 10) / 10;
+  }
+
+  /**
+   * Lines of text run along whichever axis gives the sharper projection
+   */
+  private hasVerticalTextLines(ink: { xs: number[]; ys: number[] }): boolean {
+    if (ink.xs.length < 100) return false;
+
+    const horizontal = this.bestSharpness(ink, -MAX_SKEW_ANGLE, MAX_SKEW_ANGLE, 1).score;
+    const vertical = this.bestSharpness({ xs: ink.ys, ys: ink.xs }, -MAX_SKEW_ANGLE, MAX_SKEW_ANGLE, 1).score;
+    return vertical > horizontal * 1.3;
+  }
+
+  /**
+   * Latin script has more ascenders (capitals, digits, b d f h k l t) than descenders
+   * (g j p q y): an upright line carries more ink above its x-height core than below it.
+   * Needs a few lines and a clear majority before calling a page upside down.
+   */
+  private isUpsideDown(ink: { xs: number[]; ys: number[] }, skewAngle: number): boolean {
+    const { bins } = this.projectionProfile(ink, skewAngle);
+    const threshold = Math.max(...bins) * 0.05;
+
+    let ascenders = 0;
+    let descenders = 0;
+    let lineCount = 0;
+    let start = -1;
+
+    for (let i = 0; i <= bins.length; i++) {
+      const inLine = i < bins.length && bins[i] > threshold;
+      if (inLine && start === -1) start = i;
+      if (!inLine && start !== -1) {
+        const band = bins.slice(start, i);
+        if (band.length >= 4) {
+          // Core = rows at least half as dense as the densest row (the x-height zone)
+          const peak = Math.max(...band);
+          const coreStart = band.findIndex(count => count >= peak / 2);
+          const coreEnd = band.length - 1 - [...band].reverse().findIndex(count => count >= peak / 2);
+          ascenders += band.slice(0, coreStart).reduce((sum, count) => sum + count, 0);
+          descenders += band.slice(coreEnd + 1).reduce((sum, count) => sum + count, 0);
+          lineCount++;
+        }
+        start = -1;
+      }
+    }
+
+    return lineCount >= 3 && descenders > ascenders * 1.25;
+  }
+
+  /**
+   * Find the receipt (largest bright region) against a darker background and warp its
+   * quadrilateral to a rectangle. Returns null when no distinct receipt is found.
+   */
+  private async correctPerspective(buffer: Buffer): Promise<Buffer | null> {
+    const small = await this.loadGray(buffer, PERSPECTIVE_ANALYSIS_SIZE);
+    const corners = this.findDocumentCorners(small);
+    if (!corners) return null;
+
+    const { data, info } = await sharp(buffer).grayscale().raw().toBuffer({ resolveWithObject: true });
+    const scaleX = info.width / small.width;
+    const scaleY = info.height / small.height;
+    const [topLeft, topRight, bottomRight, bottomLeft] = corners.map(point => ({ x: point.x * scaleX, y: point.y * scaleY }));
+
+    const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+    const width = Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)));
+    const height = Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)));
+    if (width < 50 || height < 50) return null;
+
+    const source: GrayImage = { data: new Uint8Array(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height };
+    const warped = this.warpPerspective(source, [topLeft, topRight, bottomRight, bottomLeft], width, height);
+
+    return sharp(Buffer.from(warped.buffer), { raw: { width, height, channels: 1 } }).png().toBuffer();
+  }
+
+  /**
+   * Corners (TL, TR, BR, BL) of the largest bright connected region, or null if it is
+   * too small to be the document or already fills the frame
+   */
+  private findDocumentCorners(gray: GrayImage): Point[] | null {
+    const { width, height } = gray;
+    const threshold = this.otsuThreshold(gray);
+    const labels = new Int32Array(width * height);
+    const queue = new Int32Array(width * height);
+    let bestLabel = 0;
+    let bestArea = 0;
+    let label = 0;
+
+    for (let seed = 0; seed < labels.length; seed++) {
+      if (labels[seed] !== 0 || gray.data[seed] <= threshold) continue;
+
+      label++;
+      let head = 0;
+      let tail = 0;
+      queue[tail++] = seed;
+      labels[seed] = label;
+      while (head < tail) {
+        const index = queue[head++];
+        const x = index % width;
+        const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+        for (const next of neighbours) {
+          if (next < 0 || next >= labels.length || labels[next] !== 0 || gray.data[next] <= threshold) continue;
+          labels[next] = label;
+          queue[tail++] = next;
+        }
+      }
+
+      if (tail > bestArea) {
+        bestArea = tail;
+        bestLabel = label;
+      }
+    }
+
+    const coverage = bestArea / labels.length;
+    if (coverage < 0.2 || coverage > 0.95) return null;
+
+    let topLeft: Point, topRight: Point, bottomRight: Point, bottomLeft: Point;
+    let minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+    for (let index = 0; index < labels.length; index++) {
+      if (labels[index] !== bestLabel) continue;
+      const x = index % width;
+      const y = Math.floor(index / width);
+      if (x + y < minSum) { minSum = x + y; topLeft = { x, y }; }
+      if (x + y > maxSum) { maxSum = x + y; bottomRight = { x, y }; }
+      if (x - y > maxDiff) { maxDiff = x - y; topRight = { x, y }; }
+      if (x - y < minDiff) { minDiff = x - y; bottomLeft = { x, y }; }
+    }
+
+    // Nearly the whole frame already - nothing to straighten
+    const margin = 0.02 * Math.max(width, height);
+    const frame = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+    const corners = [topLeft, topRight, bottomRight, bottomLeft];
+    if (corners.every((corner, i) => Math.hypot(corner.x - frame[i].x, corner.y - frame[i].y) < margin)) return null;
+
+    return corners;
+  }
+
+  /**
+   * Resample `source` so that the quadrilateral `corners` (TL, TR, BR, BL) fills a
+   * width x height rectangle (inverse mapping with bilinear interpolation)
+   */
+  private warpPerspective(source: GrayImage, corners: Point[], width: number, height: number): Uint8Array {
+    const target = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+    const h = this.homography(target, corners);
+    const output = new Uint8Array(width * height);
+
+    for (let v = 0; v < height; v++) {
+      for (let u = 0; u < width; u++) {
+        const w = h[6] * u + h[7] * v + 1;
+        const x = (h[0] * u + h[1] * v + h[2]) / w;
+        const y = (h[3] * u + h[4] * v + h[5]) / w;
+
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        if (x0 < 0 || y0 < 0 || x0 >= source.width - 1 || y0 >= source.height - 1) {
+          output[v * width + u] = 255;
+          continue;
+        }
+
+        const dx = x - x0;
+        const dy = y - y0;
+        const i = y0 * source.width + x0;
+        const top = source.data[i] * (1 - dx) + source.data[i + 1] * dx;
+        const bottom = source.data[i + source.width] * (1 - dx) + source.data[i + source.width + 1] * dx;
+        output[v * width + u] = Math.round(top * (1 - dy) + bottom * dy);
+      }
+    }
+    return output;
+  }
+
+  /**
+   * 3x3 projective transform (h22 = 1) mapping each `from` point onto the matching `to` point
+   */
+  private homography(from: Point[], to: Point[]): number[] {
+    const rows: number[][] = [];
+    from.forEach(({ x, y }, i) => {
+      const { x: X, y: Y } = to[i];
+      rows.push([x, y, 1, 0, 0, 0, -x * X, -y * X, X]);
+      rows.push([0, 0, 0, x, y, 1, -x * Y, -y * Y, Y]);
+    });
+
+    // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+    for (let col = 0; col < 8; col++) {
+      let pivot = col;
+      for (let row = col + 1; row < 8; row++) {
+        if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+      }
+      [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+      for (let row = 0; row < 8; row++) {
+        if (row === col) continue;
+        const factor = rows[row][col] / rows[col][col];
+        for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+      }
+    }
+
+    return rows.map((row, i) => row[8] / row[i]);
+  }
+
   private calculateConfidenceBoost(operations: string[], originalSize: { width: number; height: number }): number {
     let boost = 0;
     
@@ -150,6 +559,20 @@ export class ImagePreprocessingService {
     return Math.round(boost);
   }
 
+  /**
+   * Run one of the named presets below
+   */
+  async preprocessWithPreset(preset: PreprocessingPreset, imageBuffer: Buffer, filename: string): Promise<PreprocessingResult> {
+    switch (preset) {
+      case 'invoice':
+        return this.preprocessInvoice(imageBuffer, filename);
+      case 'high-quality':
+        return this.preprocessHighQuality(imageBuffer, filename);
+      default:
+        return this.preprocessMedicalBill(imageBuffer, filename);
+    }
+  }
+
   /**
    * Quick preprocessing for invoice images (optimized preset)
    */
@@ -160,6 +583,7 @@ export class ImagePreprocessingService {
       noiseReduction: true,      // Remove scan artifacts
       contrastEnhancement: true, // Enhance text visibility
       deskew: false,            // Skip deskewing for speed
+      orientation: true,        // Turn sideways/upside-down photos upright
       sharpen: true,            // Sharpen text edges
       resolutionEnhancement: true // Upscale small images
     });
@@ -175,6 +599,8 @@ export class ImagePreprocessingService {
       noiseReduction: true,
       contrastEnhancement: true,
       deskew: true,             // Correct image rotation
+      orientation: true,
+      perspectiveCorrection: true,
       sharpen: true,
       resolutionEnhancement: true
     });
@@ -189,7 +615,9 @@ export class ImagePreprocessingService {
       binarization: false,       // Keep grayscale (not pure B&W) for better table detection
       noiseReduction: true,      // Remove scan artifacts and noise
       contrastEnhancement: true, // Enhance text visibility
-      deskew: false,            // Skip deskewing for speed (assume straight images)
+      deskew: true,             // Level tilted phone photos and scans
+      orientation: true,        // Turn sideways/upside-down photos upright
+      perspectiveCorrection: process.env.IMAGE_PERSPECTIVE_CORRECTION === 'true', // Receipts photographed at an angle
       sharpen: true,            // Sharpen text edges for better character recognition
       resolutionEnhancement: true // Upscale small images for better OCR
     });
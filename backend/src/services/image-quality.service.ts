@@ -0,0 +1,239 @@
+import { Injectable } from '@nestjs/common';
+
+// Optional Sharp image processing - without it images are not assessed
+let sharp: any;
+try {
+  sharp = require('sharp');
+} catch (error) {
+  sharp = null;
+}
+
+export type ImageQualityPolicy = 'reject' | 'warn' | 'off';
+export type ImageQualityGrade = 'high' | 'medium' | 'low' | 'poor';
+export type ImageQualityIssueCode = 'blur' | 'dark' | 'overexposed' | 'low-contrast' | 'noise' | 'low-resolution' | 'small-text';
+
+export const IMAGE_QUALITY_POLICIES: ImageQualityPolicy[] = ['reject', 'warn', 'off'];
+
+export interface ImageQualityIssue {
+  code: ImageQualityIssueCode;
+  severity: 'error' | 'warning'; // Errors reject the upload under the 'reject' policy
+  message: string; // What to do about it, for the person uploading
+}
+
+export interface ImageQualityMetrics {
+  width: number;
+  height: number;
+  blurScore: number; // Variance of the Laplacian; lower is blurrier
+  brightness: number; // Mean gray level 0-255
+  contrast: number; // Standard deviation of gray levels
+  noiseLevel: number; // Estimated noise sigma in flat areas (gray levels)
+  textHeight: number | null; // Median text line height in original pixels; null when no lines were found
+}
+
+export interface ImageQualityReport {
+  imageQuality: ImageQualityGrade;
+  acceptable: boolean; // No error-level issues
+  hasBlur: boolean;
+  hasNoise: boolean;
+  metrics: ImageQualityMetrics;
+  issues: ImageQualityIssue[];
+}
+
+const MIN_IMAGE_SIDE = 500;
+// Longest side of the copy the metrics are measured on, so thresholds don't depend on camera resolution
+const ANALYSIS_SIZE = 1200;
+
+/**
+ * Measures whether a photo or scan is worth running OCR on: sharpness, exposure,
+ * contrast, noise and how large the text is in pixels. Used as a gate before OCR
+ * and to fill OcrResult.imageQuality / hasBlur / hasNoise.
+ */
+@Injectable()
+export class ImageQualityService {
+  private readonly blurThreshold = parseInt(process.env.IMAGE_BLUR_THRESHOLD) || 100;
+  private readonly noiseThreshold = parseInt(process.env.IMAGE_NOISE_THRESHOLD) || 8;
+  private readonly minTextHeight = parseInt(process.env.IMAGE_MIN_TEXT_HEIGHT) || 12; // Below this Tesseract misreads most characters
+
+  /**
+   * Resolve the policy for a request; falls back to IMAGE_QUALITY_POLICY, then 'warn'
+   */
+  resolvePolicy(requested?: string): ImageQualityPolicy {
+    const candidates = [requested, process.env.IMAGE_QUALITY_POLICY];
+    for (const candidate of candidates) {
+      const policy = candidate?.trim().toLowerCase() as ImageQualityPolicy;
+      if (policy && IMAGE_QUALITY_POLICIES.includes(policy)) {
+        return policy;
+      }
+    }
+    return 'warn';
+  }
+
+  /**
+   * Assess an image; returns null when Sharp is unavailable or the image can't be decoded
+   */
+  async assess(imageBuffer: Buffer): Promise<ImageQualityReport | null> {
+    if (!sharp) return null;
+
+    let data: Buffer;
+    let info: { width: number; height: number };
+    let original: { width?: number; height?: number };
+    try {
+      original = await sharp(imageBuffer).rotate().metadata();
+      ({ data, info } = await sharp(imageBuffer)
+        .rotate()
+        .grayscale()
+        .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .raw()
+        .toBuffer({ resolveWithObject: true }));
+    } catch (error) {
+      return null;
+    }
+
+    const { width, height } = info;
+    const { brightness, contrast } = this.exposure(data);
+    const { blurScore, noiseLevel } = this.sharpness(data, width, height);
+    const lineHeight = this.medianLineHeight(data, width, height, brightness - contrast);
+
+    const metrics: ImageQualityMetrics = {
+      width: original.width || width,
+      height: original.height || height,
+      blurScore: Math.round(blurScore * 10) / 10,
+      brightness: Math.round(brightness * 10) / 10,
+      contrast: Math.round(contrast * 10) / 10,
+      noiseLevel: Math.round(noiseLevel * 100) / 100,
+      textHeight: lineHeight === null ? null : Math.round(lineHeight * (original.height || height) / height),
+    };
+
+    const issues = this.findIssues(metrics);
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    const warnings = issues.length - errors;
+
+    return {
+      imageQuality: errors > 0 ? 'poor' : warnings > 1 ? 'low' : warnings === 1 ? 'medium' : 'high',
+      acceptable: errors === 0,
+      hasBlur: metrics.blurScore < this.blurThreshold,
+      hasNoise: metrics.noiseLevel > this.noiseThreshold,
+      metrics,
+      issues,
+    };
+  }
+
+  private findIssues(metrics: ImageQualityMetrics): ImageQualityIssue[] {
+    const issues: ImageQualityIssue[] = [];
+    const add = (code: ImageQualityIssueCode, severity: ImageQualityIssue['severity'], message: string) => issues.push({ code, severity, message });
+
+    if (Math.min(metrics.width, metrics.height) < MIN_IMAGE_SIDE) {
+      add('low-resolution', 'error', `Image is only ${metrics.width}x${metrics.height} pixels - upload a photo or scan at least ${MIN_IMAGE_SIDE} pixels on each side`);
+    }
+
+    if (metrics.blurScore < this.blurThreshold / 2) {
+      add('blur', 'error', 'Image is too blurry to read - hold the camera steady, tap to focus on the bill and retake the photo');
+    } else if (metrics.blurScore < this.blurThreshold) {
+      add('blur', 'warning', 'Image is slightly blurry - some characters may be misread; retake the photo if the results look wrong');
+    }
+
+    if (metrics.brightness < 50) {
+      add('dark', 'error', 'Image is too dark - retake it in better light');
+    } else if (metrics.brightness < 80) {
+      add('dark', 'warning', 'Image is dark - more light would improve recognition');
+    } else if (metrics.brightness > 245) {
+      add('overexposed', 'error', 'Image is washed out - avoid flash glare and direct light on the paper');
+    }
+
+    if (metrics.contrast < 20) {
+      add('low-contrast', 'error', 'Text barely stands out from the paper - retake the photo in even light, without shadows or glare');
+    } else if (metrics.contrast < 35) {
+      add('low-contrast', 'warning', 'Low contrast between text and paper - even lighting would improve recognition');
+    }
+
+    if (metrics.noiseLevel > this.noiseThreshold) {
+      add('noise', 'warning', 'Image is grainy - retake it in better light or scan the bill instead');
+    }
+
+    if (metrics.textHeight !== null && metrics.textHeight < this.minTextHeight) {
+      add('small-text', 'error', `Text is too small (about ${metrics.textHeight} pixels per line) - move closer so the bill fills the frame, or scan at a higher resolution`);
+    } else if (metrics.textHeight !== null && metrics.textHeight < this.minTextHeight * 1.5) {
+      add('small-text', 'warning', `Text is small (about ${metrics.textHeight} pixels per line) - a closer photo would improve recognition`);
+    }
+
+    return issues;
+  }
+
+  private exposure(data: Buffer): { brightness: number; contrast: number } {
+    let sum = 0;
+    let sumSquares = 0;
+    for (let i = 0; i < data.length; i++) {
+      sum += data[i];
+      sumSquares += data[i] * data[i];
+    }
+    const brightness = sum / data.length;
+    return { brightness, contrast: Math.sqrt(Math.max(0, sumSquares / data.length - brightness * brightness)) };
+  }
+
+  /**
+   * Blur: variance of the 4-neighbour Laplacian (sharp text has strong second derivatives).
+   * Noise: Immerkaer's estimator, restricted to flat areas so text edges don't count as noise.
+   */
+  private sharpness(data: Buffer, width: number, height: number): { blurScore: number; noiseLevel: number } {
+    let lapSum = 0;
+    let lapSquares = 0;
+    let count = 0;
+    let noiseSum = 0;
+    let flatCount = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x;
+        const up = data[i - width], down = data[i + width], left = data[i - 1], right = data[i + 1];
+
+        const laplacian = up + down + left + right - 4 * data[i];
+        lapSum += laplacian;
+        lapSquares += laplacian * laplacian;
+        count++;
+
+        // Skip edges: steps larger than sensor noise alone produces
+        const center = data[i];
+        if (Math.max(Math.abs(up - center), Math.abs(down - center), Math.abs(left - center), Math.abs(right - center)) > 40) continue;
+        const upLeft = data[i - width - 1], upRight = data[i - width + 1], downLeft = data[i + width - 1], downRight = data[i + width + 1];
+        noiseSum += Math.abs(upLeft + upRight + downLeft + downRight - 2 * (up + down + left + right) + 4 * center);
+        flatCount++;
+      }
+    }
+
+    const mean = count > 0 ? lapSum / count : 0;
+    return {
+      blurScore: count > 0 ? lapSquares / count - mean * mean : 0,
+      noiseLevel: flatCount > 0 ? Math.sqrt(Math.PI / 2) * noiseSum / (6 * flatCount) : 0,
+    };
+  }
+
+  /**
+   * Median height of the bands of rows containing ink (text lines), or null without any
+   */
+  private medianLineHeight(data: Buffer, width: number, height: number, inkThreshold: number): number | null {
+    const rows = new Array(height).fill(0);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (data[y * width + x] < inkThreshold) rows[y]++;
+      }
+    }
+
+    // A row belongs to a line when a meaningful share of the widest row's ink is on it
+    const minInk = Math.max(2, Math.max(...rows) * 0.05);
+    const bands: number[] = [];
+    let start = -1;
+    for (let y = 0; y <= height; y++) {
+      const inLine = y < height && rows[y] >= minInk;
+      if (inLine && start === -1) start = y;
+      if (!inLine && start !== -1) {
+        // Ignore specks and full-height shapes (borders, photos)
+        if (y - start >= 3 && y - start < height / 4) bands.push(y - start);
+        start = -1;
+      }
+    }
+
+    if (bands.length < 3) return null;
+    bands.sort((a, b) => a - b);
+    return bands[Math.floor(bands.length / 2)];
+  }
+}
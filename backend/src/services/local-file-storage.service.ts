@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ByteRange, FileStorageDriver } from './file-storage.interface';
+
+const SCHEME = 'local';
+
+/**
+ * Files on the local disk under STORAGE_LOCAL_ROOT (default ./uploads), as `local://<key>`.
+ * Also reads the relative paths (`uploads/<hash>.<ext>`) stored before storage URIs existed.
+ */
+@Injectable()
+export class LocalFileStorage implements FileStorageDriver {
+  readonly name = 'local';
+  readonly scheme = SCHEME;
+  private readonly root = path.resolve(process.env.STORAGE_LOCAL_ROOT || path.join(process.cwd(), 'uploads'));
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  uriFor(key: string): string {
+    return `${SCHEME}://${key}`;
+  }
+
+  async write(key: string, buffer: Buffer): Promise<string> {
+    const uri = this.uriFor(key);
+    const filePath = this.resolve(uri);
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, buffer);
+    } catch (error) {
+      throw new Error(`Failed to save file to disk: ${error.message}`);
+    }
+    return uri;
+  }
+
+  async read(uri: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(uri));
+  }
+
+  async size(uri: string): Promise<number | null> {
+    try {
+      return (await fs.promises.stat(this.resolve(uri))).size;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async createReadStream(uri: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.resolve(uri), range);
+  }
+
+  async delete(uri: string): Promise<void> {
+    await fs.promises.rm(this.resolve(uri), { force: true });
+  }
+
+  /**
+   * Absolute path of a `local://` URI (inside the storage root) or a legacy cwd-relative path
+   */
+  private resolve(uri: string): string {
+    const prefix = `${SCHEME}://`;
+    if (!uri.startsWith(prefix)) {
+      return path.resolve(process.cwd(), uri);
+    }
+
+    const filePath = path.resolve(this.root, uri.slice(prefix.length));
+    if (filePath !== this.root && !filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Storage key escapes the storage root: ${uri}`);
+    }
+    return filePath;
+  }
+}
@@ -1,13 +1,115 @@
 import { Injectable } from '@nestjs/common';
 import { MedicalBillDto, MedicalBillItemDto } from '../dto/medical-bill.dto';
+import { OcrLine } from './ocr-engine.interface';
+import { TableLayoutAnalyzerService, LineItemRow } from './table-layout-analyzer.service';
+
+// Bump when the extraction heuristics change; bill versions record which extractor produced them
+export const MEDICAL_BILL_EXTRACTOR_VERSION = '1.0.0';
+
+/**
+ * Where an extracted value came from
+ */
+export interface FieldProvenance {
+  method: string; // Heuristic that produced the value, e.g. 'keyword:invoice no' or 'parseRawItemLine'
+  lineNumber: number | null; // 1-based line of the OCR text
+  lineText: string | null;
+  ocrConfidence: number | null; // Mean OCR confidence of the words the value was read from
+}
+
+export interface MedicalBillProvenance {
+  fields: Record<string, FieldProvenance>; // Keyed by MedicalBillDto field name; missing fields are omitted
+  items: FieldProvenance[]; // Same order as MedicalBillDto.items
+}
+
+// Raw positions recorded while extracting, resolved into provenance afterwards
+interface ExtractionTrace {
+  fields: Record<string, { method: string; source: string; index: number }>;
+  items: { method: string; line: string }[];
+}
 
 @Injectable()
 export class MedicalBillExtractionService {
-  
+  constructor(private readonly tableLayoutAnalyzerService: TableLayoutAnalyzerService) {}
+
   /**
    * Extract medical bill data from OCR text - raw extraction without patterns
    */
   extractMedicalBillData(ocrText: string): MedicalBillDto {
+    return this.extract(ocrText);
+  }
+
+  /**
+   * Same extraction as extractMedicalBillData, plus which OCR line and heuristic each
+   * field and item came from. Pass the OCR lines to get word-level confidences, and the
+   * rows of a detected line item table to read items from its columns instead of regexes.
+   */
+  extractMedicalBillDataWithProvenance(ocrText: string, ocrLines: OcrLine[] = [], tableRows: LineItemRow[] = []): { data: MedicalBillDto; provenance: MedicalBillProvenance } {
+    const trace: ExtractionTrace = { fields: {}, items: [] };
+    const data = this.extract(ocrText, trace);
+
+    const provenance: MedicalBillProvenance = { fields: {}, items: [] };
+    for (const [field, { method, source, index }] of Object.entries(trace.fields)) {
+      const sourceLines = source.split('\n');
+      const lineNumber = source.substring(0, index).split('\n').length;
+      const lineText = (sourceLines[lineNumber - 1] || '').trim();
+      provenance.fields[field] = {
+        method,
+        lineNumber,
+        lineText,
+        ocrConfidence: this.resolveOcrConfidence(lineText, data[field], ocrLines),
+      };
+    }
+
+    // Items are parsed from trimmed lines; map each back to the first unused matching line
+    const textLines = this.preprocessOcrText(ocrText).split('\n').map(line => line.trim());
+    const usedLines = new Set<number>();
+
+    const tableItems = this.extractTableItems(tableRows);
+    if (tableItems.length > 0) {
+      data.items = tableItems.map(({ item }) => item);
+      for (const { row } of tableItems) {
+        const firstLine = row.lineText.split('\n')[0].trim();
+        const lineIndex = textLines.findIndex((textLine, index) => textLine === firstLine && !usedLines.has(index));
+        usedLines.add(lineIndex);
+        provenance.items.push({
+          method: 'table-columns',
+          lineNumber: lineIndex !== -1 ? lineIndex + 1 : null,
+          lineText: row.lineText,
+          ocrConfidence: Math.round(row.confidence * 100) / 100,
+        });
+      }
+      return { data, provenance };
+    }
+
+    for (const { method, line } of trace.items) {
+      const lineIndex = textLines.findIndex((textLine, index) => textLine === line && !usedLines.has(index));
+      usedLines.add(lineIndex);
+      provenance.items.push({
+        method,
+        lineNumber: lineIndex !== -1 ? lineIndex + 1 : null,
+        lineText: line,
+        ocrConfidence: this.resolveOcrConfidence(line, null, ocrLines),
+      });
+    }
+
+    return { data, provenance };
+  }
+
+  /**
+   * Items from line item table rows (see TableLayoutAnalyzerService), keeping the rows they came from
+   */
+  private extractTableItems(tableRows: LineItemRow[]): { item: MedicalBillItemDto; row: LineItemRow }[] {
+    const tableItems: { item: MedicalBillItemDto; row: LineItemRow }[] = [];
+    for (const row of tableRows) {
+      const item = this.tableLayoutAnalyzerService.toMedicalBillItem(row, tableItems.length + 1);
+      if (this.isValidMedicineItem(item)) {
+        tableItems.push({ item, row });
+      }
+    }
+    return tableItems;
+  }
+
+  private extract(ocrText: string, trace?: ExtractionTrace): MedicalBillDto {
     // Preprocess OCR text to fix common errors
     const cleanedOcrText = this.preprocessOcrText(ocrText);
     const lines = cleanedOcrText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
@@ -32,7 +134,7 @@ export class MedicalBillExtractionService {
     };
 
     // Extract values by looking for keywords and taking the next available text
-    this.extractRawValues(ocrText, lines, billData);
+    this.extractRawValues(ocrText, lines, billData, trace);
 
     return billData;
   }
@@ -75,7 +177,7 @@ export class MedicalBillExtractionService {
            (medicalScore >= 2 && billScore >= 1);
   }
 
-  private extractRawValues(ocrText: string, lines: string[], billData: MedicalBillDto): void {
+  private extractRawValues(ocrText: string, lines: string[], billData: MedicalBillDto, trace?: ExtractionTrace): void {
     // Use the cleaned OCR text for better accuracy
     const cleanedOcrText = this.preprocessOcrText(ocrText);
     // Extract invoice number - look for "Invoice No" or "Invoice:" and take the next text
@@ -90,6 +192,7 @@ export class MedicalBillExtractionService {
         for (const word of words) {
           if (word && word !== '.' && word !== ':' && word.length > 1) {
             billData.invoiceNo = word;
+            this.traceField(trace, 'invoiceNo', 'keyword:invoice no', cleanedOcrText, word, invoiceIndex);
             break;
           }
         }
@@ -102,6 +205,7 @@ export class MedicalBillExtractionService {
         for (const word of words) {
           if (word && word.length > 1) {
             billData.invoiceNo = word;
+            this.traceField(trace, 'invoiceNo', 'keyword:invoice:', cleanedOcrText, word, invoiceColonIndex);
             break;
           }
         }
@@ -118,6 +222,7 @@ export class MedicalBillExtractionService {
         for (const word of words) {
           if (word && word.length > 1) {
             billData.invoiceNo = word;
+            this.traceField(trace, 'invoiceNo', 'keyword:invoice no.:', cleanedOcrText, word, invoiceNoDotIndex);
             break;
           }
         }
@@ -134,6 +239,7 @@ export class MedicalBillExtractionService {
         for (const word of words) {
           if (word && word !== ':' && word.length > 1) {
             billData.date = word;
+            this.traceField(trace, 'date', 'keyword:date', cleanedOcrText, word, dateIndex);
             break;
           }
         }
@@ -154,6 +260,7 @@ export class MedicalBillExtractionService {
         
         if (shopName && shopName.length > 5) {
           billData.shopName = shopName;
+          this.traceField(trace, 'shopName', 'line-keyword:shop', cleanedOcrText, line, 0);
           break;
         }
       }
@@ -164,6 +271,7 @@ export class MedicalBillExtractionService {
     for (const line of lines) {
       if (addressKeywords.some(keyword => line.toLowerCase().includes(keyword)) && line.length > 20) {
         billData.shopAddress = line;
+        this.traceField(trace, 'shopAddress', 'line-keyword:address', cleanedOcrText, line, 0);
         break;
       }
     }
@@ -197,6 +305,7 @@ export class MedicalBillExtractionService {
           }
         }
         billData.patientName = nameWords.join(' ');
+        this.traceField(trace, 'patientName', 'keyword:patient name', cleanedOcrText, nameWords[0], patientIndex);
       }
     } else if (nameIndex !== -1) {
       const afterName = cleanedOcrText.substring(nameIndex + 5).trim();
@@ -211,6 +320,7 @@ export class MedicalBillExtractionService {
           }
         }
         billData.patientName = nameWords.join(' ');
+        this.traceField(trace, 'patientName', 'keyword:name:', cleanedOcrText, nameWords[0], nameIndex);
       }
     }
 
@@ -221,6 +331,7 @@ export class MedicalBillExtractionService {
       const phoneMatch = afterPhone.match(/\d{10}/);
       if (phoneMatch) {
         billData.patientPhone = phoneMatch[0];
+        this.traceField(trace, 'patientPhone', 'keyword:ph.no', cleanedOcrText, phoneMatch[0], patientPhoneIndex);
       }
     }
     
@@ -230,10 +341,12 @@ export class MedicalBillExtractionService {
       // Use the first 10-digit phone number found
       if (!billData.patientPhone) {
         billData.patientPhone = allPhoneMatches[0];
+        this.traceField(trace, 'patientPhone', 'regex:first-10-digit-number', cleanedOcrText, allPhoneMatches[0], 0);
       }
       
       // Add all phone numbers to the phone array
       billData.phone = allPhoneMatches;
+      this.traceField(trace, 'phone', 'regex:10-digit-numbers', cleanedOcrText, allPhoneMatches[0], 0);
     }
 
     // Extract doctor details - look for "Dr", "Doctor", or "Doctor Name:"
@@ -249,6 +362,8 @@ export class MedicalBillExtractionService {
           if (word && word !== ':' && word.length > 1) {
             billData.doctorName = word;
             billData.prescribedBy = 'Dr. ' + word;
+            this.traceField(trace, 'doctorName', 'keyword:doctor name', cleanedOcrText, word, doctorNameIndex);
+            this.traceField(trace, 'prescribedBy', 'keyword:doctor name', cleanedOcrText, word, doctorNameIndex);
             break;
           }
         }
@@ -262,6 +377,8 @@ export class MedicalBillExtractionService {
           if (word && word !== '.' && word.length > 1) {
             billData.prescribedBy = 'Dr ' + word;
             billData.doctorName = word;
+            this.traceField(trace, 'doctorName', 'keyword:dr', cleanedOcrText, word, doctorIndex);
+            this.traceField(trace, 'prescribedBy', 'keyword:dr', cleanedOcrText, word, doctorIndex);
             break;
           }
         }
@@ -269,6 +386,7 @@ export class MedicalBillExtractionService {
         for (let i = 1; i < words.length; i++) {
           if (words[i] && words[i] !== '.' && words[i].length > 1) {
             billData.doctorSpecialization = words[i];
+            this.traceField(trace, 'doctorSpecialization', 'keyword:dr', cleanedOcrText, words[i], doctorIndex);
             break;
           }
         }
@@ -282,14 +400,15 @@ export class MedicalBillExtractionService {
       const phoneMatch = doctorSection.match(/\d{10}/);
       if (phoneMatch) {
         billData.doctorPhone = phoneMatch[0];
+        this.traceField(trace, 'doctorPhone', 'window:dr', ocrText, phoneMatch[0], doctorPhoneIndex);
       }
     }
 
     // Extract items - look for lines that start with numbers
-    this.extractRawItems(lines, billData);
+    this.extractRawItems(lines, billData, trace);
 
     // Extract totals - look for total keywords
-    this.extractRawTotals(cleanedOcrText, billData);
+    this.extractRawTotals(cleanedOcrText, billData, trace);
 
     // Extract amount in words - look for "Amount in Words" or similar
     const amountWordsIndex = cleanedOcrText.toLowerCase().indexOf('amount in words');
@@ -306,11 +425,12 @@ export class MedicalBillExtractionService {
           }
         }
         billData.amountInWords = amountWords.join(' ');
+        this.traceField(trace, 'amountInWords', 'keyword:amount in words', cleanedOcrText, amountWords[0], amountWordsIndex);
       }
     }
   }
 
-  private extractRawItems(lines: string[], billData: MedicalBillDto): void {
+  private extractRawItems(lines: string[], billData: MedicalBillDto, trace?: ExtractionTrace): void {
     const items: MedicalBillItemDto[] = [];
     let itemIndex = 1;
 
@@ -331,25 +451,30 @@ export class MedicalBillExtractionService {
 
       // Try multiple extraction methods
       let item: MedicalBillItemDto | null = null;
+      let method: string = null;
 
       // Method 1: Standard numbered item line
       if (/^\d+[\s\|\:\-]/.test(trimmedLine)) {
         item = this.parseRawItemLine(trimmedLine, itemIndex);
+        method = 'parseRawItemLine';
       }
       
       // Method 2: Medicine line without number
       else if (this.looksLikeMedicineLine(trimmedLine)) {
         item = this.parseMedicineLine(trimmedLine, itemIndex);
+        method = 'parseMedicineLine';
       }
       
       // Method 3: Aggressive medicine detection - look for any line with medicine keywords
       else if (this.hasMedicineKeywords(trimmedLine)) {
         item = this.parseAggressiveMedicineLine(trimmedLine, itemIndex);
+        method = 'parseAggressiveMedicineLine';
       }
 
       // Validate and add the item
       if (item && this.isValidMedicineItem(item)) {
         items.push(item);
+        trace?.items.push({ method, line: trimmedLine });
         itemIndex++;
       }
     }
@@ -489,7 +614,7 @@ export class MedicalBillExtractionService {
     }
   }
 
-  private extractRawTotals(ocrText: string, billData: MedicalBillDto): void {
+  private extractRawTotals(ocrText: string, billData: MedicalBillDto, trace?: ExtractionTrace): void {
     // Helper function to safely parse numbers
     const safeParseFloat = (value: string): number => {
       const parsed = parseFloat(value);
@@ -508,6 +633,7 @@ export class MedicalBillExtractionService {
       const numberMatch = afterSubTotal.match(/[\d.]+/);
       if (numberMatch) {
         billData.subTotal = safeParseFloat(numberMatch[0]);
+        this.traceField(trace, 'subTotal', 'keyword:sub total', ocrText, numberMatch[0], subTotalIndex);
       }
     }
 
@@ -520,12 +646,14 @@ export class MedicalBillExtractionService {
       const numberMatch = afterTotalQty.match(/\d+/);
       if (numberMatch) {
         billData.totalQty = safeParseInt(numberMatch[0]);
+        this.traceField(trace, 'totalQty', 'keyword:totalqty', ocrText, numberMatch[0], totalQtyIndex);
       }
     } else if (totalQtySpaceIndex !== -1) {
       const afterTotalQty = ocrText.substring(totalQtySpaceIndex + 9).trim();
       const numberMatch = afterTotalQty.match(/\d+/);
       if (numberMatch) {
         billData.totalQty = safeParseInt(numberMatch[0]);
+        this.traceField(trace, 'totalQty', 'keyword:total qty', ocrText, numberMatch[0], totalQtySpaceIndex);
       }
     }
 
@@ -536,6 +664,7 @@ export class MedicalBillExtractionService {
       const numberMatch = afterDiscount.match(/[\d.]+/);
       if (numberMatch) {
         billData.lessDiscount = safeParseFloat(numberMatch[0]);
+        this.traceField(trace, 'lessDiscount', 'keyword:less discount', ocrText, numberMatch[0], discountIndex);
       }
     }
 
@@ -546,6 +675,7 @@ export class MedicalBillExtractionService {
       const numberMatch = afterOtherAdj.match(/[\d.]+/);
       if (numberMatch) {
         billData.otherAdj = safeParseFloat(numberMatch[0]);
+        this.traceField(trace, 'otherAdj', 'keyword:other adj', ocrText, numberMatch[0], otherAdjIndex);
       }
     }
 
@@ -556,6 +686,7 @@ export class MedicalBillExtractionService {
       const numberMatch = afterRoundOff.match(/[\d.]+/);
       if (numberMatch) {
         billData.roundOff = safeParseFloat(numberMatch[0]);
+        this.traceField(trace, 'roundOff', 'keyword:round off', ocrText, numberMatch[0], roundOffIndex);
       }
     }
 
@@ -568,12 +699,14 @@ export class MedicalBillExtractionService {
       const numberMatch = afterGrandTotal.match(/[\d.]+/);
       if (numberMatch) {
         billData.grandTotal = safeParseFloat(numberMatch[0]);
+        this.traceField(trace, 'grandTotal', 'keyword:grand total', ocrText, numberMatch[0], grandTotalIndex);
       }
     } else if (netAmtIndex !== -1) {
       const afterNetAmt = ocrText.substring(netAmtIndex + 7).trim();
       const numberMatch = afterNetAmt.match(/[\d.]+/);
       if (numberMatch) {
         billData.grandTotal = safeParseFloat(numberMatch[0]);
+        this.traceField(trace, 'grandTotal', 'keyword:net amt', ocrText, numberMatch[0], netAmtIndex);
       }
     }
     
@@ -584,6 +717,7 @@ export class MedicalBillExtractionService {
       const numberMatch = afterGross.match(/[\d.]+/);
       if (numberMatch) {
         billData.subTotal = safeParseFloat(numberMatch[0]);
+        this.traceField(trace, 'subTotal', 'keyword:gross:', ocrText, numberMatch[0], grossIndex);
       }
     }
     
@@ -593,10 +727,54 @@ export class MedicalBillExtractionService {
       const numberMatch = afterRound.match(/[\d.]+/);
       if (numberMatch) {
         billData.roundOff = safeParseFloat(numberMatch[0]);
+        this.traceField(trace, 'roundOff', 'keyword:round:', ocrText, numberMatch[0], roundIndex);
       }
     }
   }
 
+  /**
+   * Record where a field's value was found (the first occurrence of its first token at or after the keyword)
+   */
+  private traceField(trace: ExtractionTrace | undefined, field: string, method: string, source: string, value: string, fromIndex: number): void {
+    if (!trace) return;
+
+    const token = (value || '').split(/\s+/)[0];
+    const index = token ? source.indexOf(token, Math.max(0, fromIndex)) : -1;
+    trace.fields[field] = { method, source, index: index !== -1 ? index : Math.max(0, fromIndex) };
+  }
+
+  /**
+   * Mean OCR confidence of the words on the matching OCR line that make up the value;
+   * the whole line's confidence when no single word matches (or no value is given)
+   */
+  private resolveOcrConfidence(lineText: string, value: any, ocrLines: OcrLine[]): number | null {
+    if (!ocrLines.length || !lineText) return null;
+
+    const normalize = (text: string) => (text || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    const normalizedLine = normalize(lineText);
+    if (!normalizedLine) return null;
+
+    const ocrLine = ocrLines.find(line => normalize(line.text) === normalizedLine)
+      || ocrLines.find(line => {
+        const candidate = normalize(line.text);
+        return candidate.length > 0 && (candidate.includes(normalizedLine) || normalizedLine.includes(candidate));
+      });
+    if (!ocrLine) return null;
+
+    const valueText = Array.isArray(value) ? value.join(' ') : value !== null && value !== undefined ? String(value) : '';
+    const tokens = valueText.split(/\s+/).map(normalize).filter(token => token.length > 0);
+    const matchedWords = ocrLine.words.filter(word => {
+      const normalizedWord = normalize(word.text);
+      // Reverse containment only for longer words, so a stray "1" doesn't match "150"
+      return normalizedWord.length > 0 && tokens.some(token => normalizedWord.includes(token) || (normalizedWord.length >= 3 && token.includes(normalizedWord)));
+    });
+
+    const confidence = matchedWords.length > 0
+      ? matchedWords.reduce((sum, word) => sum + word.confidence, 0) / matchedWords.length
+      : ocrLine.confidence;
+    return Math.round(confidence * 100) / 100;
+  }
+
   /**
    * Validate medical bill data - non-mandatory validation
    */
@@ -0,0 +1,171 @@
+import { DataSource, EntityManager } from 'typeorm';
+import { buildDataSourceOptions } from '../database.config';
+import { MigrationRunner } from '../migrations/migration-runner';
+import { ParsedFile, FileType } from '../entities/parsed-file.entity';
+import { MedicalBill, ReviewState } from '../entities/medical-bill.entity';
+import { MedicalBillCorrection } from '../entities/medical-bill-correction.entity';
+import { MedicalBillVersion } from '../entities/medical-bill-version.entity';
+import { Document, DocumentSource } from '../entities/document.entity';
+import { MedicalBillDto } from '../dto/medical-bill.dto';
+import { DocumentService } from './document.service';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { MedicalBillValidationService } from './medical-bill-validation.service';
+import { MedicalBillService } from './medical-bill.service';
+import { MedicalBillReviewService, ReviewConflictError } from './medical-bill-review.service';
+
+describe('MedicalBillReviewService', () => {
+  const env = { ...process.env };
+  let dataSource: DataSource;
+  let medicalBillService: MedicalBillService;
+  let service: MedicalBillReviewService;
+  let parsedFile: ParsedFile;
+
+  beforeAll(async () => {
+    process.env.REVIEW_LOCK_TIMEOUT_MINUTES = '10';
+    process.env.REVIEW_CONFIDENCE_THRESHOLD = '50';
+    dataSource = await new DataSource(buildDataSourceOptions()).initialize();
+    await new MigrationRunner(dataSource).run();
+
+    const documentService = new DocumentService(dataSource.getRepository(Document));
+    medicalBillService = new MedicalBillService(
+      dataSource.getRepository(MedicalBill),
+      dataSource.getRepository(MedicalBillCorrection),
+      dataSource.getRepository(MedicalBillVersion),
+      new DuplicateDetectionService(dataSource.getRepository(MedicalBill)),
+      new MedicalBillValidationService(),
+      documentService,
+    );
+    service = new MedicalBillReviewService(dataSource.getRepository(MedicalBill), medicalBillService, documentService);
+    parsedFile = await dataSource.getRepository(ParsedFile).save({
+      filename: 'bill.png',
+      originalName: 'bill.png',
+      fileType: FileType.IMAGE,
+      mimeType: 'image/png',
+      fileSize: 1024,
+      filePath: 'local://bill.png',
+    });
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await dataSource.destroy();
+  });
+
+  async function createBill(confidence = 40): Promise<MedicalBill> {
+    return await medicalBillService.saveMedicalBill(parsedFile.id, {
+      invoiceNo: 'INV-7',
+      shopName: 'Apollo Pharmacy',
+      items: [{ sNo: 1, itemDescription: 'Paracetamol', pack: '10s', mrp: 6, batchNo: 'B1', exp: '12/26', qty: 2, rate: 5, amount: 10 }],
+      subTotal: 10,
+      grandTotal: 10,
+    } as MedicalBillDto, confidence);
+  }
+
+  async function expireClaim(medicalBillId: number): Promise<void> {
+    await dataSource.getRepository(MedicalBill).update(medicalBillId, { reviewLockedAt: new Date(Date.now() - 11 * 60 * 1000) });
+  }
+
+  it('queues bills below the confidence threshold for review', async () => {
+    const bill = await createBill(40);
+    const confident = await createBill(60);
+
+    expect(bill.reviewState).toBe(ReviewState.NEEDS_REVIEW);
+    expect(confident.reviewState).toBeNull();
+    const { medicalBills } = await service.getQueue(1, 100);
+    expect(medicalBills.map(medicalBill => medicalBill.id)).toContain(bill.id);
+    expect(medicalBills.map(medicalBill => medicalBill.id)).not.toContain(confident.id);
+  });
+
+  it('claims a bill for one reviewer at a time', async () => {
+    const bill = await createBill();
+
+    const claimed = await service.claim(bill.id, 'alice');
+
+    expect(claimed).toMatchObject({ reviewState: ReviewState.IN_REVIEW, reviewLockedBy: 'alice' });
+    expect(service.lockExpiresAt(claimed).getTime() - new Date(claimed.reviewLockedAt).getTime()).toBe(10 * 60 * 1000);
+    await expect(service.claim(bill.id, 'bob')).rejects.toThrow(ReviewConflictError);
+    await expect(service.claim(bill.id, 'bob')).rejects.toThrow(`Medical bill ${bill.id} is being reviewed by alice`);
+    expect((await service.claim(bill.id, 'alice')).reviewLockedBy).toBe('alice'); // Refreshes the claim
+
+    const document = await dataSource.getRepository(Document).findOneBy({ sourceTable: DocumentSource.MEDICAL_BILL, sourceId: bill.id });
+    expect(document.status).toBe(ReviewState.IN_REVIEW);
+  });
+
+  it('lets another reviewer take over once the claim expires', async () => {
+    const bill = await createBill();
+    await service.claim(bill.id, 'alice');
+    await expireClaim(bill.id);
+
+    expect((await service.claim(bill.id, 'bob')).reviewLockedBy).toBe('bob');
+    await expect(service.release(bill.id, 'alice')).rejects.toThrow(`Medical bill ${bill.id} is not claimed by alice`);
+  });
+
+  it('releases a claimed bill back to the queue', async () => {
+    const bill = await createBill();
+    await service.claim(bill.id, 'alice');
+
+    const released = await service.release(bill.id, 'alice');
+
+    expect(released).toMatchObject({ reviewState: ReviewState.NEEDS_REVIEW, reviewLockedBy: null, reviewLockedAt: null });
+  });
+
+  it('approves a bill with corrections recorded as a new version', async () => {
+    const bill = await createBill();
+    await service.claim(bill.id, 'alice');
+
+    const approved = await service.approve(bill.id, 'alice', { grandTotal: 12, correctionReason: 'Misread total' }, 'Checked against the photo');
+
+    expect(approved).toMatchObject({ reviewState: ReviewState.APPROVED, reviewedBy: 'alice', reviewNotes: 'Checked against the photo', reviewLockedBy: null });
+    expect(Number(approved.grandTotal)).toBe(12);
+    const corrections = await medicalBillService.getCorrections(bill.id);
+    expect(corrections.map(correction => [correction.fieldPath, correction.correctedBy, correction.reason])).toEqual([['grandTotal', 'alice', 'Misread total']]);
+    expect((await medicalBillService.getVersions(bill.id)).map(version => version.source)).toEqual(['extraction', 'manual-edit']);
+    await expect(service.claim(bill.id, 'bob')).rejects.toThrow('is not awaiting review (approved)');
+  });
+
+  it('does not approve a bill claimed by someone else', async () => {
+    const bill = await createBill();
+    await service.claim(bill.id, 'bob');
+
+    await expect(service.approve(bill.id, 'alice', { grandTotal: 12 })).rejects.toThrow(ReviewConflictError);
+
+    expect(await medicalBillService.getCorrections(bill.id)).toEqual([]);
+    expect((await service.claim(bill.id, 'bob')).reviewState).toBe(ReviewState.IN_REVIEW);
+  });
+
+  it('keeps no corrections when the claim is lost before the review is finished', async () => {
+    const bill = await createBill();
+    const updateMedicalBill = medicalBillService.updateMedicalBill.bind(medicalBillService);
+    jest.spyOn(medicalBillService, 'updateMedicalBill').mockImplementationOnce(async (id, update, correctedBy, manager: EntityManager) => {
+      const result = await updateMedicalBill(id, update, correctedBy, manager);
+      await manager.update(MedicalBill, id, { reviewLockedBy: 'bob' });
+      return result;
+    });
+
+    await expect(service.approve(bill.id, 'alice', { grandTotal: 12 })).rejects.toThrow(ReviewConflictError);
+
+    const stored = await dataSource.getRepository(MedicalBill).findOneBy({ id: bill.id });
+    expect(stored.reviewState).toBe(ReviewState.NEEDS_REVIEW);
+    expect(Number(stored.grandTotal)).toBe(10);
+    expect(await medicalBillService.getCorrections(bill.id)).toEqual([]);
+    expect(await medicalBillService.getVersions(bill.id)).toHaveLength(1);
+  });
+
+  it('rejects a bill and takes over an expired claim to do so', async () => {
+    const bill = await createBill();
+    await service.claim(bill.id, 'bob');
+    await expireClaim(bill.id);
+
+    const rejected = await service.reject(bill.id, 'alice', 'Not a medical bill');
+
+    expect(rejected).toMatchObject({ reviewState: ReviewState.REJECTED, reviewedBy: 'alice', reviewNotes: 'Not a medical bill' });
+    const document = await dataSource.getRepository(Document).findOneBy({ sourceTable: DocumentSource.MEDICAL_BILL, sourceId: bill.id });
+    expect(document.status).toBe(ReviewState.REJECTED);
+  });
+
+  it('returns null for an unknown bill', async () => {
+    expect(await service.claim(999999, 'alice')).toBeNull();
+    expect(await service.approve(999999, 'alice')).toBeNull();
+    expect(await service.reject(999999, 'alice', 'Unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, LessThan, Repository } from 'typeorm';
+import { MedicalBill, ReviewState } from '../entities/medical-bill.entity';
+import { UpdateMedicalBillDto } from '../dto/medical-bill.dto';
+import { MedicalBillService } from './medical-bill.service';
+import { DocumentService } from './document.service';
+
+/**
+ * Raised when a bill is not awaiting review or another reviewer holds its claim
+ */
+export class ReviewConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewConflictError';
+  }
+}
+
+/**
+ * Human review of low-confidence extractions. Reviewers claim a bill (the claim expires
+ * after REVIEW_LOCK_TIMEOUT_MINUTES, so an abandoned bill returns to the queue), then
+ * approve it - with corrections, which are recorded as a new bill version - or reject it.
+ */
+@Injectable()
+export class MedicalBillReviewService {
+  private readonly lockTimeoutMs = (parseInt(process.env.REVIEW_LOCK_TIMEOUT_MINUTES) || 30) * 60 * 1000;
+
+  constructor(
+    @InjectRepository(MedicalBill)
+    private medicalBillRepository: Repository<MedicalBill>,
+    private medicalBillService: MedicalBillService,
+    private documentService: DocumentService,
+  ) {}
+
+  /**
+   * Bills awaiting review (unclaimed or claimed), least confident and oldest first
+   */
+  async getQueue(page: number, limit: number): Promise<{ medicalBills: MedicalBill[]; total: number }> {
+    const [medicalBills, total] = await this.medicalBillRepository.findAndCount({
+      where: { reviewState: In([ReviewState.NEEDS_REVIEW, ReviewState.IN_REVIEW]) },
+      order: { extractionConfidence: 'ASC', createdAt: 'ASC', id: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { medicalBills, total };
+  }
+
+  /**
+   * Lock a bill for `reviewer`. Claiming again refreshes the lock. Returns null if the bill does not exist.
+   */
+  async claim(medicalBillId: number, reviewer: string): Promise<MedicalBill | null> {
+    const medicalBill = await this.medicalBillRepository.findOne({ where: { id: medicalBillId } });
+    if (!medicalBill) {
+      return null;
+    }
+
+    // Conditional update so two reviewers can't claim the same bill
+    const claim = await this.medicalBillRepository.update(
+      this.claimableBy(medicalBillId, reviewer),
+      { reviewState: ReviewState.IN_REVIEW, reviewLockedBy: reviewer, reviewLockedAt: new Date() }
+    );
+    if (!claim.affected) {
+      throw this.conflict(medicalBill);
+    }
+
+    return await this.reload(medicalBillId);
+  }
+
+  /**
+   * Give a claimed bill back to the queue. Returns null if the bill does not exist.
+   */
+  async release(medicalBillId: number, reviewer: string): Promise<MedicalBill | null> {
+    const medicalBill = await this.medicalBillRepository.findOne({ where: { id: medicalBillId } });
+    if (!medicalBill) {
+      return null;
+    }
+
+    const release = await this.medicalBillRepository.update(
+      { id: medicalBillId, reviewState: ReviewState.IN_REVIEW, reviewLockedBy: reviewer },
+      { reviewState: ReviewState.NEEDS_REVIEW, reviewLockedBy: null, reviewLockedAt: null }
+    );
+    if (!release.affected) {
+      throw new ReviewConflictError(`Medical bill ${medicalBillId} is not claimed by ${reviewer}`);
+    }
+
+    return await this.reload(medicalBillId);
+  }
+
+  /**
+   * Approve a bill awaiting review. Corrections go through MedicalBillService.updateMedicalBill,
+   * so they are logged field by field and stored as a new version. Returns null if the bill does not exist.
+   */
+  async approve(medicalBillId: number, reviewer: string, corrections?: UpdateMedicalBillDto, notes?: string): Promise<MedicalBill | null> {
+    return this.finishReview(medicalBillId, reviewer, ReviewState.APPROVED, notes, async manager => {
+      if (corrections) {
+        await this.medicalBillService.updateMedicalBill(medicalBillId, corrections, reviewer, manager);
+      }
+    });
+  }
+
+  /**
+   * Reject a bill awaiting review; `notes` say why. Returns null if the bill does not exist.
+   */
+  async reject(medicalBillId: number, reviewer: string, notes: string): Promise<MedicalBill | null> {
+    return this.finishReview(medicalBillId, reviewer, ReviewState.REJECTED, notes);
+  }
+
+  /**
+   * When the current claim on a bill lapses; null when it is not claimed
+   */
+  lockExpiresAt(medicalBill: MedicalBill): Date | null {
+    return medicalBill.reviewState === ReviewState.IN_REVIEW && medicalBill.reviewLockedAt
+      ? new Date(new Date(medicalBill.reviewLockedAt).getTime() + this.lockTimeoutMs)
+      : null;
+  }
+
+  /**
+   * Claim, corrections, state change and document sync share one transaction, so corrections
+   * are not kept when the review can't be finished
+   */
+  private async finishReview(
+    medicalBillId: number,
+    reviewer: string,
+    state: ReviewState.APPROVED | ReviewState.REJECTED,
+    notes?: string,
+    beforeFinish?: (manager: EntityManager) => Promise<void>,
+  ): Promise<MedicalBill | null> {
+    const exists = await this.medicalBillRepository.count({ where: { id: medicalBillId } });
+    if (!exists) {
+      return null;
+    }
+
+    return await this.medicalBillRepository.manager.transaction(async manager => {
+      // Take (or refresh) the claim first; the row stays locked until the transaction ends
+      const claim = await manager.update(
+        MedicalBill,
+        this.claimableBy(medicalBillId, reviewer),
+        { reviewState: ReviewState.IN_REVIEW, reviewLockedBy: reviewer, reviewLockedAt: new Date() }
+      );
+      if (!claim.affected) {
+        throw this.conflict(await manager.findOne(MedicalBill, { where: { id: medicalBillId } }));
+      }
+
+      await beforeFinish?.(manager);
+
+      const finish = await manager.update(
+        MedicalBill,
+        { id: medicalBillId, reviewState: ReviewState.IN_REVIEW, reviewLockedBy: reviewer },
+        {
+          reviewState: state,
+          reviewLockedBy: null,
+          reviewLockedAt: null,
+          reviewedBy: reviewer,
+          reviewedAt: new Date(),
+          reviewNotes: notes || null,
+        }
+      );
+      if (!finish.affected) {
+        throw this.conflict(await manager.findOne(MedicalBill, { where: { id: medicalBillId } }));
+      }
+
+      return await this.reload(medicalBillId, manager);
+    });
+  }
+
+  /**
+   * Fetch a bill after a review state change and bring its document's status up to date
+   */
+  private async reload(medicalBillId: number, manager: EntityManager = this.medicalBillRepository.manager): Promise<MedicalBill> {
+    const medicalBill = await manager.findOne(MedicalBill, { where: { id: medicalBillId } });
+    await this.documentService.syncMedicalBill(medicalBill, manager);
+    return medicalBill;
+  }
+
+  /**
+   * Bill awaiting review that is unclaimed, claimed by `reviewer`, or whose claim expired
+   */
+  private claimableBy(medicalBillId: number, reviewer: string) {
+    const staleBefore = new Date(Date.now() - this.lockTimeoutMs);
+    return [
+      { id: medicalBillId, reviewState: ReviewState.NEEDS_REVIEW },
+      { id: medicalBillId, reviewState: ReviewState.IN_REVIEW, reviewLockedBy: reviewer },
+      { id: medicalBillId, reviewState: ReviewState.IN_REVIEW, reviewLockedAt: LessThan(staleBefore) },
+    ];
+  }
+
+  private conflict(medicalBill: MedicalBill): ReviewConflictError {
+    if (medicalBill.reviewState === ReviewState.IN_REVIEW) {
+      return new ReviewConflictError(`Medical bill ${medicalBill.id} is being reviewed by ${medicalBill.reviewLockedBy} until ${this.lockExpiresAt(medicalBill).toISOString()}`);
+    }
+    return new ReviewConflictError(`Medical bill ${medicalBill.id} is not awaiting review (${medicalBill.reviewState || 'not flagged for review'})`);
+  }
+}
@@ -0,0 +1,165 @@
+import { MedicalBillDto, MedicalBillItemDto } from '../dto/medical-bill.dto';
+import { MedicalBillValidationService } from './medical-bill-validation.service';
+
+function item(qty: number, rate: number, amount: number): MedicalBillItemDto {
+  return { sNo: 1, itemDescription: 'Paracetamol 500mg', pack: '10s', mrp: rate, batchNo: 'B1', exp: '12/26', qty, rate, amount };
+}
+
+// 2 x 25 + 1 x 120.5 = 170.5, less 10 discount, rounded off to 161
+function bill(values: Partial<MedicalBillDto> = {}): MedicalBillDto {
+  return {
+    items: [item(2, 25, 50), item(1, 120.5, 120.5)],
+    totalQty: 3,
+    subTotal: 170.5,
+    lessDiscount: 10,
+    otherAdj: 0,
+    roundOff: 0.5,
+    grandTotal: 161,
+    amountInWords: 'Rupees One Hundred Sixty One Only',
+    ...values,
+  } as MedicalBillDto;
+}
+
+describe('MedicalBillValidationService', () => {
+  const env = { ...process.env };
+  const service = new MedicalBillValidationService();
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  function issues(values: Partial<MedicalBillDto>) {
+    const report = service.validate(bill(values));
+    return [...report.errors, ...report.warnings].map(issue => [issue.rule, issue.severity, issue.field]);
+  }
+
+  it('passes a consistent bill', () => {
+    const report = service.validate(bill());
+
+    expect(report).toEqual({
+      isValid: true,
+      errors: [],
+      warnings: [],
+      rulesApplied: ['item-amount', 'items-sum', 'totals-equation', 'total-quantity', 'amount-in-words'],
+    });
+  });
+
+  it('skips rules whose values were not extracted', () => {
+    const report = service.validate({ items: [item(0, 25, 50)], subTotal: 0, grandTotal: 0, amountInWords: '' } as MedicalBillDto);
+
+    expect(report.isValid).toBe(true);
+    expect(report.warnings).toEqual([]);
+  });
+
+  describe('item amounts', () => {
+    it('warns when qty x rate does not give the amount', () => {
+      const report = service.validate(bill({ items: [item(2, 25, 52), item(1, 120.5, 120.5)], subTotal: 172.5, grandTotal: 163, amountInWords: '' }));
+
+      expect(report.isValid).toBe(true);
+      expect(report.warnings).toEqual([{
+        rule: 'item-amount',
+        severity: 'warning',
+        field: 'items[0].amount',
+        message: 'Item 1: qty 2 x rate 25 = 50, but amount is 52',
+        expected: 50,
+        actual: 52,
+      }]);
+    });
+
+    it('allows up to 50 paise per line', () => {
+      expect(issues({ items: [item(2, 25, 50.5), item(1, 120.5, 120.5)], subTotal: 171, grandTotal: 161 })).toEqual([]);
+      expect(issues({ items: [item(2, 25, 50.51), item(1, 120.5, 120.5)], subTotal: 171.01, grandTotal: 161 })).toEqual([['item-amount', 'warning', 'items[0].amount']]);
+    });
+  });
+
+  describe('items sum', () => {
+    it('fails when the item amounts do not add up to the sub total', () => {
+      const report = service.validate(bill({ subTotal: 180.5, grandTotal: 171, amountInWords: '' }));
+
+      expect(report.isValid).toBe(false);
+      expect(report.errors).toEqual([expect.objectContaining({ rule: 'items-sum', field: 'subTotal', expected: 170.5, actual: 180.5 })]);
+    });
+
+    it('allows up to one rupee', () => {
+      expect(issues({ subTotal: 171.5, grandTotal: 162, amountInWords: '' })).toEqual([]);
+      expect(issues({ subTotal: 171.6, grandTotal: 162, amountInWords: '' })).toEqual([['items-sum', 'error', 'subTotal']]);
+    });
+
+    it('skips the check when an item amount is missing', () => {
+      expect(issues({ items: [item(2, 25, 50), item(1, 0, 0)], totalQty: 0 })).toEqual([]);
+    });
+  });
+
+  describe('totals equation', () => {
+    it('accepts round off in either direction', () => {
+      expect(issues({ roundOff: -0.5 })).toEqual([]);
+      expect(issues({ grandTotal: 160, amountInWords: '', roundOff: 0.5 })).toEqual([]);
+    });
+
+    it('applies discount and other adjustments', () => {
+      expect(issues({ lessDiscount: 0, otherAdj: 20, roundOff: 0.5, grandTotal: 191, amountInWords: '' })).toEqual([]);
+    });
+
+    it('fails when the grand total does not follow from the sub total', () => {
+      const report = service.validate(bill({ grandTotal: 171, amountInWords: '' }));
+
+      expect(report.errors).toEqual([expect.objectContaining({ rule: 'totals-equation', field: 'grandTotal', expected: 161, actual: 171 })]);
+    });
+
+    it('allows up to one rupee', () => {
+      expect(issues({ roundOff: 0, grandTotal: 161.5, amountInWords: '' })).toEqual([]);
+      expect(issues({ roundOff: 0, grandTotal: 161.6, amountInWords: '' })).toEqual([['totals-equation', 'error', 'grandTotal']]);
+    });
+  });
+
+  it('reads the tolerances from the environment when validating', () => {
+    process.env.BILL_ITEM_AMOUNT_TOLERANCE = '2';
+    process.env.BILL_TOTAL_TOLERANCE = '0.1';
+
+    expect(issues({ items: [item(2, 25, 52), item(1, 120.5, 120.5)], subTotal: 172.5, grandTotal: 162.7, roundOff: 0, amountInWords: '' }))
+      .toEqual([['totals-equation', 'error', 'grandTotal']]);
+  });
+
+  it('warns when the total quantity does not match the items', () => {
+    expect(issues({ totalQty: 4 })).toEqual([['total-quantity', 'warning', 'totalQty']]);
+  });
+
+  describe('amount in words', () => {
+    it('warns when the words do not match the grand total', () => {
+      const report = service.validate(bill({ amountInWords: 'Rupees One Hundred Seventy One Only' }));
+
+      expect(report.warnings).toEqual([expect.objectContaining({ rule: 'amount-in-words', expected: 161, actual: 171 })]);
+    });
+
+    it('warns when no amount can be read', () => {
+      const report = service.validate(bill({ amountInWords: 'See overleaf' }));
+
+      expect(report.warnings).toEqual([expect.objectContaining({ rule: 'amount-in-words', message: 'Could not read an amount from "See overleaf"' })]);
+    });
+  });
+
+  describe('parseAmountInWords', () => {
+    it.each([
+      ['Rupees Four Hundred Ninety-Nine Only', 499],
+      ['One Thousand Two Hundred and Five', 1205],
+      ['Rs. Twelve Thousand Only', 12000],
+      ['One Lakh Twenty Thousand', 120000],
+      ['Twelve Lacs Fifty Thousand', 1250000],
+      ['Two Crore Five Lakh Only', 20500000],
+      ['One Lakh Crore', 1000000000000],
+      ['Rupees Ninety Nine and Fifty Paise Only', 99.5],
+      ['Rupees Ninety Nine and Paise Fifty Only', 99.5],
+      ['Fifty Paise Only', 0.5],
+      ['150.00 only', 150],
+      ['Rupees 2 Lakh Only', 200000],
+    ])('reads "%s" as %d', (text, amount) => {
+      expect(service.parseAmountInWords(text)).toBe(amount);
+    });
+
+    it('returns null without number words', () => {
+      expect(service.parseAmountInWords('')).toBeNull();
+      expect(service.parseAmountInWords('Rupees Only')).toBeNull();
+      expect(service.parseAmountInWords('N/A')).toBeNull();
+    });
+  });
+});
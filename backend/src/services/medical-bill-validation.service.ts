@@ -0,0 +1,273 @@
+import { Injectable } from '@nestjs/common';
+import { MedicalBillDto } from '../dto/medical-bill.dto';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  rule: string;
+  severity: ValidationSeverity;
+  field: string; // Field path the issue is about, e.g. 'grandTotal' or 'items[1].amount'
+  message: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface BillValidationReport {
+  isValid: boolean; // No errors (warnings allowed)
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  rulesApplied: string[];
+}
+
+interface ValidationRule {
+  name: string;
+  check: (bill: MedicalBillDto) => ValidationIssue[];
+}
+
+const AMOUNT_IN_WORDS_TOLERANCE = 1;
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fourty: 40,
+  fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+// Indian numbering scales
+const SCALES: Record<string, number> = {
+  thousand: 1000,
+  lakh: 100000, lakhs: 100000, lac: 100000, lacs: 100000,
+  crore: 10000000, crores: 10000000,
+};
+
+// Absolute tolerances in rupees; totals allow for paise rounding on every line.
+// Read on use: ConfigModule loads .env after this file is imported
+export function itemAmountTolerance(): number {
+  return parseFloat(process.env.BILL_ITEM_AMOUNT_TOLERANCE) || 0.5;
+}
+
+export function totalTolerance(): number {
+  return parseFloat(process.env.BILL_TOTAL_TOLERANCE) || 1;
+}
+
+/**
+ * Rule-based arithmetic checks for an extracted bill: line amounts, item total vs
+ * sub total, the totals equation, total quantity and the amount in words.
+ * Rules skip themselves when the values they need were not extracted.
+ */
+@Injectable()
+export class MedicalBillValidationService {
+  private readonly rules: ValidationRule[] = [
+    { name: 'item-amount', check: bill => this.checkItemAmounts(bill) },
+    { name: 'items-sum', check: bill => this.checkItemsSum(bill) },
+    { name: 'totals-equation', check: bill => this.checkTotalsEquation(bill) },
+    { name: 'total-quantity', check: bill => this.checkTotalQuantity(bill) },
+    { name: 'amount-in-words', check: bill => this.checkAmountInWords(bill) },
+  ];
+
+  validate(bill: MedicalBillDto): BillValidationReport {
+    const issues = this.rules.flatMap(rule => rule.check(bill));
+    const errors = issues.filter(issue => issue.severity === 'error');
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: issues.filter(issue => issue.severity === 'warning'),
+      rulesApplied: this.rules.map(rule => rule.name),
+    };
+  }
+
+  /**
+   * Convert an Indian-English amount in words ("Rupees One Lakh Twenty Thousand and Fifty Paise Only")
+   * to a number. Returns null when no number words are found.
+   */
+  parseAmountInWords(text: string): number | null {
+    if (!text) return null;
+
+    const normalized = text.toLowerCase()
+      .replace(/-/g, ' ')
+      .replace(/[^a-z0-9.\s]/g, ' ')
+      .replace(/\b(rupees?|rs|inr|only)\b/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    // Plain digits ("150.00 only")
+    const digits = normalized.match(/^\d+(\.\d+)?$/);
+    if (digits) return parseFloat(digits[0]);
+
+    let rupeeWords = normalized;
+    let paiseWords = '';
+    const paiseMatch = normalized.match(/\bpai(?:se|sa)\b/);
+    if (paiseMatch) {
+      const before = normalized.substring(0, paiseMatch.index).trim();
+      const after = normalized.substring(paiseMatch.index + paiseMatch[0].length).trim();
+      const andIndex = before.lastIndexOf(' and ');
+
+      if (andIndex !== -1 && before.substring(andIndex + 5).trim()) {
+        // "... and fifty paise"
+        rupeeWords = before.substring(0, andIndex);
+        paiseWords = before.substring(andIndex + 5);
+      } else {
+        // "... and paise fifty" / "fifty paise"
+        rupeeWords = andIndex !== -1 ? before.substring(0, andIndex) : (after ? before : '');
+        paiseWords = after || before;
+      }
+    }
+
+    const rupees = this.wordsToNumber(rupeeWords);
+    const paise = paiseWords ? this.wordsToNumber(paiseWords) : 0;
+    if (rupees === null && !paise) return null;
+
+    return (rupees || 0) + (paise || 0) / 100;
+  }
+
+  private checkItemAmounts(bill: MedicalBillDto): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    (bill.items || []).forEach((item, index) => {
+      const qty = this.toNumber(item.qty);
+      const rate = this.toNumber(item.rate);
+      const amount = this.toNumber(item.amount);
+      if (!qty || !rate || !amount) return;
+
+      const expected = this.round(qty * rate);
+      if (Math.abs(expected - amount) > itemAmountTolerance()) {
+        issues.push({
+          rule: 'item-amount',
+          severity: 'warning',
+          field: `items[${index}].amount`,
+          message: `Item ${index + 1}: qty ${qty} x rate ${rate} = ${expected}, but amount is ${amount}`,
+          expected,
+          actual: amount,
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  private checkItemsSum(bill: MedicalBillDto): ValidationIssue[] {
+    const subTotal = this.toNumber(bill.subTotal);
+    const amounts = (bill.items || []).map(item => this.toNumber(item.amount));
+    if (!subTotal || amounts.length === 0 || amounts.some(amount => !amount)) return [];
+
+    const expected = this.round(amounts.reduce((sum, amount) => sum + amount, 0));
+    if (Math.abs(expected - subTotal) <= totalTolerance()) return [];
+
+    return [{
+      rule: 'items-sum',
+      severity: 'error',
+      field: 'subTotal',
+      message: `Item amounts add up to ${expected}, but sub total is ${subTotal}`,
+      expected,
+      actual: subTotal,
+    }];
+  }
+
+  private checkTotalsEquation(bill: MedicalBillDto): ValidationIssue[] {
+    const subTotal = this.toNumber(bill.subTotal);
+    const grandTotal = this.toNumber(bill.grandTotal);
+    if (!subTotal || !grandTotal) return [];
+
+    const base = subTotal - this.toNumber(bill.lessDiscount) + this.toNumber(bill.otherAdj);
+    const roundOff = Math.abs(this.toNumber(bill.roundOff));
+
+    // Round off is printed without a sign on most bills - accept either direction
+    const candidates = [base + roundOff, base - roundOff].map(value => this.round(value));
+    if (candidates.some(candidate => Math.abs(candidate - grandTotal) <= totalTolerance())) return [];
+
+    return [{
+      rule: 'totals-equation',
+      severity: 'error',
+      field: 'grandTotal',
+      message: `Sub total ${subTotal} - discount ${this.toNumber(bill.lessDiscount)} + adjustments ${this.toNumber(bill.otherAdj)} +/- round off ${roundOff} does not give grand total ${grandTotal}`,
+      expected: candidates[0],
+      actual: grandTotal,
+    }];
+  }
+
+  private checkTotalQuantity(bill: MedicalBillDto): ValidationIssue[] {
+    const totalQty = this.toNumber(bill.totalQty);
+    const quantities = (bill.items || []).map(item => this.toNumber(item.qty));
+    if (!totalQty || quantities.length === 0) return [];
+
+    const expected = quantities.reduce((sum, qty) => sum + qty, 0);
+    if (expected === totalQty) return [];
+
+    return [{
+      rule: 'total-quantity',
+      severity: 'warning',
+      field: 'totalQty',
+      message: `Item quantities add up to ${expected}, but total quantity is ${totalQty}`,
+      expected,
+      actual: totalQty,
+    }];
+  }
+
+  private checkAmountInWords(bill: MedicalBillDto): ValidationIssue[] {
+    const grandTotal = this.toNumber(bill.grandTotal);
+    if (!bill.amountInWords || !bill.amountInWords.trim() || !grandTotal) return [];
+
+    const parsed = this.parseAmountInWords(bill.amountInWords);
+    if (parsed === null) {
+      return [{
+        rule: 'amount-in-words',
+        severity: 'warning',
+        field: 'amountInWords',
+        message: `Could not read an amount from "${bill.amountInWords}"`,
+      }];
+    }
+
+    if (Math.abs(parsed - grandTotal) <= AMOUNT_IN_WORDS_TOLERANCE) return [];
+
+    return [{
+      rule: 'amount-in-words',
+      severity: 'warning',
+      field: 'amountInWords',
+      message: `Amount in words reads ${parsed}, but grand total is ${grandTotal}`,
+      expected: grandTotal,
+      actual: parsed,
+    }];
+  }
+
+  private wordsToNumber(words: string): number | null {
+    let total = 0;
+    let current = 0;
+    let found = false;
+
+    for (const word of words.split(/\s+/).filter(Boolean)) {
+      if (word in UNITS) {
+        current += UNITS[word];
+        found = true;
+      } else if (word === 'hundred') {
+        current = (current || 1) * 100;
+        found = true;
+      } else if (word in SCALES) {
+        const scale = SCALES[word];
+        if (scale === SCALES.crore) {
+          // Crore multiplies everything before it ("one lakh crore")
+          total = ((total + current) || 1) * scale;
+        } else {
+          total += (current || 1) * scale;
+        }
+        current = 0;
+        found = true;
+      } else if (/^\d+(\.\d+)?$/.test(word)) {
+        current += parseFloat(word);
+        found = true;
+      }
+      // Anything else ("and", OCR noise) is ignored
+    }
+
+    return found ? total + current : null;
+  }
+
+  private toNumber(value: any): number {
+    const num = Number(value);
+    return isNaN(num) ? 0 : num;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
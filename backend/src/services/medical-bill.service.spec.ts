@@ -0,0 +1,168 @@
+import { DataSource } from 'typeorm';
+import { buildDataSourceOptions } from '../database.config';
+import { MigrationRunner } from '../migrations/migration-runner';
+import { ParsedFile, FileType } from '../entities/parsed-file.entity';
+import { MedicalBill } from '../entities/medical-bill.entity';
+import { MedicalBillCorrection } from '../entities/medical-bill-correction.entity';
+import { MedicalBillVersion } from '../entities/medical-bill-version.entity';
+import { Document } from '../entities/document.entity';
+import { MedicalBillDto, MedicalBillItemDto } from '../dto/medical-bill.dto';
+import { DocumentService } from './document.service';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { MedicalBillValidationService } from './medical-bill-validation.service';
+import { MedicalBillService } from './medical-bill.service';
+
+function item(itemDescription: string, qty: number, rate: number): MedicalBillItemDto {
+  return { sNo: 1, itemDescription, pack: '10s', mrp: rate, batchNo: 'B1', exp: '12/26', qty, rate, amount: qty * rate };
+}
+
+const EXTRACTED = {
+  invoiceNo: 'INV-42',
+  date: '12/03/2024',
+  shopName: 'Apolo Pharmacy',
+  items: [item('Paracetamol', 2, 5), item('Cetirizine', 1, 30)],
+  subTotal: 40,
+  grandTotal: 40,
+} as MedicalBillDto;
+
+describe('MedicalBillService', () => {
+  let dataSource: DataSource;
+  let service: MedicalBillService;
+  let parsedFile: ParsedFile;
+
+  beforeAll(async () => {
+    dataSource = await new DataSource(buildDataSourceOptions()).initialize();
+    await new MigrationRunner(dataSource).run();
+    service = new MedicalBillService(
+      dataSource.getRepository(MedicalBill),
+      dataSource.getRepository(MedicalBillCorrection),
+      dataSource.getRepository(MedicalBillVersion),
+      new DuplicateDetectionService(dataSource.getRepository(MedicalBill)),
+      new MedicalBillValidationService(),
+      new DocumentService(dataSource.getRepository(Document)),
+    );
+    parsedFile = await dataSource.getRepository(ParsedFile).save({
+      filename: 'bill.png',
+      originalName: 'bill.png',
+      fileType: FileType.IMAGE,
+      mimeType: 'image/png',
+      fileSize: 1024,
+      filePath: 'local://bill.png',
+    });
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  async function createBill(): Promise<MedicalBill> {
+    return await service.saveMedicalBill(parsedFile.id, EXTRACTED, 90);
+  }
+
+  it('lists bills one page at a time, newest first', async () => {
+    const created = [await createBill(), await createBill(), await createBill()];
+
+    const firstPage = await service.getAllMedicalBills(1, 2);
+    const secondPage = await service.getAllMedicalBills(2, 2);
+
+    expect(firstPage.total).toBe(3);
+    expect(firstPage.medicalBills.map(bill => bill.id)).toEqual([created[2].id, created[1].id]);
+    expect(secondPage.medicalBills[0].id).toBe(created[0].id);
+  });
+
+  describe('diffBill', () => {
+    it('lists changed header fields, ignoring fields left out and numbers stored as strings', () => {
+      const stored = { ...EXTRACTED, subTotal: '40.00' } as any;
+
+      expect(service.diffBill(stored, { shopName: 'Apollo Pharmacy', subTotal: 40, invoiceNo: undefined })).toEqual([
+        { fieldPath: 'shopName', previousValue: 'Apolo Pharmacy', newValue: 'Apollo Pharmacy' },
+      ]);
+    });
+
+    it('compares items position by position', () => {
+      const items = [item('Paracetamol', 3, 5), item('Cetirizine', 1, 30), item('ORS', 2, 20)];
+
+      expect(service.diffBill(EXTRACTED, { items }).map(change => [change.fieldPath, change.previousValue, change.newValue])).toEqual([
+        ['items[0].qty', 2, 3],
+        ['items[0].amount', 10, 15],
+        ['items[2]', null, expect.objectContaining({ itemDescription: 'ORS', amount: 40 })],
+      ]);
+    });
+
+    it('reports removed items', () => {
+      expect(service.diffBill(EXTRACTED, { items: [EXTRACTED.items[0]] })).toEqual([
+        { fieldPath: 'items[1]', previousValue: EXTRACTED.items[1], newValue: null },
+      ]);
+    });
+  });
+
+  describe('versions', () => {
+    it('stores the extraction as version 1 and every correction as the next version', async () => {
+      const bill = await createBill();
+
+      const { corrections } = await service.updateMedicalBill(bill.id, { shopName: 'Apollo Pharmacy' }, 'alice');
+      await service.updateMedicalBill(bill.id, { grandTotal: 41, roundOff: 1 }, 'bob');
+
+      expect(corrections.map(correction => [correction.fieldPath, correction.correctedBy])).toEqual([['shopName', 'alice']]);
+      const versions = await service.getVersions(bill.id);
+      expect(versions.map(version => [version.versionNumber, version.source, version.createdBy])).toEqual([
+        [1, 'extraction', null],
+        [2, 'manual-edit', 'alice'],
+        [3, 'manual-edit', 'bob'],
+      ]);
+      expect(versions[2].correctedFields).toEqual(['shopName', 'roundOff', 'grandTotal']);
+    });
+
+    it('does not add a version when nothing changed', async () => {
+      const bill = await createBill();
+
+      const result = await service.updateMedicalBill(bill.id, { shopName: EXTRACTED.shopName });
+
+      expect(result.corrections).toEqual([]);
+      expect(await service.getVersions(bill.id)).toHaveLength(1);
+    });
+
+    it('records the stored state as version 1 for bills saved before versioning', async () => {
+      const bill = await createBill();
+      await dataSource.getRepository(MedicalBillVersion).delete({ medicalBillId: bill.id });
+
+      await service.updateMedicalBill(bill.id, { shopName: 'Apollo Pharmacy' });
+
+      const versions = await service.getVersions(bill.id);
+      expect(versions.map(version => [version.versionNumber, version.data.shopName])).toEqual([[1, 'Apolo Pharmacy'], [2, 'Apollo Pharmacy']]);
+    });
+
+    it('diffs two versions', async () => {
+      const bill = await createBill();
+      await service.updateMedicalBill(bill.id, { shopName: 'Apollo Pharmacy', items: [item('Paracetamol', 4, 5), EXTRACTED.items[1]] });
+
+      expect(await service.diffVersions(bill.id, 1, 2)).toEqual([
+        { fieldPath: 'shopName', previousValue: 'Apolo Pharmacy', newValue: 'Apollo Pharmacy' },
+        { fieldPath: 'items[0].qty', previousValue: 2, newValue: 4 },
+        { fieldPath: 'items[0].amount', previousValue: 10, newValue: 20 },
+      ]);
+      expect(await service.diffVersions(bill.id, 1, 9)).toBeNull();
+    });
+
+    it('restores an earlier version as a new version', async () => {
+      const bill = await createBill();
+      await service.updateMedicalBill(bill.id, { shopName: 'Apollo Pharmacy', grandTotal: 45 }, 'alice');
+
+      const restored = await service.restoreVersion(bill.id, 1, 'bob');
+
+      expect(restored.changes.map(change => [change.fieldPath, change.newValue])).toEqual([['shopName', 'Apolo Pharmacy'], ['grandTotal', 40]]);
+      expect([restored.previousVersion, restored.version]).toEqual([2, 3]);
+      expect(restored.medicalBill.shopName).toBe('Apolo Pharmacy');
+      expect(restored.medicalBill.correctedFields).toBeNull();
+      const latest = await service.getVersion(bill.id, 3);
+      expect([latest.source, latest.restoredFromVersion, latest.createdBy]).toEqual(['restore', 1, 'bob']);
+    });
+
+    it('returns null when restoring an unknown bill or version', async () => {
+      const bill = await createBill();
+
+      expect(await service.restoreVersion(bill.id, 9)).toBeNull();
+      expect(await service.restoreVersion(999999, 1)).toBeNull();
+    });
+  });
+});
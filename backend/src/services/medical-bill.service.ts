@@ -1,20 +1,59 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { MedicalBill } from '../entities/medical-bill.entity';
-import { MedicalBillDto } from '../dto/medical-bill.dto';
+import { EntityManager, In, Repository } from 'typeorm';
+import { MedicalBill, ReviewState } from '../entities/medical-bill.entity';
+import { MedicalBillCorrection } from '../entities/medical-bill-correction.entity';
+import { MedicalBillVersion } from '../entities/medical-bill-version.entity';
+import { MedicalBillDto, UpdateMedicalBillDto } from '../dto/medical-bill.dto';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+import { MedicalBillValidationService } from './medical-bill-validation.service';
+import { MEDICAL_BILL_EXTRACTOR_VERSION } from './medical-bill-extraction.service';
+import { DocumentService } from './document.service';
+import { DocumentSource } from '../entities/document.entity';
+import { DATABASE_TYPE } from '../database-type';
+
+// Header fields that can be corrected by hand (items are diffed separately)
+const CORRECTABLE_FIELDS = [
+  'invoiceNo', 'date', 'shopName', 'shopAddress', 'phone', 'patientName', 'patientPhone',
+  'prescribedBy', 'doctorName', 'doctorSpecialization', 'doctorPhone', 'totalQty', 'subTotal',
+  'lessDiscount', 'otherAdj', 'roundOff', 'grandTotal', 'amountInWords', 'message', 'termsAndConditions',
+];
+
+const ITEM_FIELDS = ['sNo', 'itemDescription', 'pack', 'mrp', 'batchNo', 'exp', 'qty', 'rate', 'amount'];
+
+const EXTRACTION_METHOD = 'medical_bill_specialized_parser';
+
+export interface BillFieldChange {
+  fieldPath: string; // "grandTotal", "items[2].qty", or "items[2]" when an item was added/removed
+  previousValue: any;
+  newValue: any;
+}
+
+export type MedicalBillExtras = Partial<Pick<MedicalBill, 'contentFingerprint' | 'duplicateOfId' | 'duplicateMatchType' | 'fieldProvenance' | 'validationReport' | 'ocrCorrections' | 'ocrEngine'>>;
+
+export type MedicalBillVersionSource = 'extraction' | 'reprocess' | 'manual-edit' | 'restore';
 
 @Injectable()
 export class MedicalBillService {
+  // Bills extracted with a lower confidence (0-100) go to the review queue
+  private readonly reviewConfidenceThreshold = parseInt(process.env.REVIEW_CONFIDENCE_THRESHOLD) || 70;
+
   constructor(
     @InjectRepository(MedicalBill)
     private medicalBillRepository: Repository<MedicalBill>,
+    @InjectRepository(MedicalBillCorrection)
+    private medicalBillCorrectionRepository: Repository<MedicalBillCorrection>,
+    @InjectRepository(MedicalBillVersion)
+    private medicalBillVersionRepository: Repository<MedicalBillVersion>,
+    private duplicateDetectionService: DuplicateDetectionService,
+    private medicalBillValidationService: MedicalBillValidationService,
+    private documentService: DocumentService,
   ) {}
 
   /**
-   * Save medical bill data to database
+   * Save a newly extracted medical bill, with the extraction as its version 1
    */
-  async saveMedicalBill(parsedFileId: number, medicalBillData: MedicalBillDto, confidence: number, fileInfo?: { fileName?: string, fileSize?: number, processedStatus?: string }): Promise<MedicalBill> {
+  async saveMedicalBill(parsedFileId: number, medicalBillData: MedicalBillDto, confidence: number, fileInfo?: { fileName?: string, fileSize?: number, processedStatus?: string }, extras?: MedicalBillExtras): Promise<MedicalBill> {
     // Helper function to safely handle numeric values
     const safeNumber = (value: any): number => {
       if (value === null || value === undefined || value === '') return 0;
@@ -28,6 +67,33 @@ export class MedicalBillService {
       fileSize: safeNumber(fileInfo?.fileSize || medicalBillData.fileSize),
       processedStatus: fileInfo?.processedStatus || medicalBillData.processedStatus || 'completed',
       processedDate: new Date(),
+      ...this.toContentValues(medicalBillData),
+      extractionConfidence: safeNumber(confidence),
+      extractionMethod: EXTRACTION_METHOD,
+      extractorVersion: MEDICAL_BILL_EXTRACTOR_VERSION,
+      ocrEngine: extras?.ocrEngine || null,
+      contentFingerprint: extras?.contentFingerprint || null,
+      duplicateOfId: extras?.duplicateOfId || null,
+      duplicateMatchType: extras?.duplicateMatchType || null,
+      fieldProvenance: extras?.fieldProvenance || null,
+      validationReport: extras?.validationReport || null,
+      ocrCorrections: extras?.ocrCorrections || null,
+      reviewState: this.reviewStateFor(confidence),
+    });
+
+    return await this.medicalBillRepository.manager.transaction(async manager => {
+      const savedBill = await manager.save(medicalBill);
+      await manager.save(this.createVersion(savedBill, 1, 'extraction'));
+      await this.documentService.syncMedicalBill(savedBill, manager);
+      return savedBill;
+    });
+  }
+
+  /**
+   * Extracted bill content as stored in MedicalBill columns, with empty values defaulted
+   */
+  private toContentValues(medicalBillData: MedicalBillDto): Partial<MedicalBillDto> {
+    return {
       invoiceNo: medicalBillData.invoiceNo || '',
       date: medicalBillData.date || '',
       shopName: medicalBillData.shopName || '',
@@ -40,20 +106,20 @@ export class MedicalBillService {
       doctorSpecialization: medicalBillData.doctorSpecialization || '',
       doctorPhone: medicalBillData.doctorPhone || '',
       items: this.sanitizeItems(medicalBillData.items || []),
-      totalQty: safeNumber(medicalBillData.totalQty),
-      subTotal: safeNumber(medicalBillData.subTotal),
-      lessDiscount: safeNumber(medicalBillData.lessDiscount),
-      otherAdj: safeNumber(medicalBillData.otherAdj),
-      roundOff: safeNumber(medicalBillData.roundOff),
-      grandTotal: safeNumber(medicalBillData.grandTotal),
+      totalQty: this.safeNumber(medicalBillData.totalQty),
+      subTotal: this.safeNumber(medicalBillData.subTotal),
+      lessDiscount: this.safeNumber(medicalBillData.lessDiscount),
+      otherAdj: this.safeNumber(medicalBillData.otherAdj),
+      roundOff: this.safeNumber(medicalBillData.roundOff),
+      grandTotal: this.safeNumber(medicalBillData.grandTotal),
       amountInWords: medicalBillData.amountInWords || '',
       message: medicalBillData.message || '',
       termsAndConditions: medicalBillData.termsAndConditions || [],
-      extractionConfidence: safeNumber(confidence),
-      extractionMethod: 'medical_bill_specialized_parser',
-    });
+    };
+  }
 
-    return await this.medicalBillRepository.save(medicalBill);
+  private reviewStateFor(confidence: number): ReviewState | null {
+    return this.safeNumber(confidence) < this.reviewConfidenceThreshold ? ReviewState.NEEDS_REVIEW : null;
   }
 
   /**
@@ -93,6 +159,18 @@ export class MedicalBillService {
     });
   }
 
+  /**
+   * Medical bills of several parsed files in one query (files without a bill are absent)
+   */
+  async getMedicalBillsByParsedFileIds(parsedFileIds: number[]): Promise<MedicalBill[]> {
+    if (parsedFileIds.length === 0) {
+      return [];
+    }
+    return await this.medicalBillRepository.find({
+      where: { parsedFileId: In(parsedFileIds) }
+    });
+  }
+
   /**
    * Get medical bill by ID
    */
@@ -104,13 +182,15 @@ export class MedicalBillService {
   }
 
   /**
-   * Get all medical bills
+   * One page of medical bills, newest first
    */
-  async getAllMedicalBills(): Promise<MedicalBill[]> {
-    return await this.medicalBillRepository.find({
-      relations: ['parsedFile'],
-      order: { createdAt: 'DESC' }
+  async getAllMedicalBills(page: number, limit: number): Promise<{ medicalBills: MedicalBill[]; total: number }> {
+    const [medicalBills, total] = await this.medicalBillRepository.findAndCount({
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
     });
+    return { medicalBills, total };
   }
 
   /**
@@ -147,6 +227,370 @@ export class MedicalBillService {
     };
   }
 
+  /**
+   * Apply a manual correction. Every changed value is recorded as a MedicalBillCorrection
+   * and its path added to correctedFields, and the result is stored as a new version.
+   * Returns null if the bill does not exist. Pass a transaction's manager to make the
+   * correction part of it.
+   */
+  async updateMedicalBill(
+    id: number,
+    update: UpdateMedicalBillDto,
+    correctedBy?: string,
+    manager: EntityManager = this.medicalBillRepository.manager,
+  ): Promise<{ medicalBill: MedicalBill; corrections: MedicalBillCorrection[] } | null> {
+    return await manager.transaction(async manager => {
+      // Diff against the locked row, so concurrent edits apply one after the other
+      const medicalBill = await this.lockMedicalBill(manager, id);
+      if (!medicalBill) {
+        return null;
+      }
+
+      const changes = this.diffBill(medicalBill, update);
+      this.applyChanges(medicalBill, update);
+
+      if (changes.length === 0) {
+        return { medicalBill, corrections: [] };
+      }
+
+      medicalBill.correctedFields = [...new Set([...(medicalBill.correctedFields || []), ...changes.map(change => change.fieldPath)])];
+      medicalBill.fieldProvenance = this.markCorrectedProvenance(medicalBill.fieldProvenance, changes.map(change => change.fieldPath));
+      medicalBill.contentFingerprint = this.duplicateDetectionService.computeFingerprint(this.convertToDto(medicalBill));
+      medicalBill.validationReport = this.medicalBillValidationService.validate(this.convertToDto(medicalBill));
+
+      const previousVersion = await this.ensureBaselineVersion(manager, id);
+      const savedBill = await manager.save(medicalBill);
+      const corrections = await manager.save(changes.map(change => manager.create(MedicalBillCorrection, {
+        ...change,
+        medicalBillId: id,
+        correctedBy: correctedBy || null,
+        reason: update.correctionReason || null,
+      })));
+      await manager.save(this.createVersion(savedBill, previousVersion + 1, 'manual-edit', { createdBy: correctedBy }));
+      await this.documentService.syncMedicalBill(savedBill, manager);
+      return { medicalBill: savedBill, corrections };
+    });
+  }
+
+  /**
+   * Field-by-field differences between a bill and new values for it. Fields that are
+   * undefined in `next` are left out; items are compared position by position.
+   */
+  diffBill(current: MedicalBill | MedicalBillDto, next: Partial<MedicalBillDto>): BillFieldChange[] {
+    const changes: BillFieldChange[] = [];
+
+    for (const field of CORRECTABLE_FIELDS) {
+      const newValue = next[field];
+      if (newValue === undefined || this.valuesEqual(current[field], newValue)) continue;
+
+      changes.push({ fieldPath: field, previousValue: current[field] ?? null, newValue });
+    }
+
+    if (next.items) {
+      const previousItems = current.items || [];
+      const newItems = this.sanitizeItems(next.items);
+
+      for (let index = 0; index < Math.max(previousItems.length, newItems.length); index++) {
+        const previousItem = previousItems[index];
+        const newItem = newItems[index];
+
+        if (!previousItem || !newItem) {
+          // Item added or removed
+          changes.push({ fieldPath: `items[${index}]`, previousValue: previousItem ?? null, newValue: newItem ?? null });
+          continue;
+        }
+        for (const field of ITEM_FIELDS) {
+          if (!this.valuesEqual(previousItem[field], newItem[field])) {
+            changes.push({ fieldPath: `items[${index}].${field}`, previousValue: previousItem[field] ?? null, newValue: newItem[field] });
+          }
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  private applyChanges(medicalBill: MedicalBill, next: Partial<MedicalBillDto>): void {
+    for (const field of CORRECTABLE_FIELDS) {
+      if (next[field] !== undefined) {
+        medicalBill[field] = next[field];
+      }
+    }
+    if (next.items) {
+      medicalBill.items = this.sanitizeItems(next.items);
+    }
+  }
+
+  /**
+   * Replace a bill's content with a new extraction of its file. Manual corrections are kept
+   * unless `keepCorrections` is false (a corrected item keeps the whole item list). The result
+   * is stored as a new version, so the earlier extraction can still be compared and restored.
+   */
+  async applyReextraction(
+    medicalBill: MedicalBill,
+    medicalBillData: MedicalBillDto,
+    confidence: number,
+    extras: MedicalBillExtras,
+    options: { keepCorrections?: boolean; createdBy?: string } = {},
+  ): Promise<{ medicalBill: MedicalBill; changes: BillFieldChange[]; previousVersion: number; version: number }> {
+    const keepCorrections = options.keepCorrections ?? true;
+    const correctedFields = keepCorrections ? medicalBill.correctedFields || [] : [];
+
+    const next = this.toContentValues(medicalBillData);
+    for (const field of correctedFields) {
+      if (CORRECTABLE_FIELDS.includes(field)) delete next[field];
+    }
+    if (correctedFields.some(field => field.startsWith('items['))) {
+      delete next.items;
+    }
+
+    const changes = this.diffBill(medicalBill, next);
+
+    this.applyChanges(medicalBill, next);
+    medicalBill.extractionConfidence = this.safeNumber(confidence);
+    medicalBill.extractionMethod = EXTRACTION_METHOD;
+    medicalBill.extractorVersion = MEDICAL_BILL_EXTRACTOR_VERSION;
+    medicalBill.ocrEngine = extras.ocrEngine || null;
+    medicalBill.correctedFields = correctedFields.length > 0 ? correctedFields : null;
+    medicalBill.fieldProvenance = this.markCorrectedProvenance(extras.fieldProvenance || null, correctedFields);
+    medicalBill.ocrCorrections = extras.ocrCorrections || null;
+    medicalBill.processedDate = new Date();
+
+    // A weak rerun needs another look; a confident one clears a pending review. Claimed bills stay with their reviewer.
+    if (medicalBill.reviewState !== ReviewState.IN_REVIEW) {
+      medicalBill.reviewState = this.reviewStateFor(confidence) || (medicalBill.reviewState === ReviewState.NEEDS_REVIEW ? null : medicalBill.reviewState);
+    }
+
+    const saved = await this.saveAsNewVersion(medicalBill, 'reprocess', { createdBy: options.createdBy });
+    return { ...saved, changes };
+  }
+
+  /**
+   * Make an earlier version the bill's current state again. The restore is itself a new
+   * version, so it can be undone. Returns null if the bill or version does not exist.
+   */
+  async restoreVersion(medicalBillId: number, versionNumber: number, restoredBy?: string): Promise<{ medicalBill: MedicalBill; changes: BillFieldChange[]; previousVersion: number; version: number } | null> {
+    const medicalBill = await this.medicalBillRepository.findOne({ where: { id: medicalBillId } });
+    const target = medicalBill ? await this.getVersion(medicalBillId, versionNumber) : null;
+    if (!target) {
+      return null;
+    }
+
+    const changes = this.diffBill(medicalBill, target.data);
+
+    this.applyChanges(medicalBill, target.data);
+    medicalBill.extractionConfidence = target.extractionConfidence;
+    medicalBill.extractionMethod = target.extractionMethod;
+    medicalBill.extractorVersion = target.extractorVersion;
+    medicalBill.ocrEngine = target.ocrEngine;
+    medicalBill.fieldProvenance = target.fieldProvenance;
+    medicalBill.ocrCorrections = target.ocrCorrections;
+    medicalBill.correctedFields = target.correctedFields;
+
+    const saved = await this.saveAsNewVersion(medicalBill, 'restore', { createdBy: restoredBy, restoredFromVersion: versionNumber });
+    return { ...saved, changes };
+  }
+
+  /**
+   * Field changes from one version of a bill to another; null if either does not exist
+   */
+  async diffVersions(medicalBillId: number, fromVersion: number, toVersion: number): Promise<BillFieldChange[] | null> {
+    const from = await this.getVersion(medicalBillId, fromVersion);
+    const to = await this.getVersion(medicalBillId, toVersion);
+    if (!from || !to) {
+      return null;
+    }
+    return this.diffBill(from.data, to.data);
+  }
+
+  /**
+   * Refresh the derived columns of a changed bill and save it together with a version snapshot
+   */
+  private async saveAsNewVersion(
+    medicalBill: MedicalBill,
+    source: MedicalBillVersionSource,
+    meta: { createdBy?: string; restoredFromVersion?: number },
+  ): Promise<{ medicalBill: MedicalBill; previousVersion: number; version: number }> {
+    medicalBill.contentFingerprint = this.duplicateDetectionService.computeFingerprint(this.convertToDto(medicalBill));
+    medicalBill.validationReport = this.medicalBillValidationService.validate(this.convertToDto(medicalBill));
+
+    return await this.medicalBillRepository.manager.transaction(async manager => {
+      const previousVersion = await this.ensureBaselineVersion(manager, medicalBill.id);
+      const savedBill = await manager.save(medicalBill);
+      await manager.save(this.createVersion(savedBill, previousVersion + 1, source, meta));
+      await this.documentService.syncMedicalBill(savedBill, manager);
+      return { medicalBill: savedBill, previousVersion, version: previousVersion + 1 };
+    });
+  }
+
+  /**
+   * Latest version number of a bill. Bills saved before versioning get their stored
+   * (not yet overwritten) state recorded as version 1 first. The bill stays locked until
+   * the transaction ends, so concurrent saves can't both take the next number.
+   */
+  private async ensureBaselineVersion(manager: EntityManager, medicalBillId: number): Promise<number> {
+    const stored = await this.lockMedicalBill(manager, medicalBillId);
+    const latest = await manager.findOne(MedicalBillVersion, { where: { medicalBillId }, order: { versionNumber: 'DESC' } });
+    if (latest) {
+      return latest.versionNumber;
+    }
+
+    await manager.save(this.createVersion(stored, 1, 'extraction'));
+    return 1;
+  }
+
+  /**
+   * Read a bill with a row lock held until the transaction ends. SQLite has no row
+   * locks, but it only lets one transaction write at a time anyway.
+   */
+  private async lockMedicalBill(manager: EntityManager, medicalBillId: number): Promise<MedicalBill | null> {
+    return await manager.findOne(MedicalBill, {
+      where: { id: medicalBillId },
+      lock: DATABASE_TYPE === 'sqlite' ? undefined : { mode: 'pessimistic_write' },
+    });
+  }
+
+  private createVersion(medicalBill: MedicalBill, versionNumber: number, source: MedicalBillVersionSource, meta: { createdBy?: string; restoredFromVersion?: number } = {}): MedicalBillVersion {
+    const { id, fileName, fileSize, processedStatus, processedDate, ...data } = this.convertToDto(medicalBill);
+    const version = new MedicalBillVersion();
+    version.medicalBillId = medicalBill.id;
+    version.versionNumber = versionNumber;
+    version.data = data;
+    version.extractionConfidence = medicalBill.extractionConfidence;
+    version.extractionMethod = medicalBill.extractionMethod;
+    version.extractorVersion = medicalBill.extractorVersion || null;
+    version.ocrEngine = medicalBill.ocrEngine || null;
+    version.fieldProvenance = medicalBill.fieldProvenance || null;
+    version.ocrCorrections = medicalBill.ocrCorrections || null;
+    version.correctedFields = medicalBill.correctedFields || null;
+    version.source = source;
+    version.restoredFromVersion = meta.restoredFromVersion || null;
+    version.createdBy = meta.createdBy || null;
+    return version;
+  }
+
+  /**
+   * Stored versions of a bill, oldest first
+   */
+  async getVersions(medicalBillId: number): Promise<MedicalBillVersion[]> {
+    return await this.medicalBillVersionRepository.find({
+      where: { medicalBillId },
+      order: { versionNumber: 'ASC' }
+    });
+  }
+
+  async getVersion(medicalBillId: number, versionNumber: number): Promise<MedicalBillVersion | null> {
+    return await this.medicalBillVersionRepository.findOne({ where: { medicalBillId, versionNumber } });
+  }
+
+  /**
+   * Delete a bill with its correction and version history and its document. Bills linked to it as duplicates are unlinked.
+   */
+  async deleteMedicalBill(id: number): Promise<boolean> {
+    const exists = await this.medicalBillRepository.count({ where: { id } });
+    if (!exists) {
+      return false;
+    }
+
+    await this.medicalBillRepository.manager.transaction(async manager => {
+      await manager.update(MedicalBill, { duplicateOfId: id }, { duplicateOfId: null, duplicateMatchType: null });
+      await manager.delete(MedicalBillCorrection, { medicalBillId: id });
+      await manager.delete(MedicalBillVersion, { medicalBillId: id });
+      await this.documentService.removeForSource(DocumentSource.MEDICAL_BILL, id, manager);
+      await manager.delete(MedicalBill, id);
+    });
+    return true;
+  }
+
+  /**
+   * Correction history of a bill, oldest first
+   */
+  async getCorrections(medicalBillId: number): Promise<MedicalBillCorrection[]> {
+    return await this.medicalBillCorrectionRepository.find({
+      where: { medicalBillId },
+      order: { createdAt: 'ASC', id: 'ASC' }
+    });
+  }
+
+  /**
+   * convertToDto plus the bookkeeping fields the management endpoints return
+   */
+  convertToDetailedDto(medicalBill: MedicalBill): any {
+    return {
+      ...this.convertToDto(medicalBill),
+      parsedFileId: medicalBill.parsedFileId,
+      extractionConfidence: medicalBill.extractionConfidence !== null ? Number(medicalBill.extractionConfidence) : null,
+      extractionMethod: medicalBill.extractionMethod,
+      extractorVersion: medicalBill.extractorVersion || null,
+      ocrEngine: medicalBill.ocrEngine || null,
+      duplicateOf: medicalBill.duplicateOfId || null,
+      duplicateMatchType: medicalBill.duplicateMatchType || null,
+      correctedFields: medicalBill.correctedFields || [],
+      review: {
+        state: medicalBill.reviewState || null,
+        lockedBy: medicalBill.reviewLockedBy || null,
+        lockedAt: medicalBill.reviewLockedAt || null,
+        reviewedBy: medicalBill.reviewedBy || null,
+        reviewedAt: medicalBill.reviewedAt || null,
+        notes: medicalBill.reviewNotes || null,
+      },
+      provenance: medicalBill.fieldProvenance || null,
+      validation: medicalBill.validationReport || null,
+      ocrCorrections: medicalBill.ocrCorrections || [],
+      createdAt: medicalBill.createdAt,
+      updatedAt: medicalBill.updatedAt,
+    };
+  }
+
+  convertVersionToDto(version: MedicalBillVersion): any {
+    return {
+      version: version.versionNumber,
+      source: version.source,
+      restoredFromVersion: version.restoredFromVersion ?? null,
+      extractionConfidence: version.extractionConfidence !== null ? Number(version.extractionConfidence) : null,
+      extractionMethod: version.extractionMethod,
+      extractorVersion: version.extractorVersion,
+      ocrEngine: version.ocrEngine,
+      createdBy: version.createdBy,
+      createdAt: version.createdAt,
+      correctedFields: version.correctedFields || [],
+      data: version.data,
+      provenance: version.fieldProvenance || null,
+      ocrCorrections: version.ocrCorrections || [],
+    };
+  }
+
+  /**
+   * Corrected values no longer come from OCR - point their provenance at the manual correction
+   */
+  private markCorrectedProvenance(fieldProvenance: any, fieldPaths: string[]): any {
+    if (!fieldProvenance) return fieldProvenance;
+
+    const manual = { method: 'manual-correction', lineNumber: null, lineText: null, ocrConfidence: null };
+    const fields = { ...(fieldProvenance.fields || {}) };
+    const items = [...(fieldProvenance.items || [])];
+
+    for (const fieldPath of fieldPaths) {
+      const itemMatch = fieldPath.match(/^items\[(\d+)\]/);
+      if (itemMatch) {
+        items[Number(itemMatch[1])] = manual;
+      } else {
+        fields[fieldPath] = manual;
+      }
+    }
+    return { ...fieldProvenance, fields, items };
+  }
+
+  /**
+   * Compare a stored value with an incoming one (decimal columns come back from MySQL as strings)
+   */
+  private valuesEqual(current: any, incoming: any): boolean {
+    if (typeof incoming === 'number') {
+      return Number(current) === incoming;
+    }
+    return JSON.stringify(current ?? null) === JSON.stringify(incoming ?? null);
+  }
+
   /**
    * Check if medical bill exists for parsed file
    */
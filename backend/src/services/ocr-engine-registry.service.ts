@@ -0,0 +1,67 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { OCR_ENGINES, OcrEngine } from './ocr-engine.interface';
+
+// Used when the requested engine is unavailable or fails
+const FALLBACK_ENGINE = 'tesseract';
+
+/**
+ * Looks up OCR engines registered under OCR_ENGINES by name.
+ * Selection order: request `engine` parameter, then OCR_ENGINE, then Tesseract.
+ */
+@Injectable()
+export class OcrEngineRegistryService {
+  private readonly logger = new Logger(OcrEngineRegistryService.name);
+  private readonly defaultEngine: string;
+
+  constructor(@Inject(OCR_ENGINES) private readonly engines: OcrEngine[]) {
+    // A mistyped OCR_ENGINE would otherwise fail every upload that doesn't pick an engine
+    const configured = process.env.OCR_ENGINE;
+    if (configured && !this.has(configured)) {
+      this.logger.warn(`Unknown OCR_ENGINE "${configured}" (expected one of: ${this.getEngineNames().join(', ')}); using ${FALLBACK_ENGINE}`);
+    }
+    this.defaultEngine = configured && this.has(configured) ? configured : FALLBACK_ENGINE;
+  }
+
+  getEngineNames(): string[] {
+    return this.engines.map(engine => engine.name);
+  }
+
+  has(name: string): boolean {
+    return this.engines.some(engine => engine.name === name);
+  }
+
+  getFallback(): OcrEngine {
+    return this.engines.find(engine => engine.name === FALLBACK_ENGINE);
+  }
+
+  /**
+   * The engine to use for a request; unavailable engines fall back to Tesseract
+   */
+  async resolve(requested?: string): Promise<OcrEngine> {
+    const name = requested || this.defaultEngine;
+    const engine = this.engines.find(candidate => candidate.name === name);
+    if (!engine) {
+      throw new Error(`Unknown OCR engine "${name}". Expected one of: ${this.getEngineNames().join(', ')}`);
+    }
+
+    return (await engine.isAvailable()) ? engine : this.getFallback();
+  }
+
+  /**
+   * Available engines among `names` (default: all registered), in registration order
+   */
+  async getAvailableEngines(names?: string[]): Promise<OcrEngine[]> {
+    const candidates = this.engines.filter(engine => !names || names.includes(engine.name));
+    const availability = await Promise.all(candidates.map(engine => engine.isAvailable()));
+    return candidates.filter((_, index) => availability[index]);
+  }
+
+  async describe(): Promise<{ name: string; version: string; available: boolean; isDefault: boolean }[]> {
+    return Promise.all(this.engines.map(async engine => ({
+      name: engine.name,
+      version: engine.version,
+      available: await engine.isAvailable(),
+      isDefault: engine.name === this.defaultEngine,
+    })));
+  }
+}
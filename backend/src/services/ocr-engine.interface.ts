@@ -0,0 +1,34 @@
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox?: { x0: number; y0: number; x1: number; y1: number };
+}
+
+/**
+ * A recognized text line with its words, as stored in OcrResult.lineLevelData/wordLevelData
+ */
+export interface OcrLine extends OcrWord {
+  words: OcrWord[];
+}
+
+export interface OcrEngineResult {
+  text: string;
+  confidence: number; // 0-100
+  lines: OcrLine[];
+}
+
+/**
+ * An OCR backend. Engines receive an already preprocessed image and return plain
+ * text plus line/word layout; FileProcessingService turns that into an OcrResult.
+ * Register new engines in the OCR_ENGINES provider in AppModule.
+ */
+export interface OcrEngine {
+  readonly name: string; // Value of the `engine` query parameter / OCR_ENGINE
+  readonly version: string; // Stored as OcrResult.ocrVersion
+  readonly language: string; // Stored as OcrResult.language
+  isAvailable(): Promise<boolean>;
+  recognize(imageBuffer: Buffer): Promise<OcrEngineResult>;
+}
+
+// Injection token for the list of registered engines
+export const OCR_ENGINES = 'OCR_ENGINES';
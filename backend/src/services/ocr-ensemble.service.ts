@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common';
+import { OcrLine } from './ocr-engine.interface';
+
+export interface EnsembleRun {
+  engine: string;
+  preset: string; // ImagePreprocessingService preset the image went through
+  confidence: number;
+  lines: OcrLine[];
+}
+
+export interface EnsembleLineChoice {
+  lineIndex: number; // Index in the merged output
+  runIndex: number; // Run the winning line came from
+  confidence: number;
+  agreement: number; // Runs that read the line exactly like the winner
+  candidates: number; // Runs that had a line aligned to this slot
+}
+
+export interface EnsembleResult {
+  text: string;
+  confidence: number; // Mean confidence of the chosen lines
+  lines: OcrLine[];
+  referenceRunIndex: number; // Run whose line order the merged output follows
+  choices: EnsembleLineChoice[];
+}
+
+// Lines less similar than this (normalized edit distance) are never aligned
+const MIN_LINE_SIMILARITY = 0.5;
+
+/**
+ * Merges several OCR runs of the same image (different engines and/or preprocessing
+ * presets). The most confident run provides the line order; every other run is
+ * aligned to it line by line and each line goes to the most confident reading,
+ * ties broken by how many runs agree on the text.
+ */
+@Injectable()
+export class OcrEnsembleService {
+  merge(runs: EnsembleRun[]): EnsembleResult {
+    const usable = runs
+      .map((run, runIndex) => ({ run, runIndex }))
+      .filter(({ run }) => run.lines.length > 0);
+
+    if (usable.length === 0) {
+      return { text: '', confidence: 0, lines: [], referenceRunIndex: -1, choices: [] };
+    }
+
+    const reference = usable.reduce((best, candidate) =>
+      candidate.run.confidence > best.run.confidence ||
+      (candidate.run.confidence === best.run.confidence && candidate.run.lines.length > best.run.lines.length)
+        ? candidate
+        : best
+    );
+
+    // slots[i] = readings of reference line i, one per run that has an aligned line
+    const slots = reference.run.lines.map(line => [{ line, runIndex: reference.runIndex }]);
+    for (const { run, runIndex } of usable) {
+      if (runIndex === reference.runIndex) continue;
+
+      this.alignLines(reference.run.lines, run.lines).forEach((otherIndex, referenceIndex) => {
+        if (otherIndex !== null) {
+          slots[referenceIndex].push({ line: run.lines[otherIndex], runIndex });
+        }
+      });
+    }
+
+    const lines: OcrLine[] = [];
+    const choices: EnsembleLineChoice[] = [];
+    slots.forEach(readings => {
+      const agreement = (line: OcrLine) => readings.filter(reading => this.normalize(reading.line.text) === this.normalize(line.text)).length;
+      const winner = readings.reduce((best, reading) =>
+        reading.line.confidence > best.line.confidence ||
+        (reading.line.confidence === best.line.confidence && agreement(reading.line) > agreement(best.line))
+          ? reading
+          : best
+      );
+
+      choices.push({
+        lineIndex: lines.length,
+        runIndex: winner.runIndex,
+        confidence: winner.line.confidence,
+        agreement: agreement(winner.line),
+        candidates: readings.length,
+      });
+      lines.push(winner.line);
+    });
+
+    return {
+      text: lines.map(line => line.text).join('\n'),
+      confidence: lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length,
+      lines,
+      referenceRunIndex: reference.runIndex,
+      choices,
+    };
+  }
+
+  /**
+   * Order-preserving alignment maximizing total text similarity (LCS-style dynamic programming).
+   * Returns, for each reference line, the index of its counterpart in `other` or null.
+   */
+  private alignLines(reference: OcrLine[], other: OcrLine[]): (number | null)[] {
+    const rows = reference.length;
+    const cols = other.length;
+    const similarity = reference.map(line => other.map(candidate => this.similarity(line.text, candidate.text)));
+    const score: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+    for (let i = 1; i <= rows; i++) {
+      for (let j = 1; j <= cols; j++) {
+        const match = similarity[i - 1][j - 1] >= MIN_LINE_SIMILARITY ? score[i - 1][j - 1] + similarity[i - 1][j - 1] : -1;
+        score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], match);
+      }
+    }
+
+    const alignment: (number | null)[] = new Array(rows).fill(null);
+    let i = rows;
+    let j = cols;
+    while (i > 0 && j > 0) {
+      const sim = similarity[i - 1][j - 1];
+      if (sim >= MIN_LINE_SIMILARITY && score[i][j] === score[i - 1][j - 1] + sim) {
+        alignment[i - 1] = j - 1;
+        i--;
+        j--;
+      } else if (score[i][j] === score[i - 1][j]) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+
+    return alignment;
+  }
+
+  /**
+   * 1 - normalized Levenshtein distance
+   */
+  private similarity(a: string, b: string): number {
+    const left = this.normalize(a);
+    const right = this.normalize(b);
+    const longest = Math.max(left.length, right.length);
+    if (longest === 0) return 1;
+
+    let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= left.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= right.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return 1 - previous[right.length] / longest;
+  }
+
+  private normalize(text: string): string {
+    return (text || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Renders PDF pages to PNG using poppler's `pdftoppm` binary.
+ * Like Sharp and Google Vision, the binary is optional - callers check isAvailable() first.
+ */
+@Injectable()
+export class PdfRasterizerService {
+  private readonly binaryPath = process.env.PDFTOPPM_PATH || 'pdftoppm';
+  private availability: Promise<boolean> = null;
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.availability) {
+      this.availability = execFileAsync(this.binaryPath, ['-v'])
+        .then(() => true)
+        .catch(() => false);
+    }
+    return this.availability;
+  }
+
+  /**
+   * Render a single page (1-based) to a PNG buffer
+   */
+  async rasterizePage(pdfBuffer: Buffer, pageNumber: number, dpi: number = 200): Promise<Buffer> {
+    return this.render(pdfBuffer, pageNumber, ['-r', String(dpi)]);
+  }
+
+  /**
+   * Render a single page (1-based) to a PNG whose longest side is `maxSize` pixels
+   */
+  async renderScaled(pdfBuffer: Buffer, pageNumber: number, maxSize: number): Promise<Buffer> {
+    return this.render(pdfBuffer, pageNumber, ['-scale-to', String(maxSize)]);
+  }
+
+  private async render(pdfBuffer: Buffer, pageNumber: number, sizeArgs: string[]): Promise<Buffer> {
+    if (!(await this.isAvailable())) {
+      throw new Error('PDF rasterization is not available. Install poppler-utils (pdftoppm) or set PDFTOPPM_PATH.');
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'pdf-raster-'));
+    const inputPath = path.join(workDir, `${crypto.randomBytes(8).toString('hex')}.pdf`);
+    const outputPrefix = path.join(workDir, 'page');
+
+    try {
+      await fs.promises.writeFile(inputPath, pdfBuffer);
+      await execFileAsync(this.binaryPath, [
+        '-png',
+        ...sizeArgs,
+        '-f', String(pageNumber),
+        '-l', String(pageNumber),
+        '-singlefile',
+        inputPath,
+        outputPrefix,
+      ], { timeout: 60000 });
+
+      return await fs.promises.readFile(`${outputPrefix}.png`);
+    } catch (error) {
+      throw new Error(`Failed to rasterize PDF page ${pageNumber}: ${error.message}`);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { ProcessingJob } from '../entities/processing-job.entity';
+import { ProcessingStatus } from '../entities/parsed-file.entity';
+import { ProcessingQueueService } from './processing-queue.service';
+import { UploadRequestOptions } from './upload-pipeline.service';
+
+describe('ProcessingQueueService', () => {
+  let repository: { update: jest.Mock };
+  let uploadPipelineService: { processMedicalBillUpload: jest.Mock; toResponseData: jest.Mock };
+  let service: ProcessingQueueService;
+
+  beforeEach(() => {
+    repository = { update: jest.fn().mockResolvedValue({ affected: 1 }) };
+    uploadPipelineService = {
+      processMedicalBillUpload: jest.fn().mockResolvedValue({ parsedFile: { id: 3 }, medicalBill: { id: 4 } }),
+      toResponseData: jest.fn().mockReturnValue({}),
+    };
+    service = new ProcessingQueueService(
+      repository as any,
+      { readStoredFile: jest.fn().mockResolvedValue(Buffer.from('bill')) } as any,
+      uploadPipelineService as any,
+    );
+  });
+
+  function queuedJob(options: UploadRequestOptions): ProcessingJob {
+    return {
+      id: 1,
+      status: ProcessingStatus.PROCESSING,
+      originalName: 'bill.png',
+      mimeType: 'image/png',
+      fileSize: 4,
+      filePath: 'local://bill.png',
+      requestInfo: { ip: '127.0.0.1' },
+      options,
+    } as ProcessingJob;
+  }
+
+  it('passes every upload option of a job to the pipeline', async () => {
+    const options: Required<UploadRequestOptions> = {
+      duplicatePolicy: 'reject',
+      ocrEngine: 'google-vision',
+      ensemble: true,
+      qualityPolicy: 'reject',
+    };
+
+    await service['runJob'](queuedJob(options));
+
+    expect(uploadPipelineService.processMedicalBillUpload).toHaveBeenCalledWith(
+      expect.objectContaining({ originalname: 'bill.png', mimetype: 'image/png' }),
+      { ip: '127.0.0.1' },
+      expect.objectContaining(options),
+    );
+  });
+
+  it('only completes a job while it still holds the lock', async () => {
+    await service['runJob'](queuedJob({}));
+
+    expect(repository.update).toHaveBeenLastCalledWith(
+      { id: 1, lockedBy: service['workerId'] },
+      expect.objectContaining({ status: ProcessingStatus.COMPLETED, parsedFileId: 3, medicalBillId: 4 }),
+    );
+  });
+
+  it('marks the job failed when the pipeline throws', async () => {
+    uploadPipelineService.processMedicalBillUpload.mockRejectedValue(new Error('OCR timed out'));
+
+    await service['runJob'](queuedJob({}));
+
+    expect(repository.update).toHaveBeenLastCalledWith(
+      { id: 1, lockedBy: service['workerId'] },
+      expect.objectContaining({ status: ProcessingStatus.FAILED, errorMessage: 'File processing failed: OCR timed out' }),
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { ProcessingJob, ProcessingStage } from '../entities/processing-job.entity';
+import { ProcessingStatus } from '../entities/parsed-file.entity';
+import { FileProcessingService } from './file-processing.service';
+import { UploadPipelineService, UploadRequestInfo, UploadRequestOptions } from './upload-pipeline.service';
+import * as os from 'os';
+
+// Progress reported when a job enters each stage
+const STAGE_PROGRESS: Record<ProcessingStage, number> = {
+  [ProcessingStage.PREPROCESSING]: 10,
+  [ProcessingStage.OCR]: 30,
+  [ProcessingStage.EXTRACTION]: 70,
+  [ProcessingStage.PERSISTENCE]: 90,
+};
+
+/**
+ * Database-backed job queue for asynchronous uploads.
+ * Jobs are claimed by an in-process worker; claims whose lock goes stale
+ * (e.g. the process restarted mid-job) are handed back to the queue.
+ */
+@Injectable()
+export class ProcessingQueueService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private readonly pollIntervalMs = parseInt(process.env.JOB_POLL_INTERVAL_MS) || 2000;
+  private readonly lockTimeoutMs = parseInt(process.env.JOB_LOCK_TIMEOUT_MS) || 5 * 60 * 1000;
+  private pollTimer: NodeJS.Timeout = null;
+  private isRunning = false;
+
+  constructor(
+    @InjectRepository(ProcessingJob)
+    private processingJobRepository: Repository<ProcessingJob>,
+    private fileProcessingService: FileProcessingService,
+    private uploadPipelineService: UploadPipelineService,
+  ) {}
+
+  // Runs after every onModuleInit, so DatabaseSetupService has applied pending migrations
+  onApplicationBootstrap() {
+    this.pollTimer = setInterval(() => this.tick(), this.pollIntervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Store the upload on disk and queue it for background processing
+   */
+  async enqueue(file: Express.Multer.File, requestInfo: UploadRequestInfo, options: UploadRequestOptions = {}): Promise<ProcessingJob> {
+    if (!file.buffer || file.buffer.length === 0) {
+      throw new Error('File buffer is missing or empty. Ensure multer is configured with memoryStorage.');
+    }
+
+    const { fileHash, filePath } = await this.fileProcessingService.storeUpload(file.buffer, file.originalname, file.mimetype);
+
+    const job = this.processingJobRepository.create({
+      status: ProcessingStatus.PENDING,
+      progress: 0,
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      fileSize: file.size,
+      fileHash,
+      filePath,
+      requestInfo,
+      options,
+    });
+    const savedJob = await this.processingJobRepository.save(job);
+
+    // Don't wait for the next poll
+    setImmediate(() => this.tick());
+
+    return savedJob;
+  }
+
+  async getJob(id: number): Promise<ProcessingJob | null> {
+    return await this.processingJobRepository.findOne({ where: { id } });
+  }
+
+  private async tick(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      await this.requeueStaleJobs();
+
+      let job = await this.claimNextJob();
+      while (job) {
+        await this.runJob(job);
+        job = await this.claimNextJob();
+      }
+    } catch (error) {
+      // Database not reachable yet - try again on the next poll
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Return jobs whose worker stopped heartbeating (refreshLock) to the queue (or fail them once out of attempts)
+   */
+  private async requeueStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - this.lockTimeoutMs);
+    const staleJobs = await this.processingJobRepository.find({
+      where: { status: ProcessingStatus.PROCESSING, lockedAt: LessThan(staleBefore) }
+    });
+
+    for (const job of staleJobs) {
+      const exhausted = job.attempts >= job.maxAttempts;
+      await this.processingJobRepository.update(
+        { id: job.id, status: ProcessingStatus.PROCESSING },
+        {
+          status: exhausted ? ProcessingStatus.FAILED : ProcessingStatus.PENDING,
+          errorMessage: exhausted ? `Job abandoned after ${job.attempts} attempts` : job.errorMessage,
+          completedAt: exhausted ? new Date() : null,
+          lockedBy: null,
+          lockedAt: null,
+        }
+      );
+    }
+  }
+
+  private async claimNextJob(): Promise<ProcessingJob | null> {
+    const candidate = await this.processingJobRepository.findOne({
+      where: { status: ProcessingStatus.PENDING },
+      order: { createdAt: 'ASC' }
+    });
+    if (!candidate) return null;
+
+    // Conditional update so two workers can't claim the same job
+    const now = new Date();
+    const claim = await this.processingJobRepository.update(
+      { id: candidate.id, status: ProcessingStatus.PENDING },
+      {
+        status: ProcessingStatus.PROCESSING,
+        attempts: candidate.attempts + 1,
+        lockedBy: this.workerId,
+        lockedAt: now,
+        startedAt: now,
+      }
+    );
+    if (!claim.affected) return null;
+
+    return await this.getJob(candidate.id);
+  }
+
+  private async runJob(job: ProcessingJob): Promise<void> {
+    // A single stage (e.g. OCR of a long PDF) can outlast the lock timeout, so the lock is
+    // refreshed on a timer rather than only on stage changes
+    const heartbeat = setInterval(() => this.refreshLock(job.id).catch(() => undefined), this.lockTimeoutMs / 3);
+
+    try {
+      const buffer = await this.fileProcessingService.readStoredFile(job.filePath);
+      const file = {
+        fieldname: 'file',
+        originalname: job.originalName,
+        encoding: '7bit',
+        mimetype: job.mimeType,
+        size: Number(job.fileSize),
+        buffer,
+      } as Express.Multer.File;
+
+      const result = await this.uploadPipelineService.processMedicalBillUpload(file, job.requestInfo || {}, {
+        onStage: (stage) => this.updateStage(job.id, stage),
+        duplicatePolicy: job.options?.duplicatePolicy,
+        ocrEngine: job.options?.ocrEngine,
+        ensemble: job.options?.ensemble,
+        qualityPolicy: job.options?.qualityPolicy,
+      });
+
+      // Conditional on our lock: if the job was requeued and claimed elsewhere, that run owns its state
+      await this.processingJobRepository.update({ id: job.id, lockedBy: this.workerId }, {
+        status: ProcessingStatus.COMPLETED,
+        progress: 100,
+        parsedFileId: result.parsedFile.id,
+        medicalBillId: result.medicalBill.id,
+        result: this.uploadPipelineService.toResponseData(result),
+        errorMessage: null,
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+      });
+    } catch (error) {
+      await this.processingJobRepository.update({ id: job.id, lockedBy: this.workerId }, {
+        status: ProcessingStatus.FAILED,
+        errorMessage: `File processing failed: ${error.message}`,
+        completedAt: new Date(),
+        lockedBy: null,
+        lockedAt: null,
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async updateStage(jobId: number, stage: ProcessingStage): Promise<void> {
+    await this.processingJobRepository.update({ id: jobId, lockedBy: this.workerId }, {
+      stage,
+      progress: STAGE_PROGRESS[stage],
+      lockedAt: new Date(),
+    });
+  }
+
+  /**
+   * Worker heartbeat: keeps requeueStaleJobs from handing a job that is still running to another worker
+   */
+  private async refreshLock(jobId: number): Promise<void> {
+    await this.processingJobRepository.update(
+      { id: jobId, status: ProcessingStatus.PROCESSING, lockedBy: this.workerId },
+      { lockedAt: new Date() }
+    );
+  }
+}
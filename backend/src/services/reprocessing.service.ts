@@ -0,0 +1,150 @@
+import { Injectable } from '@nestjs/common';
+import { ParsedFile, FileType } from '../entities/parsed-file.entity';
+import { FileProcessingService, PdfOcrMode } from './file-processing.service';
+import { MedicalBillService, BillFieldChange } from './medical-bill.service';
+import { UploadPipelineService } from './upload-pipeline.service';
+import { DuplicateDetectionService } from './duplicate-detection.service';
+
+export interface ReprocessOptions {
+  ocr?: boolean; // Rerun text extraction/OCR on the stored original (default false - reuse the stored text)
+  extraction?: boolean; // Rerun medical bill extraction (default true)
+  ocrEngine?: string; // Defaults to OCR_ENGINE / 'tesseract'
+  ensemble?: boolean; // Defaults to OCR_ENSEMBLE
+  pdfOcrMode?: PdfOcrMode; // Defaults to PDF_OCR_MODE / 'auto'
+  keepCorrections?: boolean; // Keep manually corrected values (default true)
+  requestedBy?: string; // Recorded on the new bill version
+}
+
+export interface ReprocessResult {
+  parsedFileId: number;
+  success: boolean;
+  retryCount?: number;
+  ocrRerun?: boolean;
+  textChanged?: boolean; // Extracted text differs from before the OCR rerun
+  medicalBillId?: number;
+  created?: boolean; // The file had no medical bill before
+  previousVersion?: number;
+  version?: number;
+  previousConfidence?: number;
+  confidence?: number;
+  changes?: BillFieldChange[];
+  validationErrors?: string[];
+  error?: string;
+}
+
+export interface ReprocessReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: ReprocessResult[];
+}
+
+export const MAX_REPROCESS_FILES = 50;
+
+/**
+ * Reruns OCR and/or medical bill extraction on stored uploads, so improvements to the
+ * extraction heuristics reach old files. Bills are updated in place with their earlier
+ * state kept as MedicalBillVersion rows.
+ */
+@Injectable()
+export class ReprocessingService {
+  constructor(
+    private readonly fileProcessingService: FileProcessingService,
+    private readonly medicalBillService: MedicalBillService,
+    private readonly uploadPipelineService: UploadPipelineService,
+    private readonly duplicateDetectionService: DuplicateDetectionService,
+  ) {}
+
+  /**
+   * Reprocess one file. Errors are thrown; reprocessMany reports them per file instead.
+   */
+  async reprocess(parsedFile: ParsedFile, options: ReprocessOptions = {}): Promise<ReprocessResult> {
+    const rerunOcr = options.ocr ?? false;
+    const rerunExtraction = options.extraction ?? true;
+    if (!rerunOcr && !rerunExtraction) {
+      throw new Error('Nothing to reprocess: enable ocr and/or extraction');
+    }
+    if (rerunOcr && parsedFile.fileType === FileType.EXCEL) {
+      throw new Error('OCR does not apply to Excel files');
+    }
+
+    const result: ReprocessResult = { parsedFileId: parsedFile.id, success: true, ocrRerun: rerunOcr, changes: [] };
+    result.retryCount = await this.fileProcessingService.incrementRetryCount(parsedFile.id);
+
+    if (rerunOcr) {
+      const previousText = parsedFile.extractedText || '';
+      parsedFile = await this.fileProcessingService.reprocessFile(parsedFile, {
+        ocrEngine: options.ocrEngine,
+        ensemble: options.ensemble,
+        pdfOcrMode: options.pdfOcrMode,
+      });
+      result.textChanged = (parsedFile.extractedText || '') !== previousText;
+    }
+
+    if (!rerunExtraction) {
+      return result;
+    }
+
+    const extraction = await this.uploadPipelineService.extractMedicalBill(parsedFile);
+    const extras = {
+      fieldProvenance: extraction.provenance,
+      ocrCorrections: extraction.ocrCorrections,
+      ocrEngine: extraction.ocrEngine,
+    };
+
+    const existing = await this.medicalBillService.getMedicalBillByParsedFileId(parsedFile.id);
+    if (!existing) {
+      const medicalBill = await this.medicalBillService.saveMedicalBill(parsedFile.id, extraction.medicalBillData, extraction.confidence, {
+        fileName: parsedFile.originalName,
+        fileSize: parsedFile.fileSize,
+        processedStatus: parsedFile.processingStatus
+      }, {
+        ...extras,
+        contentFingerprint: this.duplicateDetectionService.computeFingerprint(extraction.medicalBillData),
+        validationReport: extraction.validation,
+      });
+      return { ...result, medicalBillId: medicalBill.id, created: true, confidence: Number(medicalBill.extractionConfidence) };
+    }
+
+    const previousConfidence = existing.extractionConfidence !== null ? Number(existing.extractionConfidence) : null;
+    const applied = await this.medicalBillService.applyReextraction(existing, extraction.medicalBillData, extraction.confidence, extras, {
+      keepCorrections: options.keepCorrections,
+      createdBy: options.requestedBy,
+    });
+
+    return {
+      ...result,
+      medicalBillId: applied.medicalBill.id,
+      created: false,
+      previousVersion: applied.previousVersion,
+      version: applied.version,
+      previousConfidence,
+      confidence: Number(applied.medicalBill.extractionConfidence),
+      changes: applied.changes,
+    };
+  }
+
+  /**
+   * Reprocess several files one after another; a failure is reported for its file and the rest continue
+   */
+  async reprocessMany(parsedFileIds: number[], options: ReprocessOptions = {}): Promise<ReprocessReport> {
+    const results: ReprocessResult[] = [];
+
+    for (const parsedFileId of [...new Set(parsedFileIds)]) {
+      const parsedFile = await this.fileProcessingService.getParsedFileById(parsedFileId);
+      if (!parsedFile) {
+        results.push({ parsedFileId, success: false, error: `File with ID ${parsedFileId} not found` });
+        continue;
+      }
+
+      try {
+        results.push(await this.reprocess(parsedFile, options));
+      } catch (error) {
+        results.push({ parsedFileId, success: false, validationErrors: error.validationErrors || [], error: error.message });
+      }
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    return { total: results.length, succeeded, failed: results.length - succeeded, results };
+  }
+}
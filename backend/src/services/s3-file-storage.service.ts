@@ -0,0 +1,191 @@
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { ByteRange, FileStorageDriver } from './file-storage.interface';
+
+const SCHEME = 's3';
+
+interface S3Response {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  body: http.IncomingMessage;
+}
+
+/**
+ * Files in an S3 bucket (or any S3-compatible service such as MinIO), as `s3://<bucket>/<key>`.
+ * Requests are signed with AWS Signature Version 4, so no SDK is needed.
+ * S3_ENDPOINT points at a non-AWS service and switches to path-style URLs (`<endpoint>/<bucket>/<key>`).
+ */
+@Injectable()
+export class S3FileStorage implements FileStorageDriver {
+  readonly name = 's3';
+  readonly scheme = SCHEME;
+  private readonly bucket = process.env.S3_BUCKET;
+  private readonly region = process.env.S3_REGION || 'us-east-1';
+  private readonly endpoint = new URL(process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`);
+  private readonly forcePathStyle = process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : !!process.env.S3_ENDPOINT;
+  private readonly prefix = process.env.S3_PREFIX || '';
+  private readonly accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  private readonly secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  private readonly sessionToken = process.env.S3_SESSION_TOKEN;
+  private readonly timeoutMs = parseInt(process.env.S3_TIMEOUT_MS) || 60000;
+
+  isConfigured(): boolean {
+    return !!(this.bucket && this.accessKeyId && this.secretAccessKey);
+  }
+
+  uriFor(key: string): string {
+    return `${SCHEME}://${this.bucket}/${this.prefix}${key}`;
+  }
+
+  async write(key: string, buffer: Buffer, contentType?: string): Promise<string> {
+    const uri = this.uriFor(key);
+    const response = await this.request('PUT', uri, {
+      body: buffer,
+      headers: contentType ? { 'content-type': contentType } : {},
+    });
+    await this.expectSuccess(response, `store ${uri}`);
+    return uri;
+  }
+
+  async read(uri: string): Promise<Buffer> {
+    const response = await this.request('GET', uri);
+    await this.expectSuccess(response, `read ${uri}`);
+    return this.collect(response.body);
+  }
+
+  async size(uri: string): Promise<number | null> {
+    const response = await this.request('HEAD', uri);
+    response.body.resume();
+    if (response.statusCode === 404) return null;
+    await this.expectSuccess(response, `look up ${uri}`);
+    return parseInt(response.headers['content-length'] as string, 10);
+  }
+
+  async createReadStream(uri: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.request('GET', uri, {
+      headers: range ? { range: `bytes=${range.start}-${range.end}` } : {},
+    });
+    await this.expectSuccess(response, `read ${uri}`);
+    return response.body;
+  }
+
+  async delete(uri: string): Promise<void> {
+    const response = await this.request('DELETE', uri);
+    await this.expectSuccess(response, `delete ${uri}`);
+    response.body.resume();
+  }
+
+  private parseUri(uri: string): { bucket: string; key: string } {
+    const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(uri);
+    if (!match) {
+      throw new Error(`Not an S3 storage URI: ${uri}`);
+    }
+    return { bucket: match[1], key: match[2] };
+  }
+
+  private async request(method: string, uri: string, options: { body?: Buffer; headers?: Record<string, string> } = {}): Promise<S3Response> {
+    if (!this.isConfigured()) {
+      throw new Error('S3 storage is not configured. Set S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.');
+    }
+
+    const { bucket, key } = this.parseUri(uri);
+    const encodedKey = key.split('/').map(segment => this.encode(segment)).join('/');
+    const host = this.forcePathStyle ? this.endpoint.host : `${bucket}.${this.endpoint.host}`;
+    const basePath = this.endpoint.pathname.replace(/\/$/, '');
+    const requestPath = this.forcePathStyle ? `${basePath}/${bucket}/${encodedKey}` : `${basePath}/${encodedKey}`;
+
+    const body = options.body || Buffer.alloc(0);
+    const headers: Record<string, string> = {
+      ...options.headers,
+      host,
+      'x-amz-content-sha256': this.sha256(body),
+      'x-amz-date': this.amzDate(new Date()),
+    };
+    if (this.sessionToken) {
+      headers['x-amz-security-token'] = this.sessionToken;
+    }
+    headers.authorization = this.sign(method, requestPath, headers);
+    if (body.length > 0) {
+      headers['content-length'] = String(body.length);
+    }
+
+    const transport = this.endpoint.protocol === 'http:' ? http : https;
+    return new Promise<S3Response>((resolve, reject) => {
+      const req = transport.request({
+        method,
+        protocol: this.endpoint.protocol,
+        hostname: this.forcePathStyle ? this.endpoint.hostname : `${bucket}.${this.endpoint.hostname}`,
+        port: this.endpoint.port || undefined,
+        path: requestPath,
+        headers,
+        timeout: this.timeoutMs,
+      }, res => resolve({ statusCode: res.statusCode, headers: res.headers, body: res }));
+
+      req.on('timeout', () => req.destroy(new Error(`S3 request timed out after ${this.timeoutMs}ms`)));
+      req.on('error', reject);
+      req.end(body.length > 0 ? body : undefined);
+    });
+  }
+
+  /**
+   * AWS Signature Version 4 Authorization header; every header passed in is signed
+   */
+  private sign(method: string, requestPath: string, headers: Record<string, string>): string {
+    const amzDate = headers['x-amz-date'];
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    const canonicalHeaders = names.map(name => `${name}:${String(lowerCased[name]).trim().replace(/\s+/g, ' ')}\n`).join('');
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [method, requestPath, '', canonicalHeaders, signedHeaders, lowerCased['x-amz-content-sha256']].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.sha256(canonicalRequest)].join('\n');
+
+    const signingKey = [date, this.region, 's3', 'aws4_request']
+      .reduce<Buffer | string>((key, part) => this.hmac(key, part), `AWS4${this.secretAccessKey}`);
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  }
+
+  private async expectSuccess(response: S3Response, action: string): Promise<void> {
+    if (response.statusCode >= 200 && response.statusCode < 300) return;
+
+    const detail = (await this.collect(response.body)).toString('utf8');
+    const code = /<Code>([^<]+)<\/Code>/.exec(detail)?.[1];
+    throw new Error(`Failed to ${action}: S3 responded ${response.statusCode}${code ? ` ${code}` : ''}`);
+  }
+
+  private collect(stream: Readable): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(chunk));
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+      stream.on('error', reject);
+    });
+  }
+
+  /**
+   * RFC 3986 encoding required by SigV4 (encodeURIComponent leaves !'()* alone)
+   */
+  private encode(segment: string): string {
+    return encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private amzDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private sha256(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  private hmac(key: Buffer | string, data: string): Buffer {
+    return crypto.createHmac('sha256', key).update(data).digest();
+  }
+}
@@ -0,0 +1,212 @@
+import { Injectable } from '@nestjs/common';
+import { MedicalBillItemDto } from '../dto/medical-bill.dto';
+import { OcrLine, OcrWord } from './ocr-engine.interface';
+
+export type LineItemColumn = 'sNo' | 'itemDescription' | 'pack' | 'mrp' | 'batchNo' | 'exp' | 'qty' | 'rate' | 'amount';
+export type TableCellType = 'number' | 'date' | 'text' | 'empty';
+
+export interface TableColumn {
+  key: LineItemColumn;
+  label: string; // Header text as printed
+  x0: number; // Horizontal range words are assigned by (header boxes split at their midpoints)
+  x1: number;
+}
+
+export interface LineItemRow {
+  cells: Partial<Record<LineItemColumn, string>>;
+  lineText: string;
+  confidence: number; // Mean OCR confidence of the row's words
+  bbox?: OcrWord['bbox'];
+}
+
+export interface LineItemTable {
+  columns: TableColumn[];
+  rows: LineItemRow[];
+  cellTypes: TableCellType[][]; // rows x columns
+  boundingBox: { x: number; y: number; width: number; height: number };
+  tableConfidence: number; // Share of rows (0-100) with a readable amount
+}
+
+// TableExtraction.extractionMethod of tables produced here
+export const LINE_ITEM_TABLE_METHOD = 'ocr-word-boxes';
+
+const HEADER_PATTERNS: { key: LineItemColumn; pattern: RegExp }[] = [
+  { key: 'sNo', pattern: /^(s\.?no\.?|sr\.?(no\.?)?|sl\.?(no\.?)?|#)$/ },
+  { key: 'itemDescription', pattern: /^(description|particulars?|products?|items?|medicines?|drug|name)$/ },
+  { key: 'pack', pattern: /^(pack|packing|pkg)$/ },
+  { key: 'mrp', pattern: /^m\.?r\.?p\.?$/ },
+  { key: 'batchNo', pattern: /^(batch|b\.?no\.?)$/ },
+  { key: 'exp', pattern: /^(exp\.?|expiry|exp\.?dt\.?)$/ },
+  { key: 'qty', pattern: /^(qty\.?|quantity|qnty)$/ },
+  { key: 'rate', pattern: /^(rate|price)$/ },
+  { key: 'amount', pattern: /^(amount|amt\.?|value|total)$/ },
+];
+
+// A header needs this many recognized columns, at least one of them numeric
+const MIN_HEADER_COLUMNS = 3;
+const NUMERIC_COLUMNS: LineItemColumn[] = ['mrp', 'qty', 'rate', 'amount'];
+
+// Lines that close the item table
+const TABLE_FOOTER = /\b(sub\s*total|grand\s*total|net\s*(amount|payable)|total\s*(qty|quantity|amount)|amount\s*in\s*words|rupees|less\s*discount|round\s*off)\b/i;
+
+// Non-item lines tolerated inside the table before it is considered finished
+const MAX_GAP_LINES = 3;
+
+/**
+ * Finds the line item table of a bill from OCR word boxes: the header line fixes
+ * column positions, and each following line's words are assigned to columns by
+ * their horizontal position. Lines without boxes (PDF text layer) can't be analyzed.
+ */
+@Injectable()
+export class TableLayoutAnalyzerService {
+  analyze(lines: OcrLine[]): LineItemTable | null {
+    const header = this.findHeader(lines);
+    if (!header) return null;
+
+    const { columns, lineIndex: headerIndex } = header;
+    const rows: LineItemRow[] = [];
+    let gap = 0;
+
+    for (const line of lines.slice(headerIndex + 1)) {
+      if (TABLE_FOOTER.test(line.text)) break;
+
+      const words = line.words.filter(word => word.bbox && this.clean(word.text));
+      if (words.length === 0) continue;
+
+      const cells: Partial<Record<LineItemColumn, string>> = {};
+      for (const word of words) {
+        const column = this.columnAt(columns, (word.bbox.x0 + word.bbox.x1) / 2);
+        cells[column.key] = cells[column.key] ? `${cells[column.key]} ${this.clean(word.text)}` : this.clean(word.text);
+      }
+
+      if (NUMERIC_COLUMNS.some(key => this.parseNumber(cells[key]) > 0)) {
+        rows.push({
+          cells,
+          lineText: line.text,
+          confidence: words.reduce((sum, word) => sum + word.confidence, 0) / words.length,
+          bbox: this.union(words.map(word => word.bbox)),
+        });
+        gap = 0;
+      } else if (rows.length > 0 && cells.itemDescription && Object.keys(cells).every(key => key === 'itemDescription' || key === 'pack')) {
+        // Description wrapped onto the next line
+        const previous = rows[rows.length - 1];
+        previous.cells.itemDescription = [previous.cells.itemDescription, cells.itemDescription].filter(Boolean).join(' ');
+        previous.lineText = `${previous.lineText}\n${line.text}`;
+      } else if (rows.length > 0 && ++gap > MAX_GAP_LINES) {
+        break;
+      }
+    }
+
+    if (rows.length === 0) return null;
+
+    const boxes = [lines[headerIndex].bbox, ...rows.map(row => row.bbox)].filter(Boolean);
+    const bounds = this.union(boxes);
+    const amountKey: LineItemColumn = columns.some(column => column.key === 'amount') ? 'amount' : columns.find(column => NUMERIC_COLUMNS.includes(column.key)).key;
+
+    return {
+      columns,
+      rows,
+      cellTypes: rows.map(row => columns.map(column => this.cellType(row.cells[column.key]))),
+      boundingBox: { x: bounds.x0, y: bounds.y0, width: bounds.x1 - bounds.x0, height: bounds.y1 - bounds.y0 },
+      tableConfidence: Math.round(rows.filter(row => this.parseNumber(row.cells[amountKey]) > 0).length / rows.length * 10000) / 100,
+    };
+  }
+
+  /**
+   * One table row as a bill item; sNo falls back to the row position
+   */
+  toMedicalBillItem(row: LineItemRow, position: number): MedicalBillItemDto {
+    const { cells } = row;
+    return {
+      sNo: parseInt(cells.sNo) || position,
+      itemDescription: cells.itemDescription || '',
+      pack: cells.pack || '',
+      mrp: this.parseNumber(cells.mrp),
+      batchNo: cells.batchNo || '',
+      exp: cells.exp || '',
+      qty: this.parseNumber(cells.qty),
+      rate: this.parseNumber(cells.rate),
+      amount: this.parseNumber(cells.amount),
+    };
+  }
+
+  /**
+   * The line whose words name the most item columns
+   */
+  private findHeader(lines: OcrLine[]): { columns: TableColumn[]; lineIndex: number } | null {
+    let best: { columns: TableColumn[]; lineIndex: number } = null;
+
+    lines.forEach((line, lineIndex) => {
+      const columns = this.headerColumns(line);
+      if (columns.length < MIN_HEADER_COLUMNS || !columns.some(column => NUMERIC_COLUMNS.includes(column.key))) return;
+      if (!best || columns.length > best.columns.length) {
+        best = { columns, lineIndex };
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Columns named on a header line. Unrecognized words ("No." in "Batch No.") widen the
+   * column before them; the assignment ranges are split halfway between header boxes.
+   */
+  private headerColumns(line: OcrLine): TableColumn[] {
+    const words = line.words
+      .filter(word => word.bbox && this.clean(word.text))
+      .sort((a, b) => a.bbox.x0 - b.bbox.x0);
+
+    const found: { key: LineItemColumn; label: string; x0: number; x1: number }[] = [];
+    for (const word of words) {
+      const text = this.clean(word.text);
+      const key = HEADER_PATTERNS.find(({ pattern }) => pattern.test(text.toLowerCase()))?.key;
+      const current = found[found.length - 1];
+
+      if (key && !found.some(column => column.key === key)) {
+        found.push({ key, label: text, x0: word.bbox.x0, x1: word.bbox.x1 });
+      } else if (current) {
+        current.label = `${current.label} ${text}`;
+        current.x1 = Math.max(current.x1, word.bbox.x1);
+      }
+    }
+
+    return found.map((column, index) => ({
+      ...column,
+      x0: index === 0 ? -Infinity : (found[index - 1].x1 + column.x0) / 2,
+      x1: index === found.length - 1 ? Infinity : (column.x1 + found[index + 1].x0) / 2,
+    }));
+  }
+
+  private columnAt(columns: TableColumn[], x: number): TableColumn {
+    return columns.find(column => x >= column.x0 && x < column.x1) || columns[columns.length - 1];
+  }
+
+  private cellType(value?: string): TableCellType {
+    if (!value) return 'empty';
+    if (/^(rs\.?|₹)?\s*[\d,]+(\.\d+)?$/i.test(value)) return 'number';
+    if (/^\d{1,2}[\/\-.]\d{1,2}([\/\-.]\d{2,4})?$/.test(value) || /^[a-z]{3}[\/\-\s]?\d{2,4}$/i.test(value)) return 'date';
+    return 'text';
+  }
+
+  private parseNumber(value?: string): number {
+    if (!value) return 0;
+    const num = parseFloat(value.replace(/[^\d.]/g, ''));
+    return isNaN(num) ? 0 : num;
+  }
+
+  /**
+   * Strip table rules and stray separators OCR reads as characters
+   */
+  private clean(text: string): string {
+    return (text || '').replace(/[|\[\]]/g, '').trim();
+  }
+
+  private union(boxes: OcrWord['bbox'][]): OcrWord['bbox'] {
+    return {
+      x0: Math.min(...boxes.map(box => box.x0)),
+      y0: Math.min(...boxes.map(box => box.y0)),
+      x1: Math.max(...boxes.map(box => box.x1)),
+      y1: Math.max(...boxes.map(box => box.y1)),
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import * as Tesseract from 'tesseract.js';
+import { OcrEngine, OcrEngineResult, OcrLine } from './ocr-engine.interface';
+
+/**
+ * Local Tesseract (tesseract.js) engine - always available, used as the fallback
+ */
+@Injectable()
+export class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract';
+  readonly version: string = require('tesseract.js/package.json').version;
+  readonly language = 'eng';
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async recognize(imageBuffer: Buffer): Promise<OcrEngineResult> {
+    const result = await Tesseract.recognize(imageBuffer, this.language, this.getMedicalBillTesseractConfig());
+
+    const lines: OcrLine[] = (result.data.lines || []).map(line => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      bbox: line.bbox,
+      words: (line.words || []).map(word => ({ text: word.text, confidence: word.confidence, bbox: word.bbox })),
+    }));
+
+    return {
+      text: result.data.text.trim(),
+      confidence: result.data.confidence || 0,
+      lines
+    };
+  }
+
+  /**
+   * Get optimized Tesseract configuration for medical bills
+   */
+  private getMedicalBillTesseractConfig(): any {
+    return {
+      logger: (m: any) => {
+        if (m.status === 'recognizing text') {
+          // OCR progress
+        }
+      },
+      // Enhanced OCR configuration for medical bills
+      tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789.,:;()[]{}@#$%&*+-/=<>?!"\'\\|~`^_ \n\t',
+      tessedit_pageseg_mode: '6', // Assume uniform block of text
+      preserve_interword_spaces: '1', // Preserve spaces between words
+      tessedit_ocr_engine_mode: '3', // Default neural nets LSTM engine
+      tessedit_do_invert: '0', // Don't invert image
+      textord_min_linesize: '2.0', // Minimum line size
+      textord_tabfind_show_vlines: '0', // Don't show vertical lines
+      classify_enable_learning: '1', // Enable learning
+      classify_enable_adaptive_matcher: '1', // Enable adaptive matching
+      // Medical bill specific patterns
+      user_words_suffix: 'user-words',
+      user_patterns_suffix: 'user-patterns'
+    };
+  }
+}
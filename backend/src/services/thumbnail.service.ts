@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { FileType } from '../entities/parsed-file.entity';
+import { PdfRasterizerService } from './pdf-rasterizer.service';
+
+// Optional Sharp image processing - without it only PDF pages can be rendered
+let sharp: any;
+try {
+  sharp = require('sharp');
+} catch (error) {
+  sharp = null;
+}
+
+export interface RenderedImage {
+  buffer: Buffer;
+  extension: 'jpg' | 'png';
+}
+
+/**
+ * Renders small previews of uploads: images are resized with Sharp,
+ * PDF pages are rendered by pdftoppm. Excel files have no preview.
+ */
+@Injectable()
+export class ThumbnailService {
+  // Longest side in pixels
+  readonly thumbnailSize = parseInt(process.env.THUMBNAIL_SIZE) || 300;
+  readonly pagePreviewSize = parseInt(process.env.PAGE_PREVIEW_SIZE) || 1200;
+
+  constructor(private readonly pdfRasterizerService: PdfRasterizerService) {}
+
+  async canRender(fileType: FileType): Promise<boolean> {
+    if (fileType === FileType.IMAGE) return sharp !== null;
+    if (fileType === FileType.PDF) return this.pdfRasterizerService.isAvailable();
+    return false;
+  }
+
+  /**
+   * Render page `pageNumber` (1-based; images have a single page) with its longest side at most `maxSize`
+   */
+  async renderPage(buffer: Buffer, fileType: FileType, pageNumber: number, maxSize: number): Promise<RenderedImage> {
+    if (!(await this.canRender(fileType))) {
+      throw new Error(`Previews are not available for ${fileType} files`);
+    }
+
+    if (fileType === FileType.PDF) {
+      const page = await this.pdfRasterizerService.renderScaled(buffer, pageNumber, maxSize);
+      return sharp
+        ? { buffer: await sharp(page).jpeg({ quality: 80 }).toBuffer(), extension: 'jpg' }
+        : { buffer: page, extension: 'png' };
+    }
+
+    if (pageNumber !== 1) {
+      throw new Error(`Page ${pageNumber} does not exist; images have a single page`);
+    }
+
+    const resized = await sharp(buffer)
+      .rotate() // Apply EXIF orientation so previews match what the user photographed
+      .resize(maxSize, maxSize, { fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return { buffer: resized, extension: 'jpg' };
+  }
+
+  async renderThumbnail(buffer: Buffer, fileType: FileType): Promise<RenderedImage> {
+    return this.renderPage(buffer, fileType, 1, this.thumbnailSize);
+  }
+}
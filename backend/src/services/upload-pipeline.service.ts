@@ -0,0 +1,262 @@
+import { Injectable } from '@nestjs/common';
+import { ParsedFile } from '../entities/parsed-file.entity';
+import { MedicalBill } from '../entities/medical-bill.entity';
+import { ProcessingStage } from '../entities/processing-job.entity';
+import { MedicalBillDto } from '../dto/medical-bill.dto';
+import { FileProcessingService } from './file-processing.service';
+import { MedicalBillExtractionService, MedicalBillProvenance } from './medical-bill-extraction.service';
+import { MedicalBillService } from './medical-bill.service';
+import { DuplicateDetectionService, DuplicateMatch, DuplicatePolicy } from './duplicate-detection.service';
+import { MedicalBillValidationService, BillValidationReport } from './medical-bill-validation.service';
+import { BillReconciliationService, OcrCorrection } from './bill-reconciliation.service';
+import { ImageQualityService, ImageQualityPolicy, ImageQualityReport } from './image-quality.service';
+
+export interface UploadRequestInfo {
+  userAgent?: string;
+  ip?: string;
+  sessionId?: string;
+}
+
+export interface UploadPipelineOptions {
+  onStage?: (stage: ProcessingStage) => Promise<void> | void;
+  duplicatePolicy?: DuplicatePolicy; // Defaults to DUPLICATE_POLICY / 'link'
+  ocrEngine?: string; // Defaults to OCR_ENGINE / 'tesseract'
+  ensemble?: boolean; // Multi-engine OCR voting; defaults to OCR_ENSEMBLE
+  qualityPolicy?: ImageQualityPolicy; // Defaults to IMAGE_QUALITY_POLICY / 'warn'
+}
+
+// Options a client can choose per upload (stored with queued jobs)
+export type UploadRequestOptions = Pick<UploadPipelineOptions, 'duplicatePolicy' | 'ocrEngine' | 'ensemble' | 'qualityPolicy'>;
+
+export interface MedicalBillExtraction {
+  medicalBillData: MedicalBillDto;
+  confidence: number;
+  provenance: MedicalBillProvenance;
+  validation: BillValidationReport;
+  ocrCorrections: OcrCorrection[];
+  ocrEngine: string | null; // Engine(s) of the OCR results the bill was read from
+}
+
+export interface UploadPipelineResult {
+  parsedFile: ParsedFile;
+  medicalBill: MedicalBill;
+  medicalBillData: MedicalBillDto;
+  confidence: number;
+  provenance: MedicalBillProvenance;
+  validation: BillValidationReport; // Arithmetic consistency; reported, never blocks the upload
+  ocrCorrections: OcrCorrection[];
+  duplicateOf: DuplicateMatch | null;
+  imageQuality: ImageQualityReport | null; // Pre-OCR assessment of image uploads
+}
+
+/**
+ * Error raised by the pipeline; carries validation errors when extraction produced an invalid bill
+ */
+export class MedicalBillUploadError extends Error {
+  constructor(message: string, public readonly validationErrors: string[] = []) {
+    super(message);
+    this.name = 'MedicalBillUploadError';
+  }
+}
+
+/**
+ * Raised under the 'reject' duplicate policy when the upload matches an existing bill
+ */
+export class DuplicateBillError extends MedicalBillUploadError {
+  constructor(public readonly duplicateOf: DuplicateMatch) {
+    super(`Duplicate of medical bill ${duplicateOf.medicalBillId} (${duplicateOf.matchType} match)`);
+    this.name = 'DuplicateBillError';
+  }
+}
+
+/**
+ * Raised under the 'reject' quality policy when an image is not worth running OCR on
+ */
+export class ImageQualityError extends MedicalBillUploadError {
+  constructor(public readonly imageQuality: ImageQualityReport) {
+    super(
+      `Image quality too low for OCR: ${imageQuality.issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join('; ')}`,
+      imageQuality.issues.map(issue => issue.message),
+    );
+    this.name = 'ImageQualityError';
+  }
+}
+
+/**
+ * Runs an uploaded file through OCR, medical bill extraction and persistence.
+ * Shared by the synchronous upload endpoint and the background job queue.
+ */
+@Injectable()
+export class UploadPipelineService {
+  constructor(
+    private readonly fileProcessingService: FileProcessingService,
+    private readonly medicalBillExtractionService: MedicalBillExtractionService,
+    private readonly medicalBillService: MedicalBillService,
+    private readonly duplicateDetectionService: DuplicateDetectionService,
+    private readonly medicalBillValidationService: MedicalBillValidationService,
+    private readonly billReconciliationService: BillReconciliationService,
+    private readonly imageQualityService: ImageQualityService,
+  ) {}
+
+  async processMedicalBillUpload(
+    file: Express.Multer.File,
+    requestInfo: UploadRequestInfo,
+    options: UploadPipelineOptions = {},
+  ): Promise<UploadPipelineResult> {
+    let parsedFile: ParsedFile = null;
+    const duplicatePolicy = options.duplicatePolicy || this.duplicateDetectionService.resolvePolicy();
+
+    // Same bytes as an earlier upload - no need to OCR it again just to reject it
+    const fileHash = file.buffer ? this.fileProcessingService.generateFileHash(file.buffer) : null;
+    let duplicateOf = await this.duplicateDetectionService.findExactDuplicate(fileHash);
+    if (duplicateOf && duplicatePolicy === 'reject') {
+      throw new DuplicateBillError(duplicateOf);
+    }
+
+    // Check the photo before spending OCR time on it
+    const qualityPolicy = options.qualityPolicy || this.imageQualityService.resolvePolicy();
+    const imageQuality = file.mimetype?.startsWith('image/') && file.buffer ? await this.imageQualityService.assess(file.buffer) : null;
+    if (imageQuality && !imageQuality.acceptable && qualityPolicy === 'reject') {
+      throw new ImageQualityError(imageQuality);
+    }
+
+    try {
+      parsedFile = await this.fileProcessingService.processFile(file, requestInfo, {
+        onStage: options.onStage,
+        ocrEngine: options.ocrEngine,
+        ensemble: options.ensemble,
+        imageQuality,
+      });
+
+      await options.onStage?.(ProcessingStage.EXTRACTION);
+
+      const { medicalBillData, provenance, confidence, validation, ocrCorrections, ocrEngine } = await this.extractMedicalBill(parsedFile);
+
+      // Different file, same bill (e.g. photographed twice)
+      if (!duplicateOf) {
+        duplicateOf = await this.duplicateDetectionService.findSemanticDuplicate(medicalBillData);
+        if (duplicateOf && duplicatePolicy === 'reject') {
+          throw new DuplicateBillError(duplicateOf);
+        }
+      }
+
+      await options.onStage?.(ProcessingStage.PERSISTENCE);
+
+      // Save medical bill data to database with file information
+      const medicalBill = await this.medicalBillService.saveMedicalBill(parsedFile.id, medicalBillData, confidence, {
+        fileName: parsedFile.originalName,
+        fileSize: parsedFile.fileSize,
+        processedStatus: parsedFile.processingStatus
+      }, {
+        contentFingerprint: this.duplicateDetectionService.computeFingerprint(medicalBillData),
+        duplicateOfId: duplicatePolicy === 'link' ? duplicateOf?.medicalBillId : null,
+        duplicateMatchType: duplicatePolicy === 'link' ? duplicateOf?.matchType : null,
+        fieldProvenance: provenance,
+        validationReport: validation,
+        ocrCorrections,
+        ocrEngine,
+      });
+
+      return {
+        parsedFile,
+        medicalBill,
+        medicalBillData,
+        confidence,
+        provenance,
+        validation,
+        ocrCorrections,
+        duplicateOf,
+        imageQuality: qualityPolicy === 'off' ? null : imageQuality,
+      };
+    } catch (error) {
+      // Clean up any partially created records
+      if (parsedFile && parsedFile.id) {
+        await this.cleanupFailedUpload(parsedFile.id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Extract, validate and reconcile a medical bill from a processed file's text, OCR lines and
+   * line item tables. Throws MedicalBillUploadError when the file is not a valid medical bill.
+   */
+  async extractMedicalBill(parsedFile: ParsedFile): Promise<MedicalBillExtraction> {
+    // Check if this is a medical bill and extract structured data
+    const isMedicalBill = parsedFile.extractedText ? this.medicalBillExtractionService.isMedicalBill(parsedFile.extractedText) : false;
+
+    if (!isMedicalBill) {
+      // Provide more detailed error information for debugging
+      const debugInfo = parsedFile.extractedText ? {
+        textLength: parsedFile.extractedText.length,
+        textPreview: parsedFile.extractedText.substring(0, 200) + '...',
+        isMedicalBill: isMedicalBill
+      } : { textLength: 0, textPreview: 'No text extracted', isMedicalBill: false };
+
+      throw new MedicalBillUploadError(`Uploaded file does not appear to be a medical bill. Debug info: ${JSON.stringify(debugInfo)}`);
+    }
+
+    let medicalBillData: MedicalBillDto;
+    let provenance: MedicalBillProvenance;
+    let confidence: number;
+    try {
+      const ocrLines = await this.fileProcessingService.getOcrLines(parsedFile.id);
+      const tableRows = await this.fileProcessingService.getLineItemRows(parsedFile.id);
+      ({ data: medicalBillData, provenance } = this.medicalBillExtractionService.extractMedicalBillDataWithProvenance(parsedFile.extractedText, ocrLines, tableRows));
+      const validation = this.medicalBillExtractionService.validateMedicalBill(medicalBillData);
+
+      if (!validation.isValid) {
+        throw new MedicalBillUploadError(`Medical bill validation failed: ${validation.errors.join(', ')}`, validation.errors);
+      }
+
+      confidence = this.medicalBillExtractionService.calculateConfidence(medicalBillData);
+    } catch (error) {
+      throw new MedicalBillUploadError(`Medical bill extraction failed: ${error.message}`, error.validationErrors);
+    }
+
+    // Fix digit misreads the bill's own arithmetic can pin down; the rest are kept as suggestions
+    const reconciliation = this.billReconciliationService.reconcile(medicalBillData);
+    medicalBillData = reconciliation.bill;
+    const validation = this.medicalBillValidationService.validate(medicalBillData);
+
+    return {
+      medicalBillData,
+      provenance,
+      confidence,
+      validation,
+      ocrCorrections: reconciliation.corrections,
+      ocrEngine: await this.fileProcessingService.getOcrEngineNames(parsedFile.id),
+    };
+  }
+
+  /**
+   * Shape a pipeline result the way the upload endpoints return it
+   */
+  toResponseData(result: UploadPipelineResult): any {
+    return {
+      id: result.parsedFile.id,
+      fileName: result.parsedFile.originalName,
+      fileSize: result.parsedFile.fileSize,
+      processedStatus: result.parsedFile.processingStatus,
+      processedDate: new Date().toISOString(),
+      ...result.medicalBillData,
+      duplicateOf: result.duplicateOf?.medicalBillId || null,
+      duplicateMatchType: result.duplicateOf?.matchType || null,
+      provenance: result.provenance,
+      validation: result.validation,
+      ocrCorrections: result.ocrCorrections,
+      imageQuality: result.imageQuality,
+    };
+  }
+
+  /**
+   * Clean up failed upload by removing the parsed file record
+   */
+  private async cleanupFailedUpload(parsedFileId: number): Promise<void> {
+    try {
+      await this.fileProcessingService.deleteParsedFile(parsedFileId);
+    } catch (error) {
+      // Failed to cleanup parsed file
+    }
+  }
+}
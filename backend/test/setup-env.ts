@@ -0,0 +1,4 @@
+// Unit tests run against an in-memory SQLite database, whatever .env selects.
+// Set before any entity is imported, as entities pick their column types on import.
+process.env.DB_TYPE = 'sqlite';
+process.env.DB_SQLITE_PATH = ':memory:';